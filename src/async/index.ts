@@ -0,0 +1,47 @@
+import { Temporal } from "@js-temporal/polyfill";
+import { AsyncLocalStorage } from "async_hooks";
+import type { Clock, ZonedDateTime } from "../types";
+import { FixedClock, setScopedClockProvider } from "../clock";
+
+/**
+ * The storage of clocks scoped with `withClock`.
+ */
+const clockStorage = new AsyncLocalStorage<Clock>();
+
+setScopedClockProvider(() => clockStorage.getStore());
+
+/**
+ * Runs a function with a clock scoped to it, including asynchronous work started by the function.
+ *
+ * The scope is tracked with `AsyncLocalStorage`, so concurrent requests or tests can use different
+ * clocks without affecting each other or the global clock. An instant creates a new `FixedClock`.
+ *
+ * Import it from `@zwoninstitute/il-gaemi/async`. The entry point needs `async_hooks` (Node.js 16.4+,
+ * Deno, Bun), which keeps the main entry usable in browsers.
+ *
+ * @template T - The return type of the function
+ * @param clock - The clock to use, or an instant to freeze at
+ * @param fn - The function to run
+ * @returns The return value of the function (a promise for async functions)
+ * @throws {InvalidDateFormatError} When the instant string cannot be parsed as an exact time
+ *
+ * @example
+ * ```typescript
+ * import { withClock } from '@zwoninstitute/il-gaemi/async';
+ *
+ * await withClock('2024-12-31T23:59:00+09:00[Asia/Seoul]', async () => {
+ *   await service.closeDailyReport(); // sees 2024-12-31 23:59 KST as "now"
+ *   advanceClock({ minutes: 2 });
+ *   getNow().year; // 2025
+ * });
+ *
+ * getNow(); // Unaffected: the global clock
+ * ```
+ */
+export function withClock<T>(clock: Clock | Temporal.Instant | ZonedDateTime | string, fn: () => T): T {
+  const scoped =
+    typeof clock === "string" || clock instanceof Temporal.Instant || clock instanceof Temporal.ZonedDateTime
+      ? new FixedClock(clock)
+      : clock;
+  return clockStorage.run(scoped, fn);
+}
@@ -0,0 +1,620 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type {
+  HolidayDefinition,
+  HolidayObservance,
+  HolidayRule,
+  RuleHoliday,
+  WeekDay,
+  PlainDate,
+  WorkdayRangeOptions,
+} from "../types";
+import { IncompatibleOperationError, MissingParameterError } from "../errors";
+import { getDefaultDayOffWeekdays, getDefaultHolidays } from "../config";
+
+/**
+ * Pre-computed holiday information for a single year.
+ */
+interface YearIndex {
+  /** All holiday dates of the year (YYYY-MM-DD) */
+  holidays: Set<string>;
+  /** Holiday dates that fall on working weekdays, sorted ascending */
+  workdayHolidays: string[];
+}
+
+/**
+ * A single occurrence of a holiday on a concrete date.
+ */
+interface HolidayOccurrence {
+  holiday: HolidayDefinition;
+  date: PlainDate;
+}
+
+/**
+ * Returns the number of entries in a sorted string array that are lower than `value`.
+ */
+function lowerBound(sorted: string[], value: string): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (sorted[middle] < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Computes the date of Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm).
+ */
+function getEasterSunday(year: number): PlainDate {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return Temporal.PlainDate.from({ year, month, day });
+}
+
+/**
+ * Evaluates a holiday rule for a single month.
+ */
+function getRuleDateInMonth(
+  rule: Exclude<HolidayRule, { type: "easter" }>,
+  year: number,
+  month: number,
+): PlainDate | null {
+  if (rule.type === "nthWeekday") {
+    const firstDay = Temporal.PlainDate.from({ year, month, day: 1 });
+    const day = 1 + ((rule.weekday - firstDay.dayOfWeek + 7) % 7) + (rule.n - 1) * 7;
+    return rule.n >= 1 && day <= firstDay.daysInMonth ? firstDay.with({ day }) : null;
+  }
+
+  const lastDay = Temporal.PlainDate.from({ year, month, day: 1 }).with({ day: 31 });
+  return lastDay.subtract({ days: (lastDay.dayOfWeek - rule.weekday + 7) % 7 });
+}
+
+/**
+ * Determines whether a holiday list entry is a `RuleHoliday`.
+ *
+ * @internal
+ */
+export function isRuleHoliday(holiday: HolidayDefinition): holiday is RuleHoliday {
+  return (holiday as RuleHoliday).rule !== undefined;
+}
+
+/**
+ * Returns the dates on which a holiday occurs in a given year.
+ *
+ * Fixed holidays occur in their own year only, recurring holidays on the same month and day
+ * every year (February 29 only in leap years), and rule-based holidays wherever their rule
+ * places them. `validFrom` / `validUntil` limit recurring and rule-based holidays to a range of years.
+ *
+ * @param holiday - The holiday to expand
+ * @param year - The year to get the occurrences for
+ * @returns The dates of the holiday in that year, in ascending order
+ * @throws {MissingParameterError} When the holiday has neither a `date` nor a `rule`
+ *
+ * @internal
+ */
+export function getHolidayDatesInYear(holiday: HolidayDefinition, year: number): PlainDate[] {
+  if (!isRuleHoliday(holiday)) {
+    if (!holiday.date) {
+      throw new MissingParameterError("holiday.date");
+    }
+    if (!holiday.recurring) {
+      const holidayDate = Temporal.PlainDate.from(holiday.date);
+      return holidayDate.year === year ? [holidayDate] : [];
+    }
+  }
+
+  const { validFrom, validUntil } = holiday;
+  if ((validFrom !== undefined && year < validFrom) || (validUntil !== undefined && year > validUntil)) {
+    return [];
+  }
+
+  if (!isRuleHoliday(holiday)) {
+    const holidayDate = Temporal.PlainDate.from(holiday.date);
+    const occurrence = holidayDate.with({ year });
+    // February 29 only recurs in leap years
+    return occurrence.day === holidayDate.day ? [occurrence] : [];
+  }
+
+  const { rule } = holiday;
+  if (rule.type === "easter") {
+    return [getEasterSunday(year).add({ days: rule.offset ?? 0 })];
+  }
+
+  const months = rule.month ? [rule.month] : [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+  return months.flatMap((month) => getRuleDateInMonth(rule, year, month) ?? []);
+}
+
+/**
+ * A business calendar that indexes holidays and days off once for fast repeated lookups.
+ *
+ * Holidays are bucketed by year when the calendar is constructed and each year is expanded
+ * (including recurring and rule-based holidays and observed dates) on first use, so:
+ * - `isWorkday` / `isHoliday` are O(1)
+ * - `count` is O(log n) per year in the range
+ * - `add` / `subtract` jump week by week using `count` instead of iterating day by day
+ *
+ * The free functions `isWorkday`, `getNextWorkday`, `addWorkdays`, `countWorkdays`, ... are
+ * built on top of this class. Prefer constructing a `BusinessCalendar` once when checking many
+ * dates against the same holiday list.
+ *
+ * @example
+ * ```typescript
+ * const calendar = new BusinessCalendar(getKoreanHolidaysBetween('2024-01-01', '2025-12-31'));
+ *
+ * calendar.isWorkday('2024-02-12'); // false (대체공휴일)
+ * calendar.next('2024-02-08'); // 2024-02-13
+ * calendar.previous('2024-02-13'); // 2024-02-08
+ * calendar.add('2024-02-08', 3); // 2024-02-15
+ * calendar.count('2024-02-01', '2024-02-29'); // 19
+ *
+ * // Observed holidays (US federal): Independence Day 2026 falls on a Saturday
+ * const federal = new BusinessCalendar([
+ *   { date: '2026-07-04', name: 'Independence Day', recurring: true, observance: 'nearestWeekday' },
+ * ]);
+ * federal.isWorkday('2026-07-03'); // false
+ *
+ * // Custom days off (e.g., Friday-Saturday weekend)
+ * const middleEast = new BusinessCalendar([], [5, 6]);
+ * middleEast.isWorkday('2024-01-14'); // true (Sunday)
+ * ```
+ */
+export class BusinessCalendar {
+  /** The weekdays that are never business days (ISO numbering, 1=Monday) */
+  readonly dayOffWeekdays: readonly WeekDay[];
+
+  private readonly daysOff: Set<number>;
+  private readonly fixedByYear = new Map<number, HolidayDefinition[]>();
+  private readonly annual: HolidayDefinition[] = [];
+  private readonly yearCache = new Map<number, YearIndex>();
+
+  /**
+   * Creates a business calendar.
+   *
+   * @param holidayList - An array of holiday objects. Each holiday can be either a one-time holiday or a recurring annual holiday
+   * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+   */
+  constructor(
+    holidayList: HolidayDefinition[] = getDefaultHolidays(),
+    dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+  ) {
+    this.daysOff = new Set(dayOffWeekdays);
+    this.dayOffWeekdays = [...this.daysOff].sort() as WeekDay[];
+
+    for (const holiday of holidayList) {
+      if (isRuleHoliday(holiday) || holiday.recurring) {
+        this.annual.push(holiday);
+        continue;
+      }
+      if (!holiday.date) {
+        throw new MissingParameterError("holiday.date");
+      }
+      const year = Temporal.PlainDate.from(holiday.date).year;
+      const sameYear = this.fixedByYear.get(year);
+      if (sameYear) {
+        sameYear.push(holiday);
+      } else {
+        this.fixedByYear.set(year, [holiday]);
+      }
+    }
+  }
+
+  /**
+   * Determines whether a date is a holiday, regardless of the day of the week.
+   *
+   * Observed dates of holidays with an `observance` policy count as holidays as well.
+   *
+   * @param date - The date to check. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @returns `true` if the date is in the holiday list or is an observed holiday
+   */
+  isHoliday(date: PlainDate | string): boolean {
+    const plainDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
+
+    return this.getYearIndex(plainDate.year).holidays.has(plainDate.toString());
+  }
+
+  /**
+   * Determines whether a date is a business day (neither a day off nor a holiday).
+   *
+   * @param date - The date to check. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @returns `true` if the date is a business day
+   */
+  isWorkday(date: PlainDate | string): boolean {
+    const plainDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
+
+    return !this.daysOff.has(plainDate.dayOfWeek) && !this.isHoliday(plainDate);
+  }
+
+  /**
+   * Finds the next business day after a date.
+   *
+   * @param date - The starting date. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @returns The next business day
+   * @throws {IncompatibleOperationError} When every day of the week is a day off
+   */
+  next(date: PlainDate | string): PlainDate {
+    this.assertHasWorkingWeekday();
+    let currentDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
+
+    do {
+      currentDate = currentDate.add({ days: 1 });
+    } while (!this.isWorkday(currentDate));
+
+    return currentDate;
+  }
+
+  /**
+   * Finds the previous business day before a date.
+   *
+   * @param date - The starting date. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @returns The previous business day
+   * @throws {IncompatibleOperationError} When every day of the week is a day off
+   */
+  previous(date: PlainDate | string): PlainDate {
+    this.assertHasWorkingWeekday();
+    let currentDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
+
+    do {
+      currentDate = currentDate.subtract({ days: 1 });
+    } while (!this.isWorkday(currentDate));
+
+    return currentDate;
+  }
+
+  /**
+   * Adds a number of business days to a date.
+   *
+   * @param date - The starting date. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @param amount - The number of workdays to add. Negative values subtract workdays
+   * @returns The resulting business day, or the starting date when `amount` is 0
+   * @throws {IncompatibleOperationError} When every day of the week is a day off
+   */
+  add(date: PlainDate | string, amount: number): PlainDate {
+    if (amount < 0) {
+      return this.subtract(date, -amount);
+    }
+
+    this.assertHasWorkingWeekday();
+    let currentDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
+    let remaining = amount;
+    const workdaysPerWeek = 7 - this.daysOff.size;
+
+    while (remaining > workdaysPerWeek) {
+      // Stop one workday short so that the result always lands on a workday
+      const target = currentDate.add({ weeks: Math.floor((remaining - 1) / workdaysPerWeek) });
+      remaining -= this.countBetween(currentDate.add({ days: 1 }), target);
+      currentDate = target;
+    }
+
+    while (remaining > 0) {
+      currentDate = this.next(currentDate);
+      remaining--;
+    }
+
+    return currentDate;
+  }
+
+  /**
+   * Subtracts a number of business days from a date.
+   *
+   * @param date - The starting date. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @param amount - The number of workdays to subtract. Negative values add workdays
+   * @returns The resulting business day, or the starting date when `amount` is 0
+   * @throws {IncompatibleOperationError} When every day of the week is a day off
+   */
+  subtract(date: PlainDate | string, amount: number): PlainDate {
+    if (amount < 0) {
+      return this.add(date, -amount);
+    }
+
+    this.assertHasWorkingWeekday();
+    let currentDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
+    let remaining = amount;
+    const workdaysPerWeek = 7 - this.daysOff.size;
+
+    while (remaining > workdaysPerWeek) {
+      // Stop one workday short so that the result always lands on a workday
+      const target = currentDate.subtract({ weeks: Math.floor((remaining - 1) / workdaysPerWeek) });
+      remaining -= this.countBetween(target, currentDate.subtract({ days: 1 }));
+      currentDate = target;
+    }
+
+    while (remaining > 0) {
+      currentDate = this.previous(currentDate);
+      remaining--;
+    }
+
+    return currentDate;
+  }
+
+  /**
+   * Counts the business days in a date range.
+   *
+   * The start date is always part of the range; the end date is included unless
+   * `options.inclusive` is `false`.
+   *
+   * @param start - The first date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @param end - The last date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @param options - Range options. `inclusive` controls whether the end date is counted (default: true)
+   * @returns The number of business days. Negative when `end` is before `start`
+   */
+  count(start: PlainDate | string, end: PlainDate | string, options: WorkdayRangeOptions = {}): number {
+    const startDate = typeof start === "string" ? Temporal.PlainDate.from(start) : start;
+    const endDate = typeof end === "string" ? Temporal.PlainDate.from(end) : end;
+
+    if (Temporal.PlainDate.compare(startDate, endDate) > 0) {
+      return -this.count(endDate, startDate, options);
+    }
+
+    const { inclusive = true } = options;
+    const lastDate = inclusive ? endDate : endDate.subtract({ days: 1 });
+
+    return this.countBetween(startDate, lastDate);
+  }
+
+  /**
+   * Lists the business days in a date range.
+   *
+   * Uses the same range semantics as `count`.
+   *
+   * @param start - The first date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @param end - The last date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+   * @param options - Range options. `inclusive` controls whether the end date is listed (default: true)
+   * @returns The business days in ascending order. Empty when `end` is before `start`
+   */
+  list(start: PlainDate | string, end: PlainDate | string, options: WorkdayRangeOptions = {}): PlainDate[] {
+    const startDate = typeof start === "string" ? Temporal.PlainDate.from(start) : start;
+    const endDate = typeof end === "string" ? Temporal.PlainDate.from(end) : end;
+
+    const { inclusive = true } = options;
+    const lastDate = inclusive ? endDate : endDate.subtract({ days: 1 });
+
+    const workdays: PlainDate[] = [];
+    for (let current = startDate; Temporal.PlainDate.compare(current, lastDate) <= 0; current = current.add({ days: 1 })) {
+      if (this.isWorkday(current)) {
+        workdays.push(current);
+      }
+    }
+
+    return workdays;
+  }
+
+  /**
+   * Counts the business days between two dates (both inclusive) without iterating day by day.
+   */
+  private countBetween(start: PlainDate, end: PlainDate): number {
+    if (Temporal.PlainDate.compare(start, end) > 0) {
+      return 0;
+    }
+
+    const totalDays = end.since(start).days + 1;
+    const fullWeeks = Math.floor(totalDays / 7);
+
+    let count = fullWeeks * (7 - this.daysOff.size);
+    for (let i = fullWeeks * 7; i < totalDays; i++) {
+      const dayOfWeek = ((start.dayOfWeek - 1 + i) % 7) + 1;
+      if (!this.daysOff.has(dayOfWeek)) {
+        count++;
+      }
+    }
+
+    const startString = start.toString();
+    const endString = end.toString();
+    for (let year = start.year; year <= end.year; year++) {
+      const { workdayHolidays } = this.getYearIndex(year);
+      count -= lowerBound(workdayHolidays, endString + "\u0000") - lowerBound(workdayHolidays, startString);
+    }
+
+    return count;
+  }
+
+  /**
+   * Expands the holidays of a year into an index, caching the result.
+   */
+  private getYearIndex(year: number): YearIndex {
+    const cached = this.yearCache.get(year);
+    if (cached) {
+      return cached;
+    }
+
+    const dates = [...this.getOccurrences(year).map(({ date }) => date), ...this.getObservedDates(year)];
+
+    const holidays = new Set<string>();
+    const workdayHolidays = new Set<string>();
+    for (const date of dates) {
+      const dateString = date.toString();
+      holidays.add(dateString);
+      if (!this.daysOff.has(date.dayOfWeek)) {
+        workdayHolidays.add(dateString);
+      }
+    }
+
+    const index = { holidays, workdayHolidays: [...workdayHolidays].sort() };
+    this.yearCache.set(year, index);
+    return index;
+  }
+
+  /**
+   * Returns the actual dates of all holidays in a year, in ascending order.
+   */
+  private getOccurrences(year: number): HolidayOccurrence[] {
+    return [...(this.fixedByYear.get(year) ?? []), ...this.annual]
+      .flatMap((holiday) => getHolidayDatesInYear(holiday, year).map((date) => ({ holiday, date })))
+      .sort((a, b) => Temporal.PlainDate.compare(a.date, b.date));
+  }
+
+  /**
+   * Resolves the observed dates that fall in a year according to each holiday's `observance`.
+   *
+   * Holidays of the neighboring years are resolved as well, since an observed date can cross
+   * the new year (e.g., January 1 on a Saturday observed on December 31). Holidays are handled
+   * in date order, so a holiday that collides with an earlier one cascades to the next free day.
+   */
+  private getObservedDates(year: number): PlainDate[] {
+    if (this.daysOff.size >= 7) {
+      return [];
+    }
+
+    const occurrences = [year - 1, year, year + 1].flatMap((y) => this.getOccurrences(y));
+    if (occurrences.every(({ holiday }) => (holiday.observance ?? "none") === "none")) {
+      return [];
+    }
+
+    const byDate = new Map<string, HolidayOccurrence[]>();
+    for (const occurrence of occurrences) {
+      const dateString = occurrence.date.toString();
+      byDate.set(dateString, [...(byDate.get(dateString) ?? []), occurrence]);
+    }
+
+    const taken = new Set(byDate.keys());
+    const observed: PlainDate[] = [];
+    for (const sameDay of byDate.values()) {
+      const date = sameDay[0].date;
+      // On a workday one holiday keeps the date, preferably one that is not moved anyway
+      const keeper = this.daysOff.has(date.dayOfWeek)
+        ? undefined
+        : (sameDay.find(({ holiday }) => (holiday.observance ?? "none") === "none") ?? sameDay[0]);
+
+      for (const occurrence of sameDay) {
+        const observance = occurrence.holiday.observance ?? "none";
+        if (occurrence === keeper || observance === "none") {
+          continue;
+        }
+        const observedDate = this.findObservedDate(date, observance, taken);
+        taken.add(observedDate.toString());
+        if (observedDate.year === year) {
+          observed.push(observedDate);
+        }
+      }
+    }
+
+    return observed;
+  }
+
+  /**
+   * Finds the first free workday in the direction given by an observance policy.
+   */
+  private findObservedDate(date: PlainDate, observance: HolidayObservance, taken: Set<string>): PlainDate {
+    let direction = observance === "previousWorkday" ? -1 : 1;
+
+    if (observance === "nearestWeekday") {
+      for (let distance = 1; ; distance++) {
+        if (!this.daysOff.has(date.add({ days: distance }).dayOfWeek)) {
+          break;
+        }
+        if (!this.daysOff.has(date.subtract({ days: distance }).dayOfWeek)) {
+          direction = -1;
+          break;
+        }
+      }
+    }
+
+    let candidate = date.add({ days: direction });
+    while (this.daysOff.has(candidate.dayOfWeek) || taken.has(candidate.toString())) {
+      candidate = candidate.add({ days: direction });
+    }
+    return candidate;
+  }
+
+  /**
+   * Ensures that at least one weekday is a working day, so that workday searches terminate.
+   */
+  private assertHasWorkingWeekday(): void {
+    if (this.daysOff.size >= 7) {
+      throw new IncompatibleOperationError("workday calculation", "every day of the week is a day off");
+    }
+  }
+}
+
+/**
+ * The maximum number of business calendars kept by `getCachedCalendar`.
+ */
+const CALENDAR_CACHE_SIZE = 16;
+
+/**
+ * Business calendars shared by the free functions, keyed by the days off and the contents of the holiday list,
+ * least recently used first.
+ */
+const calendarCache = new Map<string, BusinessCalendar>();
+
+/**
+ * Returns a key describing every field of a holiday list that affects business day calculations.
+ */
+function fingerprint(holidayList: HolidayDefinition[]): string {
+  let key = "";
+  for (const holiday of holidayList) {
+    const date = isRuleHoliday(holiday)
+      ? JSON.stringify(holiday.rule)
+      : `${holiday.date}|${holiday.recurring ? 1 : 0}`;
+    key += `${date}|${holiday.name}|${holiday.observance ?? ""}`;
+    key += `|${holiday.validFrom ?? ""}|${holiday.validUntil ?? ""}\n`;
+  }
+  return key;
+}
+
+/**
+ * Returns a (cached) business calendar for the given holiday list and days off.
+ *
+ * Used by the free workday and business hours functions, so repeated calls with the same holidays
+ * index them only once.
+ *
+ * @internal
+ */
+export function getCachedCalendar(holidayList: HolidayDefinition[], dayOffWeekdays: WeekDay[]): BusinessCalendar {
+  const key = `${dayOffWeekdays.join(",")}\n${fingerprint(holidayList)}`;
+
+  const cached = calendarCache.get(key);
+  if (cached) {
+    calendarCache.delete(key);
+    calendarCache.set(key, cached);
+    return cached;
+  }
+
+  const calendar = new BusinessCalendar(holidayList, dayOffWeekdays);
+  calendarCache.set(key, calendar);
+  if (calendarCache.size > CALENDAR_CACHE_SIZE) {
+    calendarCache.delete(calendarCache.keys().next().value!);
+  }
+  return calendar;
+}
+
+/**
+ * Creates a business calendar, like `new BusinessCalendar(holidayList, dayOffWeekdays)`.
+ *
+ * On a `createIlgaemi` instance, the holidays and days off default to those of the instance.
+ *
+ * @param holidayList - An array of holiday objects. Defaults to the configured holidays (none at the top level)
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to the configured
+ * days off ([6, 7], Saturday and Sunday, at the top level)
+ * @returns The business calendar
+ *
+ * @example
+ * ```typescript
+ * const middleEast = createIlgaemi({ dayOffWeekdays: [5, 6] });
+ * middleEast.createBusinessCalendar().isWorkday('2024-01-14'); // true (Sunday)
+ *
+ * const kr = createIlgaemi({ holidays: getKoreanHolidays(2024) });
+ * kr.createBusinessCalendar().isWorkday('2024-02-12'); // false (대체공휴일)
+ * ```
+ */
+export function createBusinessCalendar(
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+): BusinessCalendar {
+  return new BusinessCalendar(holidayList, dayOffWeekdays);
+}
@@ -0,0 +1,195 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { Clock, Duration, ZonedDateTime } from "../types";
+import { IncompatibleOperationError, InvalidDateFormatError } from "../errors";
+import { getConfiguredClock } from "../config";
+
+/**
+ * The clock reading the system time. This is the default clock.
+ *
+ * @example
+ * ```typescript
+ * // Restore the system clock after a test
+ * afterEach(() => setClock(SYSTEM_CLOCK));
+ * ```
+ */
+export const SYSTEM_CLOCK: Clock = {
+  now: () => Temporal.Now.instant(),
+};
+
+let globalClock: Clock = SYSTEM_CLOCK;
+
+/**
+ * Returns the clock of the innermost `withClock` scope. Scopes are tracked by the `/async` entry point,
+ * which installs its provider when it is imported, so the main entry stays free of Node built-ins.
+ */
+let getScopedClock: () => Clock | undefined = () => undefined;
+
+/**
+ * Installs the provider of the scoped clock. Called by the `/async` entry point.
+ *
+ * @internal
+ */
+export function setScopedClockProvider(provider: () => Clock | undefined): void {
+  getScopedClock = provider;
+}
+
+/**
+ * Converts an instant-like value to a Temporal.Instant. Strings need an offset or a time zone annotation.
+ *
+ * @internal
+ */
+export function toInstant(value: Temporal.Instant | ZonedDateTime | string): Temporal.Instant {
+  if (typeof value !== "string") {
+    return value instanceof Temporal.ZonedDateTime ? value.toInstant() : value;
+  }
+  try {
+    return value.includes("[") ? Temporal.ZonedDateTime.from(value).toInstant() : Temporal.Instant.from(value);
+  } catch {
+    throw new InvalidDateFormatError(value, ["ISO 8601 date-time with an offset or a time zone"]);
+  }
+}
+
+/**
+ * A clock standing still at a given instant until it is moved with `set` or `advance`.
+ *
+ * @example
+ * ```typescript
+ * const clock = new FixedClock('2024-01-15T09:00:00+09:00[Asia/Seoul]');
+ * clock.now().toString(); // "2024-01-15T00:00:00Z"
+ *
+ * clock.advance({ minutes: 30 });
+ * clock.now().toString(); // "2024-01-15T00:30:00Z"
+ * ```
+ */
+export class FixedClock implements Clock {
+  private current: Temporal.Instant;
+
+  /**
+   * Creates a fixed clock.
+   *
+   * @param instant - The instant the clock shows. Strings need an offset or a time zone annotation
+   * @throws {InvalidDateFormatError} When the string cannot be parsed as an exact time
+   */
+  constructor(instant: Temporal.Instant | ZonedDateTime | string) {
+    this.current = toInstant(instant);
+  }
+
+  /**
+   * Returns the instant the clock shows.
+   *
+   * @returns The current instant of the clock
+   */
+  now(): Temporal.Instant {
+    return this.current;
+  }
+
+  /**
+   * Moves the clock to an instant.
+   *
+   * @param instant - The new instant. Strings need an offset or a time zone annotation
+   * @throws {InvalidDateFormatError} When the string cannot be parsed as an exact time
+   */
+  set(instant: Temporal.Instant | ZonedDateTime | string): void {
+    this.current = toInstant(instant);
+  }
+
+  /**
+   * Moves the clock forward, or backward with a negative duration.
+   *
+   * Days, weeks, months and years are added in UTC, where a day is always 24 hours.
+   *
+   * @param duration - The duration to move by, as a Duration, a duration-like object or an ISO 8601 string
+   * @returns The new instant of the clock
+   */
+  advance(duration: Duration | Temporal.DurationLike | string): Temporal.Instant {
+    this.current = this.current.toZonedDateTimeISO("UTC").add(Temporal.Duration.from(duration)).toInstant();
+    return this.current;
+  }
+}
+
+/**
+ * Returns the active clock: the clock of the innermost `withClock` scope, or else the clock of the running
+ * `createIlgaemi` instance, or else the global clock.
+ *
+ * @returns The active clock
+ *
+ * @example
+ * ```typescript
+ * getClock() === SYSTEM_CLOCK; // true by default
+ * getClock().now(); // Temporal.Instant
+ * ```
+ */
+export function getClock(): Clock {
+  return getScopedClock() ?? getConfiguredClock() ?? globalClock;
+}
+
+/**
+ * Replaces the global clock used by every function depending on the current time.
+ *
+ * @param clock - The new clock. Defaults to `SYSTEM_CLOCK`, so `setClock()` restores the system time
+ *
+ * @example
+ * ```typescript
+ * setClock({ now: () => Temporal.Instant.from('2024-01-15T00:00:00Z') });
+ * getNow().toString(); // "2024-01-15T09:00:00+09:00[Asia/Seoul]"
+ *
+ * setClock(); // Back to the system clock
+ * ```
+ */
+export function setClock(clock: Clock = SYSTEM_CLOCK): void {
+  globalClock = clock;
+}
+
+/**
+ * Freezes the global clock at an instant.
+ *
+ * Use it in tests around deadlines and relative times instead of patching `Temporal.Now` or `Date`.
+ * The clock stays at the instant until it is moved with `advanceClock`.
+ *
+ * @param instant - The instant to freeze at. Strings need an offset or a time zone annotation
+ * @returns The installed fixed clock
+ * @throws {InvalidDateFormatError} When the string cannot be parsed as an exact time
+ *
+ * @example
+ * ```typescript
+ * beforeEach(() => useFixedClock('2024-01-15T09:00:00+09:00[Asia/Seoul]'));
+ * afterEach(() => setClock());
+ *
+ * it('shows relative times', () => {
+ *   getNow().toString(); // "2024-01-15T09:00:00+09:00[Asia/Seoul]"
+ *   formatRelative('2024-01-14T09:00:00+09:00[Asia/Seoul]'); // "1일 전"
+ * });
+ * ```
+ */
+export function useFixedClock(instant: Temporal.Instant | ZonedDateTime | string): FixedClock {
+  const clock = new FixedClock(instant);
+  setClock(clock);
+  return clock;
+}
+
+/**
+ * Moves the active fixed clock forward, or backward with a negative duration.
+ *
+ * Inside a `withClock` scope the scoped clock is moved, otherwise the global clock.
+ *
+ * @param duration - The duration to move by, as a Duration, a duration-like object or an ISO 8601 string
+ * @returns The new current instant
+ * @throws {IncompatibleOperationError} When the active clock is not a `FixedClock`
+ *
+ * @example
+ * ```typescript
+ * useFixedClock('2024-01-15T09:00:00+09:00[Asia/Seoul]');
+ * advanceClock({ hours: 2 });
+ * getNow().hour; // 11
+ *
+ * advanceClock('P1D');
+ * getNow().day; // 16
+ * ```
+ */
+export function advanceClock(duration: Duration | Temporal.DurationLike | string): Temporal.Instant {
+  const clock = getClock();
+  if (!(clock instanceof FixedClock)) {
+    throw new IncompatibleOperationError("advanceClock", "the active clock is not a fixed clock");
+  }
+  return clock.advance(duration);
+}
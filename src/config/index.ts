@@ -0,0 +1,88 @@
+import type { Clock, FiscalCalendar, HolidayDefinition, IlgaemiConfig, Locale, WeekDay } from "../types";
+
+/**
+ * Default timezone for the library (Korea Standard Time).
+ *
+ * This constant is used as the default timezone throughout the library
+ * when no specific timezone is provided and no instance created with
+ * `createIlgaemi` configures another one.
+ */
+export const DEFAULT_TIMEZONE = "Asia/Seoul";
+
+/**
+ * The configuration of the instance whose function is running, or `undefined` for the top-level functions.
+ */
+let activeConfig: IlgaemiConfig | undefined;
+
+/**
+ * Runs a function with an instance configuration providing the defaults.
+ *
+ * The configuration is active only while the function runs synchronously; the previous configuration is
+ * restored afterwards, also when the function throws.
+ *
+ * @internal
+ */
+export function runWithConfig<T>(config: IlgaemiConfig, fn: () => T): T {
+  const previous = activeConfig;
+  activeConfig = config;
+  try {
+    return fn();
+  } finally {
+    activeConfig = previous;
+  }
+}
+
+/**
+ * Returns the time zone used when none is passed: the instance time zone, or `DEFAULT_TIMEZONE`.
+ *
+ * @internal
+ */
+export function getDefaultTimeZone(): string {
+  return activeConfig?.timeZone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Returns the holidays used when none are passed: the instance holidays, or none.
+ *
+ * @internal
+ */
+export function getDefaultHolidays(): HolidayDefinition[] {
+  return activeConfig?.holidays ?? [];
+}
+
+/**
+ * Returns the days off used when none are passed: the instance days off, or Saturday and Sunday.
+ *
+ * @internal
+ */
+export function getDefaultDayOffWeekdays(): WeekDay[] {
+  return activeConfig?.dayOffWeekdays ?? [6, 7];
+}
+
+/**
+ * Returns the locale of the instance, or `undefined` when the global default locale applies.
+ *
+ * @internal
+ */
+export function getConfiguredLocale(): string | Locale | undefined {
+  return activeConfig?.locale;
+}
+
+/**
+ * Returns the clock of the instance, or `undefined` when the global clock applies.
+ *
+ * @internal
+ */
+export function getConfiguredClock(): Clock | undefined {
+  return activeConfig?.clock;
+}
+
+/**
+ * Returns the fiscal calendar used when none is passed: the instance fiscal calendar, or fiscal years from
+ * January.
+ *
+ * @internal
+ */
+export function getDefaultFiscalCalendar(): FiscalCalendar {
+  return activeConfig?.fiscalCalendar ?? {};
+}
@@ -0,0 +1,544 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { CronOptions, PlainDate, PlainDateTime, PlainTime, TimeZone, WeekDay, ZonedDateTime } from "../types";
+import { BusinessCalendar } from "../calendar";
+import { toZonedDateTime } from "../recurrence";
+import { getDefaultDayOffWeekdays, getDefaultHolidays, getDefaultTimeZone } from "../config";
+import { InvalidDateFormatError, OutOfRangeError } from "../errors";
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+/**
+ * Weekday names in cron order (0 = Sunday).
+ */
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/**
+ * Searches for the next or previous run stop after this many years without a match
+ * (e.g. `0 0 30 2 *` never runs).
+ */
+const MAX_SEARCH_YEARS = 100;
+
+const CRON_FORMATS = [
+  "minute hour day-of-month month day-of-week",
+  "second minute hour day-of-month month day-of-week",
+  "@yearly, @monthly, @weekly, @daily, @hourly",
+];
+
+/**
+ * The parsed fields of a cron expression.
+ */
+interface CronFields {
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  months: Set<number>;
+  /** Days of the month, including the results of `L-n`, `LW` and `nW` for the month being checked */
+  daysOfMonth: {
+    days: Set<number>;
+    /** `L` (0) and `L-n` (n) */
+    fromLast: number[];
+    /** `LW` */
+    lastWeekday: boolean;
+    /** `nW` */
+    nearestWeekday: number[];
+  };
+  /** Days of the week (ISO numbering), including `n#k` and `nL` */
+  daysOfWeek: {
+    weekdays: Set<WeekDay>;
+    nth: { weekday: WeekDay; n: number }[];
+    last: WeekDay[];
+  };
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Converts a cron weekday (0-7, 0 and 7 = Sunday) to an ISO weekday (1-7, 7 = Sunday).
+ */
+function toISOWeekday(weekday: number): WeekDay {
+  return (weekday === 0 ? 7 : weekday) as WeekDay;
+}
+
+/**
+ * Returns the weekday closest to a day of the month without leaving the month (`nW`).
+ */
+function getNearestWeekday(month: PlainDate, day: number): number | null {
+  if (day > month.daysInMonth) {
+    return null;
+  }
+  const dayOfWeek = month.with({ day }).dayOfWeek;
+  if (dayOfWeek === 6) {
+    return day === 1 ? 3 : day - 1;
+  }
+  if (dayOfWeek === 7) {
+    return day === month.daysInMonth ? day - 2 : day + 1;
+  }
+  return day;
+}
+
+/**
+ * A cron expression evaluated in a time zone.
+ *
+ * Supported syntax:
+ * - 5 fields (`minute hour day-of-month month day-of-week`) or 6 fields with seconds first
+ * - `*`, `?`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `5/10`, `1-30/2`)
+ * - Month names (`JAN`-`DEC`) and weekday names (`SUN`-`SAT`), case-insensitive; weekdays 0 and 7 are Sunday
+ * - Day of month: `L` (last day), `L-3` (3 days before the last day), `LW` (last weekday), `15W` (weekday nearest the 15th)
+ * - Day of week: `5L` or `FRIL` (last Friday of the month), `1#2` or `MON#2` (second Monday of the month)
+ * - Macros: `@yearly`, `@annually`, `@monthly`, `@weekly`, `@daily`, `@midnight`, `@hourly`
+ *
+ * As in Vixie cron, when both the day of month and the day of week are restricted, a day matches
+ * when either field matches.
+ *
+ * Runs are scheduled on wall-clock time in `timeZone`, with these DST rules:
+ * - Local times that are skipped by a DST gap run once, at the end of the gap (e.g. a 02:30 job runs at 03:00
+ *   on the day clocks move from 02:00 to 03:00). Several runs in the same gap become a single run.
+ * - Local times that occur twice in a DST overlap run once, at the first occurrence.
+ *
+ * @example
+ * ```typescript
+ * const nightly = parseCron('0 2 * * *');
+ * nightly.next('2024-01-15T03:00:00+09:00[Asia/Seoul]', 2);
+ * // [2024-01-16T02:00:00+09:00[Asia/Seoul], 2024-01-17T02:00:00+09:00[Asia/Seoul]]
+ *
+ * parseCron('0 9 ? * MON#2').next('2024-01-01T00:00:00+09:00[Asia/Seoul]'); // [2024-01-08T09:00:00+09:00]
+ * parseCron('0 18 L * *').previous('2024-03-15T00:00:00+09:00[Asia/Seoul]'); // [2024-02-29T18:00:00+09:00]
+ * ```
+ */
+export class CronExpression {
+  /** The expression as given */
+  readonly expression: string;
+  /** The time zone the expression is evaluated in */
+  readonly timeZone: TimeZone;
+
+  private readonly fields: CronFields;
+  private readonly calendar?: BusinessCalendar;
+
+  /**
+   * Parses a cron expression.
+   *
+   * @param expression - The cron expression, e.g. `0 2 * * *` or `0 *\/5 9-18 * * MON-FRI`
+   * @param options - Time zone and workday options
+   * @throws {InvalidDateFormatError} When the expression is malformed. `position` points to the invalid field
+   * @throws {OutOfRangeError} When a value is outside the range of its field
+   */
+  constructor(expression: string, options: CronOptions = {}) {
+    this.expression = expression;
+    this.timeZone = options.timeZone ?? getDefaultTimeZone();
+    this.fields = parseFields(expression);
+    if (options.workdaysOnly) {
+      this.calendar = new BusinessCalendar(
+        options.holidayList ?? getDefaultHolidays(),
+        options.dayOffWeekdays ?? getDefaultDayOffWeekdays(),
+      );
+    }
+  }
+
+  /**
+   * Returns the next runs after a date.
+   *
+   * @param from - The reference date (exclusive). Strings without a time zone are interpreted in `timeZone`
+   * @param count - The number of runs to return. Defaults to 1
+   * @returns The runs in ascending order, in `timeZone`. Fewer runs are returned when the expression
+   * has no run within 100 years
+   *
+   * @example
+   * ```typescript
+   * parseCron('*\/30 9-10 * * MON-FRI').next('2024-01-15T09:10:00+09:00[Asia/Seoul]', 3);
+   * // [09:30, 10:00, 10:30] on 2024-01-15
+   * ```
+   */
+  next(from: ZonedDateTime | string, count = 1): ZonedDateTime[] {
+    const reference = toZonedDateTime(from, this.timeZone).withTimeZone(this.timeZone);
+    const runs: ZonedDateTime[] = [];
+
+    // Wall-clock times map to instants in ascending order, so the search can start at the wall-clock time of `from`
+    let cursor = reference
+      .toPlainDateTime()
+      .round({ smallestUnit: "second", roundingMode: "floor" });
+    while (runs.length < count) {
+      const wallTime = this.findWallTime(cursor, 1);
+      if (!wallTime) {
+        break;
+      }
+      const run = this.toRun(wallTime);
+      if (Temporal.ZonedDateTime.compare(run, reference) > 0 && !runs.at(-1)?.equals(run)) {
+        runs.push(run);
+      }
+      cursor = wallTime.add({ seconds: 1 });
+    }
+    return runs;
+  }
+
+  /**
+   * Returns the previous runs before a date.
+   *
+   * @param from - The reference date (exclusive). Strings without a time zone are interpreted in `timeZone`
+   * @param count - The number of runs to return. Defaults to 1
+   * @returns The runs in descending order (most recent first), in `timeZone`
+   *
+   * @example
+   * ```typescript
+   * parseCron('0 0 1 * *').previous('2024-03-15T00:00:00+09:00[Asia/Seoul]', 2);
+   * // [2024-03-01T00:00:00+09:00[Asia/Seoul], 2024-02-01T00:00:00+09:00[Asia/Seoul]]
+   * ```
+   */
+  previous(from: ZonedDateTime | string, count = 1): ZonedDateTime[] {
+    const reference = toZonedDateTime(from, this.timeZone).withTimeZone(this.timeZone);
+    const runs: ZonedDateTime[] = [];
+
+    // In the second pass of a DST overlap, wall-clock times up to the end of the overlap ran before `from`
+    const wallTime = reference.toPlainDateTime();
+    const firstPass = wallTime.toZonedDateTime(this.timeZone, { disambiguation: "earlier" });
+    let cursor = wallTime
+      .add(firstPass.until(reference))
+      .round({ smallestUnit: "second", roundingMode: "ceil" });
+
+    while (runs.length < count) {
+      const found = this.findWallTime(cursor, -1);
+      if (!found) {
+        break;
+      }
+      const run = this.toRun(found);
+      if (Temporal.ZonedDateTime.compare(run, reference) < 0 && !runs.at(-1)?.equals(run)) {
+        runs.push(run);
+      }
+      cursor = found.subtract({ seconds: 1 });
+    }
+    return runs;
+  }
+
+  /**
+   * Determines whether the expression has a run at a date (ignoring fractions of a second).
+   *
+   * @param date - The date to check. Strings without a time zone are interpreted in `timeZone`
+   * @returns `true` when the expression runs at the date
+   *
+   * @example
+   * ```typescript
+   * parseCron('0 9 * * MON-FRI').matches('2024-01-15T09:00:00+09:00[Asia/Seoul]'); // true (Monday)
+   * ```
+   */
+  matches(date: ZonedDateTime | string): boolean {
+    const zoned = toZonedDateTime(date, this.timeZone).withTimeZone(this.timeZone);
+    const wallTime = zoned.toPlainDateTime().round({ smallestUnit: "second", roundingMode: "floor" });
+    const found = this.findWallTime(wallTime, 1);
+    return !!found && found.equals(wallTime) && this.toRun(found).epochSeconds === zoned.epochSeconds;
+  }
+
+  /**
+   * Returns the expression as given.
+   */
+  toString(): string {
+    return this.expression;
+  }
+
+  /**
+   * Determines whether a date matches the day, month and workday fields.
+   */
+  private matchesDate(date: PlainDate): boolean {
+    const { months, daysOfMonth, daysOfWeek, dayOfMonthRestricted, dayOfWeekRestricted } = this.fields;
+    if (!months.has(date.month)) {
+      return false;
+    }
+
+    const matchesDayOfMonth = () =>
+      daysOfMonth.days.has(date.day) ||
+      daysOfMonth.fromLast.some((offset) => date.day === date.daysInMonth - offset) ||
+      (daysOfMonth.lastWeekday && date.day === getNearestWeekday(date, date.daysInMonth)) ||
+      daysOfMonth.nearestWeekday.some((day) => getNearestWeekday(date, day) === date.day);
+    const matchesDayOfWeek = () =>
+      daysOfWeek.weekdays.has(date.dayOfWeek as WeekDay) ||
+      daysOfWeek.nth.some(({ weekday, n }) => weekday === date.dayOfWeek && Math.ceil(date.day / 7) === n) ||
+      daysOfWeek.last.some((weekday) => weekday === date.dayOfWeek && date.day + 7 > date.daysInMonth);
+
+    let matches: boolean;
+    if (dayOfMonthRestricted && dayOfWeekRestricted) {
+      matches = matchesDayOfMonth() || matchesDayOfWeek();
+    } else {
+      matches = (!dayOfMonthRestricted || matchesDayOfMonth()) && (!dayOfWeekRestricted || matchesDayOfWeek());
+    }
+    return matches && (!this.calendar || this.calendar.isWorkday(date));
+  }
+
+  /**
+   * Finds the first time of the day at or after (`direction` 1) or at or before (`direction` -1) a time.
+   */
+  private findTime(time: PlainTime | null, direction: 1 | -1): PlainTime | null {
+    const order = (values: number[]) => (direction === 1 ? values : [...values].reverse());
+    const before = (a: number, b: number) => (direction === 1 ? a < b : a > b);
+
+    for (const hour of order(this.fields.hours)) {
+      if (time && before(hour, time.hour)) continue;
+      for (const minute of order(this.fields.minutes)) {
+        if (time && hour === time.hour && before(minute, time.minute)) continue;
+        for (const second of order(this.fields.seconds)) {
+          if (time && hour === time.hour && minute === time.minute && before(second, time.second)) continue;
+          return Temporal.PlainTime.from({ hour, minute, second });
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds the first matching wall-clock time at or after (`direction` 1) or at or before (`direction` -1) a time.
+   */
+  private findWallTime(from: PlainDateTime, direction: 1 | -1): PlainDateTime | null {
+    let date = from.toPlainDate();
+    let time: PlainTime | null = from.toPlainTime();
+    const limit = date.add({ years: MAX_SEARCH_YEARS * direction });
+
+    while (Temporal.PlainDate.compare(date, limit) * direction <= 0) {
+      if (!this.fields.months.has(date.month)) {
+        // Skip to the first (or last) day of the next (or previous) month
+        const firstDay = date.with({ day: 1 });
+        date = direction === 1 ? firstDay.add({ months: 1 }) : firstDay.subtract({ days: 1 });
+        time = null;
+        continue;
+      }
+      if (this.matchesDate(date)) {
+        const found = this.findTime(time, direction);
+        if (found) {
+          return date.toPlainDateTime(found);
+        }
+      }
+      date = date.add({ days: direction });
+      time = null;
+    }
+    return null;
+  }
+
+  /**
+   * Converts a wall-clock time to the instant of the run, applying the DST rules.
+   */
+  private toRun(wallTime: PlainDateTime): ZonedDateTime {
+    const run = wallTime.toZonedDateTime(this.timeZone, { disambiguation: "earlier" });
+    if (run.toPlainDateTime().equals(wallTime)) {
+      return run;
+    }
+    // The wall-clock time is in a DST gap: run when the gap ends
+    const gapEnd = new Temporal.TimeZone(this.timeZone).getNextTransition(run.toInstant());
+    return gapEnd ? gapEnd.toZonedDateTimeISO(this.timeZone) : run;
+  }
+}
+
+/**
+ * Parses one field of a cron expression into the values it matches.
+ */
+function parseValues(
+  expression: string,
+  field: string,
+  position: number,
+  name: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0,
+): number[] {
+  const invalid = () => new InvalidDateFormatError(expression, CRON_FORMATS, position);
+  const parseValue = (text: string) => {
+    const index = names.indexOf(text.toUpperCase());
+    if (index !== -1) {
+      return index + nameOffset;
+    }
+    if (!/^\d+$/.test(text)) {
+      throw invalid();
+    }
+    const value = Number(text);
+    if (value < min || value > max) {
+      throw new OutOfRangeError(`${name} ${value}`, min, max);
+    }
+    return value;
+  };
+
+  const values = new Set<number>();
+  for (const item of field.split(",")) {
+    const [range, stepText, ...rest] = item.split("/");
+    if (rest.length || range === "") {
+      throw invalid();
+    }
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw invalid();
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*" || range === "?") {
+      [start, end] = [min, max];
+    } else if (range.includes("-")) {
+      const [first, last, ...others] = range.split("-");
+      if (others.length) {
+        throw invalid();
+      }
+      [start, end] = [parseValue(first), parseValue(last)];
+      if (start > end) {
+        throw invalid();
+      }
+    } else {
+      start = parseValue(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parses the day-of-month field, including `L`, `L-n`, `LW` and `nW`.
+ */
+function parseDaysOfMonth(expression: string, field: string, position: number): CronFields["daysOfMonth"] {
+  const daysOfMonth: CronFields["daysOfMonth"] = {
+    days: new Set(),
+    fromLast: [],
+    lastWeekday: false,
+    nearestWeekday: [],
+  };
+
+  for (const item of field.toUpperCase().split(",")) {
+    const fromLast = /^L(?:-(\d+))?$/.exec(item);
+    const nearest = /^(\d+)W$/.exec(item);
+    if (item === "LW") {
+      daysOfMonth.lastWeekday = true;
+    } else if (fromLast) {
+      const offset = Number(fromLast[1] ?? 0);
+      if (offset > 30) {
+        throw new OutOfRangeError(`day-of-month L-${offset}`, 0, 30);
+      }
+      daysOfMonth.fromLast.push(offset);
+    } else if (nearest) {
+      daysOfMonth.nearestWeekday.push(...parseValues(expression, nearest[1], position, "day-of-month", 1, 31));
+    } else {
+      parseValues(expression, item, position, "day-of-month", 1, 31).forEach((day) => daysOfMonth.days.add(day));
+    }
+  }
+  return daysOfMonth;
+}
+
+/**
+ * Parses the day-of-week field, including `n#k` and `nL`.
+ */
+function parseDaysOfWeek(expression: string, field: string, position: number): CronFields["daysOfWeek"] {
+  const daysOfWeek: CronFields["daysOfWeek"] = { weekdays: new Set(), nth: [], last: [] };
+  const parseWeekday = (text: string) =>
+    toISOWeekday(parseValues(expression, text, position, "day-of-week", 0, 7, WEEKDAY_NAMES)[0]);
+
+  for (const item of field.toUpperCase().split(",")) {
+    const nth = /^(\w+)#(\d+)$/.exec(item);
+    const last = /^(\w+)L$/.exec(item);
+    if (nth) {
+      const n = Number(nth[2]);
+      if (n < 1 || n > 5) {
+        throw new OutOfRangeError(`day-of-week #${n}`, 1, 5);
+      }
+      daysOfWeek.nth.push({ weekday: parseWeekday(nth[1]), n });
+    } else if (last) {
+      daysOfWeek.last.push(parseWeekday(last[1]));
+    } else {
+      parseValues(expression, item, position, "day-of-week", 0, 7, WEEKDAY_NAMES).forEach((weekday) =>
+        daysOfWeek.weekdays.add(toISOWeekday(weekday)),
+      );
+    }
+  }
+  return daysOfWeek;
+}
+
+/**
+ * Parses the fields of a cron expression.
+ */
+function parseFields(expression: string): CronFields {
+  const trimmed = expression.trim();
+  const text = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const offset = text === trimmed ? expression.indexOf(trimmed) : 0;
+
+  const fields: { value: string; position: number }[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    fields.push({ value: match[0], position: offset + match.index! });
+  }
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new InvalidDateFormatError(expression, CRON_FORMATS, offset + text.length);
+  }
+
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] =
+    fields.length === 6 ? fields : [{ value: "0", position: 0 }, ...fields];
+  const isWildcard = (field: string) => field === "*" || field === "?";
+
+  return {
+    seconds: parseValues(expression, second.value, second.position, "second", 0, 59),
+    minutes: parseValues(expression, minute.value, minute.position, "minute", 0, 59),
+    hours: parseValues(expression, hour.value, hour.position, "hour", 0, 23),
+    months: new Set(parseValues(expression, month.value, month.position, "month", 1, 12, MONTH_NAMES, 1)),
+    daysOfMonth: parseDaysOfMonth(expression, dayOfMonth.value, dayOfMonth.position),
+    daysOfWeek: parseDaysOfWeek(expression, dayOfWeek.value, dayOfWeek.position),
+    dayOfMonthRestricted: !isWildcard(dayOfMonth.value),
+    dayOfWeekRestricted: !isWildcard(dayOfWeek.value),
+  };
+}
+
+/**
+ * Parses a cron expression for previewing, validating and evaluating schedules.
+ *
+ * See `CronExpression` for the supported syntax and the DST rules.
+ *
+ * @param expression - The cron expression, with 5 fields (`minute hour day-of-month month day-of-week`),
+ * 6 fields (seconds first) or a macro such as `@daily`
+ * @param options - The time zone (default: `DEFAULT_TIMEZONE`) and whether non-workdays are skipped
+ * @returns The parsed expression
+ * @throws {InvalidDateFormatError} When the expression is malformed. `position` points to the invalid field
+ * @throws {OutOfRangeError} When a value is outside the range of its field
+ *
+ * @example
+ * ```typescript
+ * // Batch at 02:00 KST
+ * parseCron('0 2 * * *').next(getNow(), 5);
+ *
+ * // Every 15 minutes during business hours in New York
+ * parseCron('*\/15 9-17 * * MON-FRI', { timeZone: 'America/New_York' }).next(getNow());
+ *
+ * // Daily report at 18:00 on Korean workdays only
+ * parseCron('0 18 * * *', { workdaysOnly: true, holidayList: getKoreanHolidays(2024) });
+ *
+ * // Validation
+ * parseCron('0 25 * * *'); // throws OutOfRangeError
+ * ```
+ */
+export function parseCron(expression: string, options: CronOptions = {}): CronExpression {
+  return new CronExpression(expression, options);
+}
+
+/**
+ * Creates a cron expression, like `new CronExpression(expression, options)` and `parseCron`.
+ *
+ * On a `createIlgaemi` instance, the expression is evaluated in the time zone of the instance and
+ * `workdaysOnly` skips the holidays and days off of the instance.
+ *
+ * @param expression - The cron expression, with 5 fields, 6 fields (seconds first) or a macro such as `@daily`
+ * @param options - The time zone (default: the configured time zone) and whether non-workdays are skipped
+ * @returns The parsed expression
+ * @throws {InvalidDateFormatError} When the expression is malformed. `position` points to the invalid field
+ * @throws {OutOfRangeError} When a value is outside the range of its field
+ *
+ * @example
+ * ```typescript
+ * const us = createIlgaemi({ timeZone: 'America/New_York' });
+ * const report = us.createCron('0 9 * * MON-FRI', { workdaysOnly: true });
+ * report.timeZone; // "America/New_York"
+ * ```
+ */
+export function createCron(expression: string, options: CronOptions = {}): CronExpression {
+  return new CronExpression(expression, options);
+}
@@ -1,6 +1,7 @@
 import { Temporal } from "@js-temporal/polyfill";
-import type { Holiday, WeekDay, PlainDate } from "../types";
-import { InvalidDateError } from "../errors";
+import type { HolidayDefinition, WeekDay, PlainDate, WorkdayRangeOptions } from "../types";
+import { getCachedCalendar } from "../calendar";
+import { getDefaultDayOffWeekdays, getDefaultHolidays } from "../config";
 
 /**
  * Determines whether a given date is a business day (workday).
@@ -8,6 +9,10 @@ import { InvalidDateError } from "../errors";
  * A business day is defined as a day that is:
  * - Not a weekend day (configurable, defaults to Saturday and Sunday)
  * - Not a holiday from the provided holiday list
+ * - Not the observed date of a holiday with an `observance` policy (e.g., a Saturday holiday observed on Monday)
+ *
+ * The holidays are indexed once and cached by the contents of the holiday list, so repeated calls with
+ * the same holidays only compare the list instead of re-indexing it.
  *
  * @param date - The date to check. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
  * @param holidayList - An array of holiday objects. Each holiday can be either a one-time holiday or a recurring annual holiday
@@ -33,26 +38,10 @@ import { InvalidDateError } from "../errors";
  */
 export function isWorkday(
   date: PlainDate | string,
-  holidayList: Holiday[] = [],
-  dayOffWeekdays: WeekDay[] = [6, 7],
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
 ): boolean {
-  const plainDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
-
-  const dayOfWeek = plainDate.dayOfWeek;
-  if (dayOffWeekdays.includes(dayOfWeek as WeekDay)) {
-    return false;
-  }
-
-  const dateString = plainDate.toString();
-  const isHoliday = holidayList.some((holiday) => {
-    if (holiday.recurring) {
-      const holidayDate = Temporal.PlainDate.from(holiday.date);
-      return holidayDate.month === plainDate.month && holidayDate.day === plainDate.day;
-    }
-    return holiday.date === dateString;
-  });
-
-  return !isHoliday;
+  return getCachedCalendar(holidayList, dayOffWeekdays).isWorkday(date);
 }
 
 /**
@@ -129,12 +118,14 @@ export function getWeekNum(date: PlainDate | string): { month: number; year: num
 /**
  * Finds the next business day after a given date.
  *
- * This function will increment the date by one day repeatedly until it finds
- * a day that qualifies as a business day according to the `isWorkday` function.
+ * The holidays are indexed once by a `BusinessCalendar` (see `isWorkday`), so each day is checked in
+ * constant time, skipping days off and holidays until a day qualifies as a business day.
  *
  * @param date - The starting date. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
  * @param holidayList - An array of holiday objects to consider when determining business days
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
  * @returns The next business day as a Temporal.PlainDate object
+ * @throws {IncompatibleOperationError} When every day of the week is a day off
  *
  * @example
  * ```typescript
@@ -152,27 +143,23 @@ export function getWeekNum(date: PlainDate | string): { month: number; year: num
  */
 export function getNextWorkday(
   date: PlainDate | string,
-  holidayList: Holiday[] = [],
-  dayOffWeekdays: WeekDay[] = [6, 7],
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
 ): PlainDate {
-  let currentDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
-
-  do {
-    currentDate = currentDate.add({ days: 1 });
-  } while (!isWorkday(currentDate, holidayList, dayOffWeekdays));
-
-  return currentDate;
+  return getCachedCalendar(holidayList, dayOffWeekdays).next(date);
 }
 
 /**
  * Finds the previous business day before a given date.
  *
- * This function will decrement the date by one day repeatedly until it finds
- * a day that qualifies as a business day according to the `isWorkday` function.
+ * The holidays are indexed once by a `BusinessCalendar` (see `isWorkday`), so each day is checked in
+ * constant time, skipping days off and holidays until a day qualifies as a business day.
  *
  * @param date - The starting date. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
  * @param holidayList - An array of holiday objects to consider when determining business days
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
  * @returns The previous business day as a Temporal.PlainDate object
+ * @throws {IncompatibleOperationError} When every day of the week is a day off
  *
  * @example
  * ```typescript
@@ -190,14 +177,158 @@ export function getNextWorkday(
  */
 export function getPreviousWorkday(
   date: PlainDate | string,
-  holidayList: Holiday[] = [],
-  dayOffWeekdays: WeekDay[] = [6, 7],
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
 ): PlainDate {
-  let currentDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
+  return getCachedCalendar(holidayList, dayOffWeekdays).previous(date);
+}
 
-  do {
-    currentDate = currentDate.subtract({ days: 1 });
-  } while (!isWorkday(currentDate, holidayList, dayOffWeekdays));
+/**
+ * Adds a number of business days to a date.
+ *
+ * Weekends and holidays are skipped using the same rules as `isWorkday`. Large spans are
+ * computed week by week instead of day by day, so adding thousands of workdays is cheap.
+ *
+ * @param date - The starting date. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @param amount - The number of workdays to add. Negative values subtract workdays
+ * @param holidayList - An array of holiday objects to consider when determining business days
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @returns The resulting business day as a Temporal.PlainDate object, or the starting date when `amount` is 0
+ * @throws {IncompatibleOperationError} When every day of the week is a day off
+ *
+ * @example
+ * ```typescript
+ * // 5 business days after an order placed on Friday
+ * const dueDate = addWorkdays('2024-01-12', 5); // 2024-01-19 (Friday)
+ *
+ * // Considering holidays
+ * const holidays = [{ date: '2024-01-15', name: 'Special Holiday', recurring: false }];
+ * const dueDate2 = addWorkdays('2024-01-12', 5, holidays); // 2024-01-22 (Monday)
+ *
+ * // Negative amounts go backwards
+ * const earlier = addWorkdays('2024-01-15', -1); // 2024-01-12 (Friday)
+ * ```
+ */
+export function addWorkdays(
+  date: PlainDate | string,
+  amount: number,
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+): PlainDate {
+  return getCachedCalendar(holidayList, dayOffWeekdays).add(date, amount);
+}
 
-  return currentDate;
+/**
+ * Subtracts a number of business days from a date.
+ *
+ * This is the inverse of `addWorkdays` and shares its holiday and weekend semantics.
+ *
+ * @param date - The starting date. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @param amount - The number of workdays to subtract. Negative values add workdays
+ * @param holidayList - An array of holiday objects to consider when determining business days
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @returns The resulting business day as a Temporal.PlainDate object, or the starting date when `amount` is 0
+ * @throws {IncompatibleOperationError} When every day of the week is a day off
+ *
+ * @example
+ * ```typescript
+ * // 3 business days before a deadline on Wednesday
+ * const reminder = subtractWorkdays('2024-01-17', 3); // 2024-01-12 (Friday)
+ *
+ * // Considering holidays
+ * const holidays = [{ date: '2024-01-12', name: 'Special Holiday', recurring: false }];
+ * const reminder2 = subtractWorkdays('2024-01-17', 3, holidays); // 2024-01-11 (Thursday)
+ * ```
+ */
+export function subtractWorkdays(
+  date: PlainDate | string,
+  amount: number,
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+): PlainDate {
+  return getCachedCalendar(holidayList, dayOffWeekdays).subtract(date, amount);
+}
+
+/**
+ * Counts the business days in a date range.
+ *
+ * The start date is always part of the range; the end date is included unless
+ * `options.inclusive` is `false`. The count is computed arithmetically, so spans of
+ * several years are as cheap as a single week.
+ *
+ * The options can also be passed as the third argument, in place of the holiday list, to keep
+ * the default holidays and days off.
+ *
+ * @param start - The first date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @param end - The last date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @param holidayList - An array of holiday objects to consider when determining business days, or the range options
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @param options - Range options. `inclusive` controls whether the end date is counted (default: true)
+ * @returns The number of business days. Negative when `end` is before `start`
+ *
+ * @example
+ * ```typescript
+ * // Workdays in January 2024
+ * countWorkdays('2024-01-01', '2024-01-31'); // 23
+ *
+ * // Excluding the end date
+ * countWorkdays('2024-01-15', '2024-01-22', { inclusive: false }); // 5
+ * countWorkdays('2024-01-15', '2024-01-22', [], [5, 6], { inclusive: false }); // 5
+ *
+ * // With holidays
+ * const holidays = [{ date: '2024-01-01', name: 'New Year', recurring: true }];
+ * countWorkdays('2024-01-01', '2024-01-31', holidays); // 22
+ * ```
+ */
+export function countWorkdays(
+  start: PlainDate | string,
+  end: PlainDate | string,
+  holidayList: HolidayDefinition[] | WorkdayRangeOptions = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+  options: WorkdayRangeOptions = {},
+): number {
+  if (!Array.isArray(holidayList)) {
+    return countWorkdays(start, end, getDefaultHolidays(), dayOffWeekdays, holidayList);
+  }
+  return getCachedCalendar(holidayList, dayOffWeekdays).count(start, end, options);
+}
+
+/**
+ * Lists the business days in a date range.
+ *
+ * Uses the same range semantics as `countWorkdays`: the start date is always part of
+ * the range and the end date is included unless `options.inclusive` is `false`. Like in
+ * `countWorkdays`, the options can also be passed as the third argument.
+ *
+ * @param start - The first date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @param end - The last date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @param holidayList - An array of holiday objects to consider when determining business days, or the range options
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @param options - Range options. `inclusive` controls whether the end date is listed (default: true)
+ * @returns The business days in ascending order. Empty when `end` is before `start`
+ *
+ * @example
+ * ```typescript
+ * const workdays = listWorkdays('2024-01-12', '2024-01-16');
+ * // [2024-01-12, 2024-01-15, 2024-01-16]
+ *
+ * const holidays = [{ date: '2024-01-15', name: 'Special Holiday', recurring: false }];
+ * const workdays2 = listWorkdays('2024-01-12', '2024-01-16', holidays);
+ * // [2024-01-12, 2024-01-16]
+ *
+ * listWorkdays('2024-01-12', '2024-01-16', { inclusive: false });
+ * // [2024-01-12, 2024-01-15]
+ * ```
+ */
+export function listWorkdays(
+  start: PlainDate | string,
+  end: PlainDate | string,
+  holidayList: HolidayDefinition[] | WorkdayRangeOptions = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+  options: WorkdayRangeOptions = {},
+): PlainDate[] {
+  if (!Array.isArray(holidayList)) {
+    return listWorkdays(start, end, getDefaultHolidays(), dayOffWeekdays, holidayList);
+  }
+  return getCachedCalendar(holidayList, dayOffWeekdays).list(start, end, options);
 }
@@ -1,3 +1,5 @@
+import type { TimeZoneAbbreviation } from "./types";
+
 /**
  * Base error class for all zwon-date-function errors
  */
@@ -12,12 +14,19 @@ export class DateError extends Error {
  * Error thrown when an invalid date format is encountered
  */
 export class InvalidDateFormatError extends DateError {
-  constructor(dateString: string, supportedFormats?: string[]) {
-    const message = supportedFormats
+  /** The zero-based index in the input at which parsing failed, when known */
+  readonly position?: number;
+
+  constructor(dateString: string, supportedFormats?: string[], position?: number) {
+    let message = supportedFormats
       ? `Unsupported date format: ${dateString}. Supported formats: ${supportedFormats.join(", ")}`
       : `Unsupported date format: ${dateString}`;
+    if (position !== undefined) {
+      message += `. Mismatch at position ${position}`;
+    }
     super(message);
     this.name = "InvalidDateFormatError";
+    this.position = position;
   }
 }
 
@@ -63,3 +72,59 @@ export class IncompatibleOperationError extends DateError {
     this.name = "IncompatibleOperationError";
   }
 }
+
+/**
+ * Error thrown when a value falls outside the range supported by an operation
+ */
+export class OutOfRangeError extends DateError {
+  constructor(value: string, min: number | string, max: number | string) {
+    super(`Value out of supported range: ${value}. Supported range: ${min} - ${max}`);
+    this.name = "OutOfRangeError";
+  }
+}
+
+/**
+ * Error thrown when a locale is requested that has not been registered
+ */
+export class UnsupportedLocaleError extends DateError {
+  constructor(locale: string, supportedLocales?: string[]) {
+    const message = supportedLocales
+      ? `Unsupported locale: ${locale}. Supported locales: ${supportedLocales.join(", ")}`
+      : `Unsupported locale: ${locale}`;
+    super(message);
+    this.name = "UnsupportedLocaleError";
+  }
+}
+
+/**
+ * Error thrown when a local date-time is skipped or repeated in a time zone and `disambiguation` is `"reject"`
+ */
+export class InvalidLocalTimeError extends DateError {
+  /** Whether the local date-time is skipped by a gap or repeated by an overlap */
+  readonly kind: "skipped" | "ambiguous";
+
+  constructor(localDateTime: string, timeZone: string, kind: "skipped" | "ambiguous") {
+    const message =
+      kind === "skipped"
+        ? `Skipped local time: ${localDateTime} in ${timeZone}. Reason: it falls in the gap of an offset transition`
+        : `Ambiguous local time: ${localDateTime} in ${timeZone}. Reason: it occurs twice at an offset transition`;
+    super(message);
+    this.name = "InvalidLocalTimeError";
+    this.kind = kind;
+  }
+}
+
+/**
+ * Error thrown when a time zone abbreviation stands for several time zones and no preferred zone selects one
+ */
+export class AmbiguousTimeZoneAbbreviationError extends DateError {
+  /** The time zones the abbreviation can stand for */
+  readonly candidates: TimeZoneAbbreviation[];
+
+  constructor(abbreviation: string, candidates: TimeZoneAbbreviation[]) {
+    const zones = candidates.map((candidate) => `${candidate.timeZone} (${candidate.offset})`).join(", ");
+    super(`Ambiguous time zone abbreviation: ${abbreviation}. Candidates: ${zones}`);
+    this.name = "AmbiguousTimeZoneAbbreviationError";
+    this.candidates = candidates;
+  }
+}
@@ -0,0 +1,327 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { FiscalCalendar, PlainDate, PlainDateTime, WeekDay, ZonedDateTime } from "../types";
+import { OutOfRangeError } from "../errors";
+import { Interval } from "../interval";
+import { getDefaultFiscalCalendar } from "../config";
+
+/**
+ * The weeks per period of a quarter for each week pattern.
+ */
+const WEEK_PATTERNS: Record<NonNullable<FiscalCalendar["weekPattern"]>, number[]> = {
+  "4-4-5": [4, 4, 5],
+  "4-5-4": [4, 5, 4],
+  "5-4-4": [5, 4, 4],
+};
+
+/**
+ * A fiscal calendar with defaults applied.
+ */
+interface ResolvedFiscalCalendar {
+  startMonth: number;
+  /** The difference between the fiscal year name and the calendar year of its start month */
+  yearOffset: number;
+  /** The weeks per period of a quarter, or `null` when periods are calendar months */
+  weeks: number[] | null;
+  weekStart: WeekDay;
+  anchor: "nearest" | "last";
+}
+
+/**
+ * Applies the defaults of a fiscal calendar and validates it.
+ *
+ * @internal
+ * @throws {OutOfRangeError} When the start month or the week start is out of range
+ */
+export function resolveFiscalCalendar(calendar: FiscalCalendar): ResolvedFiscalCalendar {
+  const { startMonth = 1, yearNaming = "start", weekPattern, weekStart = 1, anchor = "nearest" } = calendar;
+  if (!Number.isInteger(startMonth) || startMonth < 1 || startMonth > 12) {
+    throw new OutOfRangeError(`fiscal start month ${startMonth}`, 1, 12);
+  }
+  if (!Number.isInteger(weekStart) || weekStart < 1 || weekStart > 7) {
+    throw new OutOfRangeError(`fiscal week start ${weekStart}`, 1, 7);
+  }
+
+  return {
+    startMonth,
+    yearOffset: yearNaming === "end" && startMonth > 1 ? 1 : 0,
+    weeks: weekPattern ? WEEK_PATTERNS[weekPattern] : null,
+    weekStart,
+    anchor,
+  };
+}
+
+/**
+ * Converts a date-like value to a PlainDate. Date-times keep their local date.
+ */
+function toPlainDate(date: PlainDate | PlainDateTime | ZonedDateTime | string): PlainDate {
+  if (typeof date === "string") {
+    return Temporal.PlainDate.from(date);
+  }
+  return date instanceof Temporal.PlainDate ? date : date.toPlainDate();
+}
+
+/**
+ * Returns the first day of the fiscal year starting in (or around) the start month of a calendar year.
+ */
+function getYearStart(calendar: ResolvedFiscalCalendar, year: number): PlainDate {
+  const first = Temporal.PlainDate.from({ year, month: calendar.startMonth, day: 1 });
+  if (!calendar.weeks) {
+    return first;
+  }
+
+  const daysBack = (first.dayOfWeek - calendar.weekStart + 7) % 7;
+  return calendar.anchor === "nearest" && daysBack > 3
+    ? first.add({ days: 7 - daysBack })
+    : first.subtract({ days: daysBack });
+}
+
+/**
+ * Returns the calendar year of the start month of the fiscal year containing a date.
+ */
+function getStartYear(calendar: ResolvedFiscalCalendar, date: PlainDate): number {
+  let year = date.year;
+  while (Temporal.PlainDate.compare(date, getYearStart(calendar, year)) < 0) {
+    year--;
+  }
+  while (Temporal.PlainDate.compare(date, getYearStart(calendar, year + 1)) >= 0) {
+    year++;
+  }
+  return year;
+}
+
+/**
+ * Returns the first days of the 12 periods of a fiscal year, followed by the first day of the next fiscal year.
+ *
+ * In a 52/53-week calendar the last period runs until the next fiscal year, so it takes the 53rd week.
+ */
+function getPeriodStarts(calendar: ResolvedFiscalCalendar, startYear: number): PlainDate[] {
+  const start = getYearStart(calendar, startYear);
+  if (!calendar.weeks) {
+    return Array.from({ length: 13 }, (_, index) => start.add({ months: index }));
+  }
+
+  const starts = [start];
+  for (let period = 0; period < 11; period++) {
+    starts.push(starts[period].add({ weeks: calendar.weeks[period % 3] }));
+  }
+  starts.push(getYearStart(calendar, startYear + 1));
+  return starts;
+}
+
+/**
+ * Returns the fiscal period (1-12) of a date.
+ */
+function findPeriod(calendar: ResolvedFiscalCalendar, date: PlainDate): number {
+  const starts = getPeriodStarts(calendar, getStartYear(calendar, date));
+  return starts.findIndex((start) => Temporal.PlainDate.compare(date, start) < 0);
+}
+
+/**
+ * Returns the days from the first to the last day of a range of periods, as a closed interval.
+ */
+function getPeriodsInterval(
+  calendar: ResolvedFiscalCalendar,
+  fiscalYear: number,
+  firstPeriod: number,
+  lastPeriod: number,
+): Interval<PlainDate> {
+  const starts = getPeriodStarts(calendar, fiscalYear - calendar.yearOffset);
+  return new Interval(starts[firstPeriod - 1], starts[lastPeriod].subtract({ days: 1 }), "[]");
+}
+
+/**
+ * Returns the fiscal year of a date.
+ *
+ * A fiscal year is named after the calendar year of its start month, or the year after with
+ * `yearNaming: "end"`. In a 52/53-week calendar, a year starting a few days before its start month
+ * keeps the name of that month's year.
+ *
+ * @param date - The date. Can be a PlainDate, PlainDateTime, ZonedDateTime (its local date) or an ISO string
+ * @param fiscalCalendar - The fiscal calendar. Defaults to fiscal years from January
+ * @returns The fiscal year
+ * @throws {OutOfRangeError} When the start month or the week start of the fiscal calendar is out of range
+ *
+ * @example
+ * ```typescript
+ * getFiscalYear('2024-03-31', { startMonth: 4 }); // 2023
+ * getFiscalYear('2024-04-01', { startMonth: 4 }); // 2024
+ *
+ * // US federal fiscal year 2024 runs from October 2023 to September 2024
+ * getFiscalYear('2023-10-01', { startMonth: 10, yearNaming: 'end' }); // 2024
+ *
+ * // NRF retail calendar: fiscal 2023 ended on Saturday 2024-02-03
+ * const retail: FiscalCalendar = { startMonth: 2, weekPattern: '4-5-4', weekStart: 7 };
+ * getFiscalYear('2024-02-03', retail); // 2023
+ * ```
+ */
+export function getFiscalYear(
+  date: PlainDate | PlainDateTime | ZonedDateTime | string,
+  fiscalCalendar: FiscalCalendar = getDefaultFiscalCalendar(),
+): number {
+  const calendar = resolveFiscalCalendar(fiscalCalendar);
+  return getStartYear(calendar, toPlainDate(date)) + calendar.yearOffset;
+}
+
+/**
+ * Returns the fiscal quarter (1-4) of a date.
+ *
+ * Quarters consist of three periods: three months, or 13 weeks in a 52/53-week calendar (14 in the last
+ * quarter of a 53-week year).
+ *
+ * @param date - The date. Can be a PlainDate, PlainDateTime, ZonedDateTime (its local date) or an ISO string
+ * @param fiscalCalendar - The fiscal calendar. Defaults to fiscal years from January
+ * @returns The fiscal quarter (1-4)
+ * @throws {OutOfRangeError} When the start month or the week start of the fiscal calendar is out of range
+ *
+ * @example
+ * ```typescript
+ * getFiscalQuarter('2024-05-15', { startMonth: 4 }); // 1
+ * getFiscalQuarter('2024-01-15', { startMonth: 4 }); // 4
+ * getFiscalQuarter('2024-05-15'); // 2 (fiscal years from January)
+ * ```
+ */
+export function getFiscalQuarter(
+  date: PlainDate | PlainDateTime | ZonedDateTime | string,
+  fiscalCalendar: FiscalCalendar = getDefaultFiscalCalendar(),
+): number {
+  return Math.ceil(getFiscalPeriod(date, fiscalCalendar) / 3);
+}
+
+/**
+ * Returns the fiscal period (1-12) of a date.
+ *
+ * Periods are calendar months, or in a 52/53-week calendar runs of 4 or 5 weeks following the week pattern.
+ * The 53rd week of a long year belongs to period 12.
+ *
+ * @param date - The date. Can be a PlainDate, PlainDateTime, ZonedDateTime (its local date) or an ISO string
+ * @param fiscalCalendar - The fiscal calendar. Defaults to fiscal years from January
+ * @returns The fiscal period (1-12)
+ * @throws {OutOfRangeError} When the start month or the week start of the fiscal calendar is out of range
+ *
+ * @example
+ * ```typescript
+ * getFiscalPeriod('2024-05-15', { startMonth: 4 }); // 2
+ *
+ * // 4-5-4: periods of 4, 5 and 4 weeks from Sunday 2024-02-04
+ * const retail: FiscalCalendar = { startMonth: 2, weekPattern: '4-5-4', weekStart: 7 };
+ * getFiscalPeriod('2024-03-02', retail); // 1 (last day of the first 4 weeks)
+ * getFiscalPeriod('2024-03-03', retail); // 2
+ * ```
+ */
+export function getFiscalPeriod(
+  date: PlainDate | PlainDateTime | ZonedDateTime | string,
+  fiscalCalendar: FiscalCalendar = getDefaultFiscalCalendar(),
+): number {
+  return findPeriod(resolveFiscalCalendar(fiscalCalendar), toPlainDate(date));
+}
+
+/**
+ * Returns the fiscal week of a date: the number of the 7-day week counted from the first day of the fiscal year.
+ *
+ * In a 52/53-week calendar weeks start on `weekStart` and the year has 52 or 53 of them. In a month-based
+ * fiscal calendar the last week (53) has only one or two days.
+ *
+ * @param date - The date. Can be a PlainDate, PlainDateTime, ZonedDateTime (its local date) or an ISO string
+ * @param fiscalCalendar - The fiscal calendar. Defaults to fiscal years from January
+ * @returns The fiscal week (1-53)
+ * @throws {OutOfRangeError} When the start month or the week start of the fiscal calendar is out of range
+ *
+ * @example
+ * ```typescript
+ * getFiscalWeek('2024-04-07', { startMonth: 4 }); // 1
+ * getFiscalWeek('2024-04-08', { startMonth: 4 }); // 2
+ *
+ * const retail: FiscalCalendar = { startMonth: 2, weekPattern: '4-5-4', weekStart: 7 };
+ * getFiscalWeek('2024-02-03', retail); // 53 (fiscal 2023 has 53 weeks)
+ * ```
+ */
+export function getFiscalWeek(
+  date: PlainDate | PlainDateTime | ZonedDateTime | string,
+  fiscalCalendar: FiscalCalendar = getDefaultFiscalCalendar(),
+): number {
+  const calendar = resolveFiscalCalendar(fiscalCalendar);
+  const plainDate = toPlainDate(date);
+  const start = getYearStart(calendar, getStartYear(calendar, plainDate));
+  return Math.floor(start.until(plainDate).days / 7) + 1;
+}
+
+/**
+ * Returns the first and last day of a fiscal year.
+ *
+ * @param fiscalYear - The fiscal year, named as by `getFiscalYear`
+ * @param fiscalCalendar - The fiscal calendar. Defaults to fiscal years from January
+ * @returns The days of the fiscal year as a closed interval (`"[]"`): `start` is the first day and `end` the last
+ * @throws {OutOfRangeError} When the start month or the week start of the fiscal calendar is out of range
+ *
+ * @example
+ * ```typescript
+ * getFiscalYearRange(2024, { startMonth: 4 }).toString(); // "[2024-04-01, 2025-03-31]"
+ * getFiscalYearRange(2024, { startMonth: 10, yearNaming: 'end' }).toString(); // "[2023-10-01, 2024-09-30]"
+ *
+ * const retail: FiscalCalendar = { startMonth: 2, weekPattern: '4-5-4', weekStart: 7 };
+ * getFiscalYearRange(2024, retail).toString(); // "[2024-02-04, 2025-02-01]"
+ * ```
+ */
+export function getFiscalYearRange(
+  fiscalYear: number,
+  fiscalCalendar: FiscalCalendar = getDefaultFiscalCalendar(),
+): Interval<PlainDate> {
+  return getPeriodsInterval(resolveFiscalCalendar(fiscalCalendar), fiscalYear, 1, 12);
+}
+
+/**
+ * Returns the first and last day of a fiscal quarter.
+ *
+ * @param fiscalYear - The fiscal year, named as by `getFiscalYear`
+ * @param quarter - The fiscal quarter (1-4)
+ * @param fiscalCalendar - The fiscal calendar. Defaults to fiscal years from January
+ * @returns The days of the quarter as a closed interval (`"[]"`)
+ * @throws {OutOfRangeError} When the quarter is not 1-4, or the fiscal calendar is out of range
+ *
+ * @example
+ * ```typescript
+ * getFiscalQuarterRange(2024, 4, { startMonth: 4 }).toString(); // "[2025-01-01, 2025-03-31]"
+ *
+ * // The last quarter of a 53-week year has 14 weeks
+ * const retail: FiscalCalendar = { startMonth: 2, weekPattern: '4-5-4', weekStart: 7 };
+ * getFiscalQuarterRange(2023, 4, retail).toString(); // "[2023-10-29, 2024-02-03]"
+ * ```
+ */
+export function getFiscalQuarterRange(
+  fiscalYear: number,
+  quarter: number,
+  fiscalCalendar: FiscalCalendar = getDefaultFiscalCalendar(),
+): Interval<PlainDate> {
+  if (!Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+    throw new OutOfRangeError(`fiscal quarter ${quarter}`, 1, 4);
+  }
+  return getPeriodsInterval(resolveFiscalCalendar(fiscalCalendar), fiscalYear, quarter * 3 - 2, quarter * 3);
+}
+
+/**
+ * Returns the first and last day of a fiscal period.
+ *
+ * @param fiscalYear - The fiscal year, named as by `getFiscalYear`
+ * @param period - The fiscal period (1-12)
+ * @param fiscalCalendar - The fiscal calendar. Defaults to fiscal years from January
+ * @returns The days of the period as a closed interval (`"[]"`)
+ * @throws {OutOfRangeError} When the period is not 1-12, or the fiscal calendar is out of range
+ *
+ * @example
+ * ```typescript
+ * getFiscalPeriodRange(2024, 1, { startMonth: 4 }).toString(); // "[2024-04-01, 2024-04-30]"
+ *
+ * const retail: FiscalCalendar = { startMonth: 2, weekPattern: '4-5-4', weekStart: 7 };
+ * getFiscalPeriodRange(2024, 2, retail).toString(); // "[2024-03-03, 2024-04-06]" (5 weeks)
+ * ```
+ */
+export function getFiscalPeriodRange(
+  fiscalYear: number,
+  period: number,
+  fiscalCalendar: FiscalCalendar = getDefaultFiscalCalendar(),
+): Interval<PlainDate> {
+  if (!Number.isInteger(period) || period < 1 || period > 12) {
+    throw new OutOfRangeError(`fiscal period ${period}`, 1, 12);
+  }
+  return getPeriodsInterval(resolveFiscalCalendar(fiscalCalendar), fiscalYear, period, period);
+}
@@ -1,5 +1,20 @@
 import { Temporal } from "@js-temporal/polyfill";
-import type { DateFormatType, ZonedDateTime, PlainDate, PlainDateTime } from "../types";
+import type {
+  DateFormatOptions,
+  DateFormatType,
+  Duration,
+  DurationUnit,
+  FiscalCalendar,
+  FormatDurationOptions,
+  FormatOptions,
+  FormatRelativeOptions,
+  Locale,
+  ParseOptions,
+  ZonedDateTime,
+  PlainDate,
+  PlainDateTime,
+  RelativeCalendarUnit,
+} from "../types";
 import {
   InvalidDateFormatError,
   InvalidDateError,
@@ -7,6 +22,12 @@ import {
   MissingParameterError,
   IncompatibleOperationError,
 } from "../errors";
+import { fromLunar, toLunar } from "../lunar";
+import { getFiscalPeriod, getFiscalQuarter, getFiscalWeek, getFiscalYear } from "../fiscal";
+import { formatPhrase, resolveLocale } from "../locale";
+import { getTimeZoneAbbreviation, resolveTimeZoneAbbreviation } from "../timezone";
+import { getDefaultFiscalCalendar, getDefaultTimeZone } from "../config";
+import { getClock } from "../clock";
 
 /**
  * Predefined format patterns for common date/time formatting needs.
@@ -29,6 +50,8 @@ const FORMAT_PATTERNS = {
  * - Compact format: '20240115'
  * - Various separators: '2024-1-15', '2024.1.15'
  *
+ * Two-digit years are expanded with the same sliding window as the `YY` token of `parse`.
+ *
  * @param dateString - The date string to parse
  * @returns A Temporal PlainDate or ZonedDateTime object
  * @throws {Error} When the date string format is not recognized or invalid
@@ -84,10 +107,7 @@ function parseFlexibleDateString(dateString: string): PlainDate | ZonedDateTime
     let [, year, month, day] = dotMatch;
     // Handle 2-digit year
     if (year.length === 2) {
-      const currentYear = new Date().getFullYear();
-      const century = Math.floor(currentYear / 100) * 100;
-      const twoDigitYear = parseInt(year);
-      year = (century + twoDigitYear).toString();
+      year = expandTwoDigitYear(parseInt(year)).toString();
     }
     try {
       return Temporal.PlainDate.from({
@@ -116,9 +136,7 @@ function parseFlexibleDateString(dateString: string): PlainDate | ZonedDateTime
       // MM/DD/YY format
       month = first;
       day = second;
-      const currentYear = new Date().getFullYear();
-      const century = Math.floor(currentYear / 100) * 100;
-      year = (century + parseInt(third)).toString();
+      year = expandTwoDigitYear(parseInt(third)).toString();
     } else {
       // MM/DD/YYYY format
       month = first;
@@ -199,12 +217,15 @@ function parseFlexibleDateString(dateString: string): PlainDate | ZonedDateTime
  *
  * @param date - The date/time to format. Can be a ZonedDateTime, PlainDate, PlainDateTime, or an ISO string
  * @param type - The format type to use. Defaults to "datetime"
- * @param formatString - Custom format string (required when type is "custom"). Supports tokens like YYYY, MM, DD, HH, mm, ss
+ * @param formatString - Custom format string (required when type is "custom"). Supports tokens like YYYY, MM, DD, HH, mm, ss and `[literal]` escaping
+ * @param options - Formatting options. `locale` selects the month names, weekday names and meridiem used by custom formats,
+ *   `fiscalCalendar` the fiscal calendar of the fiscal tokens (defaults to the instance fiscal calendar)
  * @returns The formatted date/time string
  *
- * @throws {Error} When PlainDate is used with "time" format type
+ * @throws {Error} When PlainDate is used with "time" format type or a custom format containing time tokens
  * @throws {Error} When formatString is not provided for "custom" type
  * @throws {Error} When an unsupported format type is provided
+ * @throws {OutOfRangeError} When a custom format contains fiscal tokens and the fiscal calendar is out of range
  *
  * @example
  * ```typescript
@@ -220,15 +241,26 @@ function parseFlexibleDateString(dateString: string): PlainDate | ZonedDateTime
  * // Custom formatting
  * const formatted4 = format(date, 'custom', 'YYYY/MM/DD'); // "2024/01/15"
  * const formatted5 = format(zonedDate, 'custom', 'YYYY-MM-DD HH:mm'); // "2024-01-15 14:30"
+ * const formatted6 = format(zonedDate, 'custom', 'YYYY-MM-DD[T]HH:mm:ss.SSSZ'); // "2024-01-15T14:30:00.000+09:00"
+ * const formatted7 = format(zonedDate, 'custom', 'KA h:mm [(]z[)]'); // "오후 2:30 (Asia/Seoul)"
+ * const formatted8 = format(zonedDate, 'custom', 'YYYY-MM-DD HH:mm zz'); // "2024-01-15 14:30 KST"
+ *
+ * // Localized names
+ * format(date, 'custom', 'dddd, MMMM D', { locale: 'en' }); // "Monday, January 15"
+ * format(date, 'custom', 'M月D日(ddd)', { locale: 'ja' }); // "1月15日(月)"
+ *
+ * // Fiscal values
+ * format(date, 'custom', '[FY]FYYYY [Q]FQ [P]FPP', { fiscalCalendar: { startMonth: 4 } }); // "FY2023 Q4 P10"
  *
  * // From string input
- * const formatted6 = format('2024-01-15', 'date'); // "2024-01-15"
+ * const formatted9 = format('2024-01-15', 'date'); // "2024-01-15"
  * ```
  */
 export function format(
   date: ZonedDateTime | PlainDate | PlainDateTime | string,
   type: DateFormatType = "datetime",
   formatString?: string,
+  options: DateFormatOptions = {},
 ): string {
   let temporalDate: ZonedDateTime | PlainDate | PlainDateTime;
 
@@ -272,7 +304,12 @@ export function format(
       if (!formatString) {
         throw new MissingParameterError("formatString");
       }
-      return formatCustom(temporalDate, formatString);
+      return formatCustom(
+        temporalDate,
+        formatString,
+        resolveLocale(options.locale),
+        options.fiscalCalendar ?? getDefaultFiscalCalendar(),
+      );
 
     default:
       throw new UnsupportedFormatTypeError(type, ["date", "time", "datetime", "iso", "custom"]);
@@ -280,65 +317,627 @@ export function format(
 }
 
 /**
- * Formats a Temporal object using a custom format string with token replacement.
+ * Pattern matching a bracketed literal or a single format token.
+ *
+ * Longer tokens come first so that e.g. `YYYY` is not read as two `YY` tokens.
+ */
+const FORMAT_TOKEN_PATTERN =
+  /\[([^\]]*)\]|L(?:YYYY|YY|MM|M|DD|D|L)|F(?:YYYY|YY|Q|PP|P|WW|W)|YYYY|YY|Q|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|KA|A|a|ZZ|Z|zz|z/g;
+
+/** Tokens that require time information */
+const TIME_TOKENS = new Set(["HH", "H", "hh", "h", "mm", "m", "ss", "s", "SSS", "KA", "A", "a"]);
+
+/** Tokens that require time zone information */
+const ZONE_TOKENS = new Set(["ZZ", "Z", "zz", "z"]);
+
+/**
+ * Formats a Temporal object using a custom format string.
+ *
+ * The format string is tokenized from left to right, so the output of one token is never
+ * re-interpreted as another token. Characters that are not tokens are copied as-is, and text
+ * inside square brackets is always copied literally (without the brackets).
  *
  * Supported format tokens:
  * - YYYY: 4-digit year (e.g., 2024)
  * - YY: 2-digit year (e.g., 24)
+ * - Q: Quarter (1-4)
+ * - MMMM: Month name of the locale (e.g., 1월, January)
+ * - MMM: Short month name of the locale (e.g., 1월, Jan)
  * - MM: 2-digit month with leading zero (e.g., 01, 12)
  * - M: Month without leading zero (e.g., 1, 12)
  * - DD: 2-digit day with leading zero (e.g., 01, 31)
  * - D: Day without leading zero (e.g., 1, 31)
+ * - dddd: Weekday name of the locale (e.g., 월요일, Monday)
+ * - ddd: Short weekday name of the locale (e.g., 월, Mon)
+ *
+ * Time tokens (not available for PlainDate):
  * - HH: 2-digit hour with leading zero (e.g., 00, 23)
  * - H: Hour without leading zero (e.g., 0, 23)
+ * - hh: 2-digit 12-hour clock hour with leading zero (e.g., 01, 12)
+ * - h: 12-hour clock hour without leading zero (e.g., 1, 12)
  * - mm: 2-digit minute with leading zero (e.g., 00, 59)
  * - m: Minute without leading zero (e.g., 0, 59)
  * - ss: 2-digit second with leading zero (e.g., 00, 59)
  * - s: Second without leading zero (e.g., 0, 59)
+ * - SSS: 3-digit millisecond (e.g., 000, 999)
+ * - A: Meridiem of the locale (e.g., 오전 / 오후, AM / PM)
+ * - a: Lowercase meridiem of the locale (e.g., am / pm)
+ * - KA: 오전 / 오후, regardless of the locale
+ *
+ * Time zone tokens (ZonedDateTime only):
+ * - Z: UTC offset with colon (e.g., +09:00)
+ * - ZZ: UTC offset without colon (e.g., +0900)
+ * - zz: Time zone abbreviation (e.g., KST, EDT), or the UTC offset when the zone has none
+ * - z: Time zone identifier (e.g., Asia/Seoul)
+ *
+ * Lunar calendar (음력) tokens:
+ * - LYYYY: 4-digit lunar year (e.g., 2023)
+ * - LYY: 2-digit lunar year (e.g., 23)
+ * - LMM: 2-digit lunar month with leading zero (e.g., 01, 12)
+ * - LM: Lunar month without leading zero (e.g., 1, 12)
+ * - LDD: 2-digit lunar day with leading zero (e.g., 01, 30)
+ * - LD: Lunar day without leading zero (e.g., 1, 30)
+ * - LL: "윤" when the date falls in a leap month, otherwise empty
+ *
+ * Fiscal tokens (see `getFiscalYear`; write `[F]` for a literal F in front of a token):
+ * - FYYYY: 4-digit fiscal year (e.g., 2024)
+ * - FYY: 2-digit fiscal year (e.g., 24)
+ * - FQ: Fiscal quarter (1-4)
+ * - FPP: 2-digit fiscal period with leading zero (e.g., 01, 12)
+ * - FP: Fiscal period without leading zero (e.g., 1, 12)
+ * - FWW: 2-digit fiscal week with leading zero (e.g., 01, 53)
+ * - FW: Fiscal week without leading zero (e.g., 1, 53)
  *
  * @param date - The Temporal object to format
  * @param formatString - The format string containing tokens to replace
+ * @param locale - The locale supplying month names, weekday names and meridiems
+ * @param fiscalCalendar - The fiscal calendar of the fiscal tokens. Defaults to the instance fiscal calendar
  * @returns The formatted string with tokens replaced by actual values
+ * @throws {IncompatibleOperationError} When a time token is used with a PlainDate, or a time zone token without a ZonedDateTime
+ * @throws {OutOfRangeError} When a fiscal token is used and the fiscal calendar is out of range
  *
  * @example
  * ```typescript
  * const date = Temporal.PlainDate.from('2024-01-15');
  * const datetime = Temporal.PlainDateTime.from('2024-01-15T14:30:45');
  *
- * formatCustom(date, 'YYYY/MM/DD'); // "2024/01/15"
- * formatCustom(date, 'M/D/YY'); // "1/15/24"
- * formatCustom(datetime, 'YYYY-MM-DD HH:mm:ss'); // "2024-01-15 14:30:45"
- * formatCustom(datetime, 'H시 m분'); // "14시 30분"
+ * formatCustom(date, 'YYYY/MM/DD', ko); // "2024/01/15"
+ * formatCustom(date, 'M/D/YY', ko); // "1/15/24"
+ * formatCustom(datetime, 'YYYY-MM-DD HH:mm:ss', ko); // "2024-01-15 14:30:45"
+ * formatCustom(datetime, 'KA h시 m분', ko); // "오후 2시 30분"
+ * formatCustom(datetime, 'dddd h:mm A', en); // "Monday 2:30 PM"
+ * formatCustom(date, 'D[일] [Mon]', ko); // "15일 Mon"
+ * formatCustom(date, 'YYYY [Q]Q', ko); // "2024 Q1"
+ * formatCustom(date, '음력 LYYYY년 LLLM월 LD일', ko); // "음력 2023년 12월 5일"
+ * formatCustom(date, '[FY]FYY-FQ', ko, { startMonth: 4 }); // "FY23-4"
  * ```
  */
-function formatCustom(date: ZonedDateTime | PlainDate | PlainDateTime, formatString: string): string {
-  let result = formatString;
-
+function formatCustom(
+  date: ZonedDateTime | PlainDate | PlainDateTime,
+  formatString: string,
+  locale: Locale,
+  fiscalCalendar: FiscalCalendar = getDefaultFiscalCalendar(),
+): string {
   const plainDate = date instanceof Temporal.PlainDate ? date : date.toPlainDate();
-
   const plainTime = date instanceof Temporal.PlainDate ? null : date.toPlainTime();
+  let lunar: ReturnType<typeof toLunar> | undefined;
+
+  return formatString.replace(FORMAT_TOKEN_PATTERN, (token: string, literal: string | undefined) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+
+    if (token.startsWith("L")) {
+      lunar ??= toLunar(plainDate);
+      switch (token) {
+        case "LYYYY":
+          return lunar.year.toString().padStart(4, "0");
+        case "LYY":
+          return (lunar.year % 100).toString().padStart(2, "0");
+        case "LMM":
+          return lunar.month.toString().padStart(2, "0");
+        case "LM":
+          return lunar.month.toString();
+        case "LDD":
+          return lunar.day.toString().padStart(2, "0");
+        case "LD":
+          return lunar.day.toString();
+        default:
+          return lunar.isLeapMonth ? "윤" : "";
+      }
+    }
 
-  result = result.replace(/YYYY/g, plainDate.year.toString().padStart(4, "0"));
-  result = result.replace(/YY/g, (plainDate.year % 100).toString().padStart(2, "0"));
+    if (token.startsWith("F")) {
+      switch (token) {
+        case "FYYYY":
+          return getFiscalYear(plainDate, fiscalCalendar).toString().padStart(4, "0");
+        case "FYY":
+          return (getFiscalYear(plainDate, fiscalCalendar) % 100).toString().padStart(2, "0");
+        case "FQ":
+          return getFiscalQuarter(plainDate, fiscalCalendar).toString();
+        case "FPP":
+          return getFiscalPeriod(plainDate, fiscalCalendar).toString().padStart(2, "0");
+        case "FP":
+          return getFiscalPeriod(plainDate, fiscalCalendar).toString();
+        case "FWW":
+          return getFiscalWeek(plainDate, fiscalCalendar).toString().padStart(2, "0");
+        default:
+          return getFiscalWeek(plainDate, fiscalCalendar).toString();
+      }
+    }
 
-  result = result.replace(/MM/g, plainDate.month.toString().padStart(2, "0"));
-  result = result.replace(/M/g, plainDate.month.toString());
+    if (TIME_TOKENS.has(token) && !plainTime) {
+      throw new IncompatibleOperationError(`formatting token "${token}"`, "PlainDate does not contain time information");
+    }
+    if (ZONE_TOKENS.has(token) && !(date instanceof Temporal.ZonedDateTime)) {
+      throw new IncompatibleOperationError(
+        `formatting token "${token}"`,
+        "only ZonedDateTime contains time zone information",
+      );
+    }
+
+    switch (token) {
+      case "YYYY":
+        return plainDate.year.toString().padStart(4, "0");
+      case "YY":
+        return (plainDate.year % 100).toString().padStart(2, "0");
+      case "Q":
+        return Math.ceil(plainDate.month / 3).toString();
+      case "MMMM":
+        return locale.months[plainDate.month - 1];
+      case "MMM":
+        return locale.monthsShort[plainDate.month - 1];
+      case "MM":
+        return plainDate.month.toString().padStart(2, "0");
+      case "M":
+        return plainDate.month.toString();
+      case "DD":
+        return plainDate.day.toString().padStart(2, "0");
+      case "D":
+        return plainDate.day.toString();
+      case "dddd":
+        return locale.weekdays[plainDate.dayOfWeek - 1];
+      case "ddd":
+        return locale.weekdaysShort[plainDate.dayOfWeek - 1];
+      case "HH":
+        return plainTime!.hour.toString().padStart(2, "0");
+      case "H":
+        return plainTime!.hour.toString();
+      case "hh":
+        return (plainTime!.hour % 12 || 12).toString().padStart(2, "0");
+      case "h":
+        return (plainTime!.hour % 12 || 12).toString();
+      case "mm":
+        return plainTime!.minute.toString().padStart(2, "0");
+      case "m":
+        return plainTime!.minute.toString();
+      case "ss":
+        return plainTime!.second.toString().padStart(2, "0");
+      case "s":
+        return plainTime!.second.toString();
+      case "SSS":
+        return plainTime!.millisecond.toString().padStart(3, "0");
+      case "A":
+        return plainTime!.hour < 12 ? locale.meridiem.am : locale.meridiem.pm;
+      case "a":
+        return (plainTime!.hour < 12 ? locale.meridiem.am : locale.meridiem.pm).toLowerCase();
+      case "KA":
+        return plainTime!.hour < 12 ? "오전" : "오후";
+      case "Z":
+        return (date as ZonedDateTime).offset;
+      case "ZZ":
+        return (date as ZonedDateTime).offset.replace(":", "");
+      case "zz":
+        return getTimeZoneAbbreviation((date as ZonedDateTime).timeZoneId, date as ZonedDateTime);
+      default:
+        return (date as ZonedDateTime).timeZoneId;
+    }
+  });
+}
 
-  result = result.replace(/DD/g, plainDate.day.toString().padStart(2, "0"));
-  result = result.replace(/D/g, plainDate.day.toString());
+/**
+ * Fields collected while parsing an input against a format string.
+ */
+interface ParsedFields {
+  year?: number;
+  quarter?: number;
+  month?: number;
+  day?: number;
+  weekday?: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  millisecond?: number;
+  meridiem?: "am" | "pm";
+  offset?: string;
+  timeZone?: string;
+  lunarYear?: number;
+  lunarMonth?: number;
+  lunarDay?: number;
+  isLeapMonth?: boolean;
+  /** The input position of each parsed token, used for error reporting */
+  positions: Map<string, number>;
+}
 
-  if (plainTime) {
-    result = result.replace(/HH/g, plainTime.hour.toString().padStart(2, "0"));
-    result = result.replace(/H/g, plainTime.hour.toString());
+/**
+ * Escapes the characters of a string that have a special meaning in regular expressions.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
 
-    result = result.replace(/mm/g, plainTime.minute.toString().padStart(2, "0"));
-    result = result.replace(/m/g, plainTime.minute.toString());
+/**
+ * Returns the regular expression source matching the value of a format token.
+ */
+function getTokenPattern(token: string, strict: boolean, locale: Locale): string {
+  // Longer names first, so that a name is not matched by a prefix of it
+  const alternatives = (names: string[]) =>
+    [...names]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|");
+  const padded = strict ? "\\d{2}" : "\\d{1,2}";
+  switch (token) {
+    case "YYYY":
+    case "LYYYY":
+      return "\\d{4}";
+    case "YY":
+    case "LYY":
+      return "\\d{2}";
+    case "Q":
+      return "[1-4]";
+    case "MM":
+    case "DD":
+    case "HH":
+    case "hh":
+    case "mm":
+    case "ss":
+    case "LMM":
+    case "LDD":
+      return padded;
+    case "SSS":
+      return strict ? "\\d{3}" : "\\d{1,3}";
+    case "MMMM":
+      return alternatives(locale.months);
+    case "MMM":
+      return alternatives(locale.monthsShort);
+    case "dddd":
+      return alternatives(locale.weekdays);
+    case "ddd":
+      return alternatives(locale.weekdaysShort);
+    case "A":
+      return alternatives([locale.meridiem.am, locale.meridiem.pm]);
+    case "a":
+      return alternatives([locale.meridiem.am.toLowerCase(), locale.meridiem.pm.toLowerCase()]);
+    case "KA":
+      return "오전|오후";
+    case "Z":
+      return "[+-]\\d{2}:\\d{2}|Z";
+    case "ZZ":
+      return "[+-]\\d{4}|Z";
+    case "zz":
+      return "[A-Za-z]{2,5}";
+    case "z":
+      return "[A-Za-z][A-Za-z0-9_+-]*(?:/[A-Za-z0-9_+-]+)*";
+    case "LL":
+      return "윤?";
+    default:
+      // M, D, H, h, m, s, LM, LD
+      return "\\d{1,2}";
+  }
+}
 
-    result = result.replace(/ss/g, plainTime.second.toString().padStart(2, "0"));
-    result = result.replace(/s/g, plainTime.second.toString());
+/**
+ * Expands a two-digit year to the year within 50 years of the current year of the active clock, from
+ * 49 years ago to 50 years ahead (e.g. in 2024, `74` is 2074 and `75` is 1975).
+ */
+function expandTwoDigitYear(twoDigitYear: number): number {
+  const currentYear = getClock().now().toZonedDateTimeISO(getDefaultTimeZone()).year;
+  const year = currentYear - (currentYear % 100) + twoDigitYear;
+  if (year > currentYear + 50) {
+    return year - 100;
   }
+  return year <= currentYear - 50 ? year + 100 : year;
+}
 
-  return result;
+/**
+ * Stores the value of a parsed token, validating its range.
+ *
+ * @returns `false` when the value is out of range
+ */
+function assignToken(
+  fields: ParsedFields,
+  token: string,
+  value: string,
+  locale: Locale,
+  timeZone: string | undefined,
+): boolean {
+  const number = Number(value);
+  const indexOf = (names: string[]) => names.findIndex((name) => name.toLowerCase() === value.toLowerCase());
+  switch (token) {
+    case "YYYY":
+      fields.year = number;
+      return true;
+    case "YY":
+      fields.year = expandTwoDigitYear(number);
+      return true;
+    case "Q":
+      fields.quarter = number;
+      return true;
+    case "MMMM":
+      fields.month = indexOf(locale.months) + 1;
+      return true;
+    case "MMM":
+      fields.month = indexOf(locale.monthsShort) + 1;
+      return true;
+    case "MM":
+    case "M":
+      fields.month = number;
+      return number >= 1 && number <= 12;
+    case "DD":
+    case "D":
+      fields.day = number;
+      return number >= 1 && number <= 31;
+    case "dddd":
+      fields.weekday = indexOf(locale.weekdays) + 1;
+      return true;
+    case "ddd":
+      fields.weekday = indexOf(locale.weekdaysShort) + 1;
+      return true;
+    case "HH":
+    case "H":
+      fields.hour = number;
+      return number <= 23;
+    case "hh":
+    case "h":
+      fields.hour = number;
+      return number >= 1 && number <= 12;
+    case "mm":
+    case "m":
+      fields.minute = number;
+      return number <= 59;
+    case "ss":
+    case "s":
+      fields.second = number;
+      return number <= 59;
+    case "SSS":
+      fields.millisecond = Number(value.padEnd(3, "0"));
+      return true;
+    case "A":
+    case "a":
+      fields.meridiem = value.toLowerCase() === locale.meridiem.am.toLowerCase() ? "am" : "pm";
+      return true;
+    case "KA":
+      fields.meridiem = value === "오전" ? "am" : "pm";
+      return true;
+    case "Z":
+    case "ZZ":
+      fields.offset = value === "Z" ? "+00:00" : `${value.slice(0, 3)}:${value.slice(-2)}`;
+      return true;
+    case "zz": {
+      const abbreviation = resolveTimeZoneAbbreviation(value, timeZone);
+      fields.offset = abbreviation?.offset;
+      fields.timeZone = abbreviation?.timeZone;
+      return abbreviation !== null;
+    }
+    case "z":
+      fields.timeZone = value;
+      try {
+        Temporal.TimeZone.from(value);
+        return true;
+      } catch {
+        return false;
+      }
+    case "LYYYY":
+      fields.lunarYear = number;
+      return true;
+    case "LYY":
+      fields.lunarYear = expandTwoDigitYear(number);
+      return true;
+    case "LMM":
+    case "LM":
+      fields.lunarMonth = number;
+      return number >= 1 && number <= 12;
+    case "LDD":
+    case "LD":
+      fields.lunarDay = number;
+      return number >= 1 && number <= 30;
+    default:
+      fields.isLeapMonth = value === "윤";
+      return true;
+  }
+}
+
+/**
+ * Parses a date string according to a format string.
+ *
+ * This is the inverse of `format(date, 'custom', formatString)` and accepts the same tokens,
+ * including `[literal]` escaping. Names and meridiems are read in the locale given by
+ * `options.locale`. The type of the result depends on the tokens in the format:
+ * - `PlainDate` when the format only contains date tokens
+ * - `PlainDateTime` when it contains time tokens (`HH`, `h`, `mm`, `A`, `KA`, ...)
+ * - `ZonedDateTime` when it contains time zone tokens (`Z`, `ZZ`, `zz`, `z`) or `options.timeZone` is set
+ *
+ * An abbreviation read with `zz` (e.g. `EST`) sets both the offset it stands for and its representative
+ * time zone, see `resolveTimeZoneAbbreviation`. Abbreviations used by several regions (`CST`, `IST`) are
+ * resolved with `options.timeZone` and rejected when it does not select one of them.
+ *
+ * Missing months and days default to 1 (or to the first month of the quarter for `Q`),
+ * missing time fields to 0. A year token (solar or lunar) is required. Lunar tokens
+ * (`LYYYY`, `LM`, `LD`, `LL`) are converted to the corresponding solar date.
+ *
+ * Two-digit years (`YY`, `LYY`) use a sliding window: they resolve to the year within 50 years of the
+ * current year of the active clock (see `getClock`), the window running from 49 years ago to 50 years
+ * ahead. In 2024, `00`-`74` read as 2000-2074 and `75`-`99` as 1975-1999.
+ *
+ * @param input - The string to parse
+ * @param formatString - The format string describing the input, using the `format` token vocabulary
+ * @param options - Parsing options such as the target timezone and strict matching
+ * @returns The parsed PlainDate, PlainDateTime or ZonedDateTime
+ * @throws {InvalidDateFormatError} When the input does not match the format; `error.position` holds the index of the mismatch
+ * @throws {IncompatibleOperationError} When the format string does not contain a year token, or contains a fiscal
+ *   token (`FYYYY`, `FQ`, ...), which can be formatted but not parsed
+ * @throws {AmbiguousTimeZoneAbbreviationError} When a `zz` abbreviation is used by several regions and
+ *   `options.timeZone` does not select one of them
+ *
+ * @example
+ * ```typescript
+ * parse('15/01/2024 14:05', 'DD/MM/YYYY HH:mm');
+ * // Temporal.PlainDateTime 2024-01-15T14:05:00
+ *
+ * parse('2024년 01월 15일 오후 3시', 'YYYY년 MM월 DD일 KA h시');
+ * // Temporal.PlainDateTime 2024-01-15T15:00:00
+ *
+ * parse('2024-01-15 09:00 +09:00', 'YYYY-MM-DD HH:mm Z', { timeZone: 'UTC' });
+ * // Temporal.ZonedDateTime 2024-01-15T00:00:00+00:00[UTC]
+ *
+ * parse('2024-01-15 09:00 EST', 'YYYY-MM-DD HH:mm zz');
+ * // Temporal.ZonedDateTime 2024-01-15T09:00:00-05:00[America/New_York]
+ *
+ * parse('2024-01-15 09:00 CST', 'YYYY-MM-DD HH:mm zz', { timeZone: 'Asia/Shanghai' });
+ * // Temporal.ZonedDateTime 2024-01-15T09:00:00+08:00[Asia/Shanghai]
+ *
+ * parse('Jan 15, 2024 3:00 PM', 'MMM D, YYYY h:mm A', { locale: 'en' });
+ * // Temporal.PlainDateTime 2024-01-15T15:00:00
+ *
+ * parse('2024-01-15', 'YYYY-MM-DD', { timeZone: 'Asia/Seoul' });
+ * // Temporal.ZonedDateTime 2024-01-15T00:00:00+09:00[Asia/Seoul]
+ *
+ * try {
+ *   parse('2024-13-01', 'YYYY-MM-DD');
+ * } catch (error) {
+ *   (error as InvalidDateFormatError).position; // 5
+ * }
+ * ```
+ */
+export function parse(
+  input: string,
+  formatString: string,
+  options: ParseOptions = {},
+): PlainDate | PlainDateTime | ZonedDateTime {
+  const { timeZone, strict = false } = options;
+  const locale = resolveLocale(options.locale);
+  const flags = strict ? "y" : "iy";
+  const fields: ParsedFields = { positions: new Map() };
+  const fail = (position: number): never => {
+    throw new InvalidDateFormatError(input, [formatString], position);
+  };
+
+  let position = strict ? 0 : input.search(/\S|$/);
+  let formatIndex = 0;
+  const matchAt = (source: string): string | null => {
+    const pattern = new RegExp(source, flags);
+    pattern.lastIndex = position;
+    const match = pattern.exec(input);
+    return match ? match[0] : null;
+  };
+  const matchLiteral = (literal: string) => {
+    const source = literal
+      .split(/(\s+)/)
+      .map((part) => (/^\s+$/.test(part) && !strict ? "\\s*" : escapeRegExp(part)))
+      .join("");
+    const matched = matchAt(source);
+    if (matched === null) {
+      fail(position);
+    }
+    position += matched!.length;
+  };
+
+  for (const token of formatString.matchAll(FORMAT_TOKEN_PATTERN)) {
+    matchLiteral(formatString.slice(formatIndex, token.index));
+    formatIndex = token.index! + token[0].length;
+
+    if (token[1] !== undefined) {
+      matchLiteral(token[1]);
+      continue;
+    }
+
+    if (token[0].startsWith("F")) {
+      throw new IncompatibleOperationError(`parsing token "${token[0]}"`, "fiscal values do not identify a date");
+    }
+    const value = matchAt(`(?:${getTokenPattern(token[0], strict, locale)})`);
+    if (value === null || !assignToken(fields, token[0], value, locale, timeZone)) {
+      fail(position);
+    }
+    fields.positions.set(token[0], position);
+    position += value!.length;
+  }
+  matchLiteral(formatString.slice(formatIndex));
+
+  if (position < input.length && (strict || input.slice(position).trim() !== "")) {
+    fail(position);
+  }
+
+  return buildParsedValue(fields, input, formatString, timeZone);
+}
+
+/**
+ * Builds the Temporal value from the parsed fields.
+ */
+function buildParsedValue(
+  fields: ParsedFields,
+  input: string,
+  formatString: string,
+  timeZone: string | undefined,
+): PlainDate | PlainDateTime | ZonedDateTime {
+  const tokenAt = (...tokens: string[]) =>
+    tokens.map((token) => fields.positions.get(token)).find((position) => position !== undefined);
+  const fail = (position: number | undefined): never => {
+    throw new InvalidDateFormatError(input, [formatString], position);
+  };
+
+  let plainDate: PlainDate;
+  if (fields.lunarYear !== undefined) {
+    try {
+      plainDate = fromLunar({
+        year: fields.lunarYear,
+        month: fields.lunarMonth ?? 1,
+        day: fields.lunarDay ?? 1,
+        isLeapMonth: fields.isLeapMonth ?? false,
+      });
+    } catch {
+      return fail(tokenAt("LDD", "LD", "LL", "LMM", "LM", "LYYYY", "LYY"));
+    }
+  } else if (fields.year !== undefined) {
+    const month = fields.month ?? (fields.quarter ? (fields.quarter - 1) * 3 + 1 : 1);
+    try {
+      plainDate = Temporal.PlainDate.from({ year: fields.year, month, day: fields.day ?? 1 }, { overflow: "reject" });
+    } catch {
+      return fail(tokenAt("DD", "D"));
+    }
+    if (fields.quarter !== undefined && Math.ceil(month / 3) !== fields.quarter) {
+      fail(tokenAt("Q"));
+    }
+  } else {
+    throw new IncompatibleOperationError("parsing", "the format string does not contain a year token");
+  }
+
+  if (fields.weekday !== undefined && fields.weekday !== plainDate.dayOfWeek) {
+    fail(tokenAt("dddd", "ddd"));
+  }
+
+  const hasTime = [...fields.positions.keys()].some((token) => TIME_TOKENS.has(token));
+  let hour = fields.hour ?? 0;
+  if (fields.meridiem) {
+    hour = (hour % 12) + (fields.meridiem === "pm" ? 12 : 0);
+  }
+  const plainDateTime = plainDate.toPlainDateTime({
+    hour,
+    minute: fields.minute ?? 0,
+    second: fields.second ?? 0,
+    millisecond: fields.millisecond ?? 0,
+  });
+
+  const zone = fields.timeZone ?? timeZone;
+  if (fields.offset === undefined && zone === undefined) {
+    return hasTime ? plainDateTime : plainDate;
+  }
+
+  if (fields.offset !== undefined) {
+    const instant = Temporal.Instant.from(`${plainDateTime.toString()}${fields.offset}`);
+    return instant.toZonedDateTimeISO(zone ?? fields.offset);
+  }
+  return plainDateTime.toZonedDateTime(zone!);
 }
 
 /**
@@ -365,15 +964,124 @@ export function formatKorean(date: ZonedDateTime | PlainDate | PlainDateTime | s
   return format(date, "custom", "YYYY년 M월 D일");
 }
 
+/**
+ * Formats a date with the long pattern of a locale (e.g., "2024년 1월 15일 월요일").
+ *
+ * PlainDate values use the locale's `formats.long` pattern; values with a time use
+ * `formats.longDateTime`.
+ *
+ * @param date - The date to format. Can be a ZonedDateTime, PlainDate, PlainDateTime, or an ISO string
+ * @param options - Formatting options. `locale` defaults to the global default locale
+ * @returns The localized long date string
+ * @throws {UnsupportedLocaleError} When the locale is not registered
+ *
+ * @example
+ * ```typescript
+ * formatLong('2024-01-15'); // "2024년 1월 15일 월요일"
+ * formatLong('2024-01-15', { locale: 'en' }); // "Monday, January 15, 2024"
+ * formatLong('2024-01-15', { locale: 'ja' }); // "2024年1月15日 月曜日"
+ *
+ * const datetime = Temporal.PlainDateTime.from('2024-01-15T14:30:00');
+ * formatLong(datetime); // "2024년 1월 15일 월요일 오후 2:30"
+ * formatLong(datetime, { locale: 'en' }); // "Monday, January 15, 2024 2:30 PM"
+ * ```
+ */
+export function formatLong(
+  date: ZonedDateTime | PlainDate | PlainDateTime | string,
+  options: FormatOptions = {},
+): string {
+  const temporalDate = typeof date === "string" ? parseFlexibleDateString(date) : date;
+  const locale = resolveLocale(options.locale);
+  const pattern = temporalDate instanceof Temporal.PlainDate ? locale.formats.long : locale.formats.longDateTime;
+
+  return formatCustom(temporalDate, pattern, locale);
+}
+
+/**
+ * Default limits for `formatRelative` units. See `FormatRelativeOptions.thresholds`.
+ */
+const RELATIVE_THRESHOLDS = { now: 45, minute: 45, hour: 22, day: 7, week: 4, month: 11 } as const;
+
+/**
+ * Maps the `rounding` option to a Temporal rounding mode. Durations are always positive here,
+ * so `ceil` rounds the magnitude up.
+ */
+const RELATIVE_ROUNDING_MODES = { round: "halfExpand", floor: "trunc", ceil: "ceil" } as const;
+
+/**
+ * Returns the signed number of calendar units between the dates of two ZonedDateTime values,
+ * ignoring the time of day (weeks start on Monday).
+ */
+function getCalendarDifference(target: ZonedDateTime, base: ZonedDateTime, unit: RelativeCalendarUnit): number {
+  const targetDate = target.toPlainDate();
+  const baseDate = base.toPlainDate();
+  switch (unit) {
+    case "day":
+      return targetDate.since(baseDate).days;
+    case "week": {
+      const targetWeek = targetDate.subtract({ days: targetDate.dayOfWeek - 1 });
+      const baseWeek = baseDate.subtract({ days: baseDate.dayOfWeek - 1 });
+      return targetWeek.since(baseWeek).days / 7;
+    }
+    case "month":
+      return (targetDate.year - baseDate.year) * 12 + targetDate.month - baseDate.month;
+    case "year":
+      return targetDate.year - baseDate.year;
+  }
+}
+
+/**
+ * Formats a date with the locale's calendar patterns (e.g., "어제 오후 3시", "지난주 화요일 오후 3시").
+ */
+function formatCalendar(target: ZonedDateTime, base: ZonedDateTime, withTime: boolean, locale: Locale): string {
+  const { calendar } = locale;
+  const days = getCalendarDifference(target, base, "day");
+  const weeks = getCalendarDifference(target, base, "week");
+
+  const pattern =
+    days === -1
+      ? calendar.lastDay
+      : days === 0
+      ? calendar.sameDay
+      : days === 1
+      ? calendar.nextDay
+      : weeks === -1
+      ? calendar.lastWeek
+      : weeks === 0
+      ? calendar.thisWeek
+      : weeks === 1
+      ? calendar.nextWeek
+      : calendar.sameElse;
+
+  const time = !withTime
+    ? ""
+    : target.minute === 0 && calendar.timeOnTheHour
+    ? calendar.timeOnTheHour
+    : calendar.time;
+  return formatCustom(target, pattern.replace("{time}", time).trim(), locale);
+}
+
 /**
  * Formats a date as a relative time expression (e.g., "3 days ago", "2 hours later").
  *
  * This function calculates the time difference between the given date and a base date,
- * then returns a human-readable relative time string in Korean.
+ * then returns a human-readable relative time string using the phrases of the locale
+ * (Korean by default).
+ *
+ * The unit is chosen with thresholds, similar to other date libraries: less than 45 seconds is
+ * shown as "방금 전", less than 45 minutes in minutes, less than 22 hours in hours, less than
+ * 7 days in days, less than 4 weeks in weeks, less than 11 months in months and anything longer
+ * in years. Days, weeks, months and years are calendar-aware, so "1개월 전" from March 31 is
+ * February 29 in a leap year. Values are rounded to the nearest whole unit unless `rounding` says otherwise.
+ *
+ * With `numeric: 'auto'`, adjacent calendar units use named phrases (어제, 내일, 지난주, 다음 달, 작년).
+ * With `style: 'calendar'`, the date is described relative to the calendar of the base date
+ * ("어제 오후 3시", "지난주 화요일 오후 3시") and falls back to a plain date for other weeks.
  *
  * @param date - The target date to compare. Can be a ZonedDateTime, PlainDate, PlainDateTime, or an ISO string
- * @param baseDate - The reference date for comparison. Defaults to current time in Asia/Seoul timezone
- * @returns A Korean relative time string
+ * @param baseDate - The reference date for comparison. Defaults to the current time of the active clock in `options.timeZone`
+ * @param options - Formatting options (locale, style, numeric, rounding, thresholds and timeZone)
+ * @returns A localized relative time string
  *
  * @example
  * ```typescript
@@ -389,53 +1097,348 @@ export function formatKorean(date: ZonedDateTime | PlainDate | PlainDateTime | s
  * formatRelative(fiveMinutesAgo); // "5분 전"
  *
  * // With custom base date
- * const baseDate = Temporal.ZonedDateTime.from('2024-01-15T12:00:00+09:00[Asia/Seoul]');
- * const targetDate = '2024-01-16T12:00:00+09:00[Asia/Seoul]';
- * formatRelative(targetDate, baseDate); // "1일 후"
+ * const baseDate = Temporal.ZonedDateTime.from('2024-01-17T12:00:00+09:00[Asia/Seoul]');
+ * formatRelative('2024-01-18T12:00:00+09:00[Asia/Seoul]', baseDate); // "1일 후"
+ * formatRelative('2024-01-03', baseDate); // "2주 전"
+ * formatRelative('2023-10-17', baseDate); // "3개월 전"
+ * formatRelative('2022-06-01', baseDate); // "2년 전"
+ *
+ * // Named phrases
+ * formatRelative('2024-01-16T09:00:00+09:00[Asia/Seoul]', baseDate, { numeric: 'auto' }); // "어제"
+ * formatRelative('2024-01-10', baseDate, { numeric: 'auto' }); // "지난주"
+ * formatRelative('2025-03-01', baseDate, { numeric: 'auto' }); // "내년"
+ *
+ * // Calendar style
+ * formatRelative('2024-01-16T15:00:00+09:00[Asia/Seoul]', baseDate, { style: 'calendar' }); // "어제 오후 3시"
+ * formatRelative('2024-01-09T15:30:00+09:00[Asia/Seoul]', baseDate, { style: 'calendar' }); // "지난주 화요일 오후 3시 30분"
+ *
+ * // Rounding and thresholds
+ * formatRelative(now.subtract({ hours: 2, minutes: 40 }), now); // "3시간 전"
+ * formatRelative(now.subtract({ hours: 2, minutes: 40 }), now, { rounding: 'floor' }); // "2시간 전"
+ * formatRelative(now.subtract({ days: 10 }), now, { thresholds: { day: 30 } }); // "10일 전"
+ *
+ * // Plain values and the current time are interpreted in the given timezone
+ * formatRelative('2024-01-15T09:00:00', undefined, { timeZone: 'America/New_York' });
  *
  * // Very recent times
  * const justNow = now.subtract({ seconds: 30 });
  * formatRelative(justNow); // "방금 전"
+ *
+ * // Other locales
+ * formatRelative(yesterday, undefined, { locale: 'en' }); // "1 day ago"
+ * formatRelative(twoHoursLater, undefined, { locale: 'ja' }); // "2時間後"
+ * formatRelative('2024-01-16T15:00:00+09:00[Asia/Seoul]', baseDate, { style: 'calendar', locale: 'en' }); // "Yesterday at 3:00 PM"
  * ```
  */
 export function formatRelative(
   date: ZonedDateTime | PlainDate | PlainDateTime | string,
   baseDate?: ZonedDateTime,
+  options: FormatRelativeOptions = {},
 ): string {
+  const { style = "relative", numeric = "always", rounding = "round" } = options;
+  const timeZone = options.timeZone ?? baseDate?.timeZoneId ?? getDefaultTimeZone();
+  const thresholds = { ...RELATIVE_THRESHOLDS, ...options.thresholds };
+
+  const value = typeof date === "string" ? parseFlexibleDateString(date) : date;
   const targetDate =
-    typeof date === "string"
-      ? (() => {
-          const parsed = parseFlexibleDateString(date);
-          return parsed instanceof Temporal.ZonedDateTime
-            ? parsed
-            : parsed instanceof Temporal.PlainDateTime
-            ? parsed.toZonedDateTime("Asia/Seoul")
-            : parsed.toPlainDateTime(Temporal.PlainTime.from("00:00:00")).toZonedDateTime("Asia/Seoul");
-        })()
-      : date instanceof Temporal.ZonedDateTime
-      ? date
-      : date instanceof Temporal.PlainDateTime
-      ? date.toZonedDateTime("Asia/Seoul")
-      : date.toPlainDateTime(Temporal.PlainTime.from("00:00:00")).toZonedDateTime("Asia/Seoul");
-
-  const base = baseDate || Temporal.Now.zonedDateTimeISO("Asia/Seoul");
-
-  const duration = targetDate.since(base, { largestUnit: "day" });
-  const days = duration.days;
-  const hours = duration.hours;
-  const minutes = duration.minutes;
-
-  if (Math.abs(days) >= 1) {
-    return days > 0 ? `${days}일 후` : `${Math.abs(days)}일 전`;
+    value instanceof Temporal.ZonedDateTime
+      ? value.withTimeZone(timeZone)
+      : value instanceof Temporal.PlainDateTime
+      ? value.toZonedDateTime(timeZone)
+      : value.toZonedDateTime({ timeZone });
+  const base = baseDate ? baseDate.withTimeZone(timeZone) : getClock().now().toZonedDateTimeISO(timeZone);
+
+  const locale = resolveLocale(options.locale);
+  if (style === "calendar") {
+    return formatCalendar(targetDate, base, !(value instanceof Temporal.PlainDate), locale);
+  }
+
+  const { relativeTime } = locale;
+  const isFuture = Temporal.ZonedDateTime.compare(targetDate, base) > 0;
+  const [from, to] = isFuture ? [base, targetDate] : [targetDate, base];
+  if (to.epochMilliseconds - from.epochMilliseconds < thresholds.now * 1000) {
+    return relativeTime.now;
+  }
+
+  const units = ["minute", "hour", "day", "week", "month", "year"] as const;
+  for (const unit of units) {
+    const threshold = unit === "year" ? Infinity : thresholds[unit];
+    if (threshold <= 0) {
+      continue;
+    }
+
+    // With named phrases, calendar units are counted by the calendar, and the unit is chosen by that count
+    const calendarUnit = numeric === "auto" && unit !== "minute" && unit !== "hour" ? unit : undefined;
+    const difference = calendarUnit ? getCalendarDifference(targetDate, base, calendarUnit) : 0;
+    let amount = Math.abs(difference);
+    if (!calendarUnit) {
+      const duration = to.since(from, {
+        largestUnit: unit,
+        smallestUnit: unit,
+        roundingMode: RELATIVE_ROUNDING_MODES[rounding],
+      });
+      amount = Math.max(duration[`${unit}s`], 1);
+    }
+    if (amount >= threshold) {
+      continue;
+    }
+
+    if (calendarUnit && amount <= 1) {
+      const phrases = relativeTime.auto[calendarUnit];
+      return difference < 0 ? phrases.previous : difference > 0 ? phrases.next : phrases.current;
+    }
+
+    const phrase = formatPhrase(relativeTime.units[unit], amount);
+    return (isFuture ? relativeTime.future : relativeTime.past).replace("%s", phrase);
+  }
+
+  return relativeTime.now;
+}
+
+/**
+ * Duration units from largest to smallest.
+ */
+const DURATION_UNITS: DurationUnit[] = [
+  "years",
+  "months",
+  "weeks",
+  "days",
+  "hours",
+  "minutes",
+  "seconds",
+  "milliseconds",
+];
+
+/**
+ * Unit suffixes used by the compact duration style.
+ */
+const COMPACT_DURATION_UNITS: Record<DurationUnit, string> = {
+  years: "y",
+  months: "mo",
+  weeks: "w",
+  days: "d",
+  hours: "h",
+  minutes: "m",
+  seconds: "s",
+  milliseconds: "ms",
+};
+
+/**
+ * Unit names accepted by `parseDuration` (compact, English, Korean and Japanese).
+ */
+const DURATION_UNIT_NAMES: Record<DurationUnit, string[]> = {
+  years: ["years", "year", "yrs", "yr", "y", "년", "年"],
+  months: ["months", "month", "mos", "mo", "개월", "달", "か月", "ヶ月"],
+  weeks: ["weeks", "week", "wks", "wk", "w", "주일", "주", "週間", "週"],
+  days: ["days", "day", "d", "일", "日"],
+  hours: ["hours", "hour", "hrs", "hr", "h", "시간", "時間"],
+  minutes: ["minutes", "minute", "mins", "min", "m", "분", "分"],
+  seconds: ["seconds", "second", "secs", "sec", "s", "초", "秒"],
+  milliseconds: ["milliseconds", "millisecond", "ms", "밀리초", "ミリ秒"],
+};
+
+/**
+ * Length of the time units in milliseconds, used to spread fractional values (e.g., "1.5h").
+ */
+const DURATION_UNIT_MILLISECONDS: Partial<Record<DurationUnit, number>> = {
+  hours: 3_600_000,
+  minutes: 60_000,
+  seconds: 1_000,
+};
+
+/**
+ * Formats accepted by `parseDuration`, used in error messages.
+ */
+const DURATION_FORMATS = [
+  "ISO 8601 (PT1H30M)",
+  "compact (1h30m)",
+  "Korean (1시간 30분)",
+  "English (1 hour 30 minutes)",
+];
+
+/**
+ * Balances a duration into the given units, rounding to the smallest one.
+ * Units between the requested ones are folded into the next smaller requested unit.
+ */
+function balanceDuration(
+  duration: Duration,
+  units: DurationUnit[],
+  relativeTo?: PlainDate | ZonedDateTime | string,
+): Duration {
+  const ordered = DURATION_UNITS.filter((unit) => units.includes(unit));
+  try {
+    const rounded = duration.round({
+      largestUnit: ordered[0],
+      smallestUnit: ordered[ordered.length - 1],
+      roundingMode: "halfExpand",
+      relativeTo,
+    });
+
+    const fields: Partial<Record<DurationUnit, number>> = {};
+    let carry = new Temporal.Duration();
+    for (const unit of DURATION_UNITS) {
+      if (!ordered.includes(unit)) {
+        carry = carry.add({ [unit]: rounded[unit] }, { relativeTo });
+        continue;
+      }
+      fields[unit] = rounded[unit] + Math.round(carry.total({ unit, relativeTo }));
+      carry = new Temporal.Duration();
+    }
+    return Temporal.Duration.from(fields);
+  } catch (error) {
+    if (error instanceof RangeError && relativeTo === undefined) {
+      throw new MissingParameterError("relativeTo");
+    }
+    throw error;
   }
+}
+
+/**
+ * Formats a Temporal.Duration as human-readable text (e.g., "2시간 30분", "1 day 4 hours").
+ *
+ * By default the non-zero units of the duration are shown as they are, so `PT90M` is "90분".
+ * Pass `units` to balance the duration into specific units: it is then rounded to the smallest
+ * of them. Years, months and weeks have no fixed length and need `relativeTo` to be balanced.
+ * Negative durations are prefixed with "-". An empty duration is shown as zero of the smallest unit.
+ *
+ * @param duration - The duration to format. Can be a Temporal.Duration or any string accepted by `parseDuration`
+ * @param options - Formatting options (style, units, relativeTo and locale)
+ * @returns The formatted duration
+ * @throws {MissingParameterError} When balancing calendar units without `relativeTo`
+ * @throws {InvalidDateFormatError} When a duration string cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * formatDuration(Temporal.Duration.from({ hours: 2, minutes: 30 })); // "2시간 30분"
+ * formatDuration('P1DT4H', { locale: 'en' }); // "1 day 4 hours"
+ * formatDuration('P1DT4H', { locale: 'en', style: 'short' }); // "1 day 4 hr"
+ * formatDuration('PT1H30M', { locale: 'ja' }); // "1時間30分"
+ * formatDuration('PT1H30M', { style: 'compact' }); // "1h30m"
+ *
+ * // Balancing into specific units
+ * formatDuration('PT150M', { units: ['hours', 'minutes'] }); // "2시간 30분"
+ * formatDuration('PT2H40M', { units: ['hours'] }); // "3시간"
+ * formatDuration('PT36H', { units: ['days', 'hours'] }); // "1일 12시간"
+ * formatDuration('P45D', { units: ['months', 'days'], relativeTo: '2024-01-01' }); // "1개월 14일"
+ *
+ * formatDuration('-PT5M'); // "-5분"
+ * formatDuration('PT0S'); // "0초"
+ * ```
+ */
+export function formatDuration(duration: Duration | string, options: FormatDurationOptions = {}): string {
+  const { style = "long", units } = options;
+  let value = typeof duration === "string" ? parseDuration(duration) : duration;
+  if (units?.length) {
+    value = balanceDuration(value, units, options.relativeTo);
+  }
+
+  const sign = value.sign < 0 ? "-" : "";
+  value = value.abs();
 
-  if (Math.abs(hours) >= 1) {
-    return hours > 0 ? `${hours}시간 후` : `${Math.abs(hours)}시간 전`;
+  const candidates = units?.length ? DURATION_UNITS.filter((unit) => units.includes(unit)) : DURATION_UNITS;
+  let shown = candidates.filter((unit) => value[unit] !== 0);
+  if (shown.length === 0) {
+    shown = [units?.length ? candidates[candidates.length - 1] : "seconds"];
   }
 
-  if (Math.abs(minutes) >= 1) {
-    return minutes > 0 ? `${minutes}분 후` : `${Math.abs(minutes)}분 전`;
+  if (style === "compact") {
+    return sign + shown.map((unit) => `${value[unit]}${COMPACT_DURATION_UNITS[unit]}`).join("");
+  }
+
+  const { duration: phrases } = resolveLocale(options.locale);
+  return sign + shown.map((unit) => formatPhrase(phrases[style][unit], value[unit])).join(phrases.separator);
+}
+
+/**
+ * Parses human-readable duration text into a Temporal.Duration.
+ *
+ * Supported forms:
+ * - ISO 8601: `PT1H30M`, `P1DT2H`, `-P2W`
+ * - Compact: `1h30m`, `1d2h`, `2w`, `1y6mo`, `500ms`
+ * - Korean: `1시간 30분`, `3일`, `2주`, `6개월`, `1년 2개월`
+ * - English and Japanese: `1 hour 30 minutes`, `2 days, 4 hrs`, `1時間30分`
+ *
+ * Units may be separated by spaces, commas or "and", and the whole text may start with "-".
+ * Hours, minutes and seconds accept decimals (`1.5h` is 1 hour 30 minutes).
+ * The values are kept as written, so `90m` is `PT90M`; use `Duration.round()` to balance them.
+ *
+ * @param text - The text to parse
+ * @returns The parsed duration
+ * @throws {InvalidDateFormatError} When the text is not a valid duration. `position` points to the first invalid character
+ *
+ * @example
+ * ```typescript
+ * parseDuration('PT1H30M'); // PT1H30M
+ * parseDuration('1h30m'); // PT1H30M
+ * parseDuration('1d2h'); // P1DT2H
+ * parseDuration('1시간 30분'); // PT1H30M
+ * parseDuration('2 days and 4 hours'); // P2DT4H
+ * parseDuration('1.5h'); // PT1H30M
+ * parseDuration('-10분'); // -PT10M
+ *
+ * parseDuration('1h 1h'); // throws InvalidDateFormatError (position 3)
+ * parseDuration('1시간 반'); // throws InvalidDateFormatError (position 4)
+ * ```
+ */
+export function parseDuration(text: string): Duration {
+  const input = text.trim();
+  if (/^[+-]?P/i.test(input)) {
+    try {
+      return Temporal.Duration.from(input);
+    } catch {
+      throw new InvalidDateFormatError(text, DURATION_FORMATS);
+    }
+  }
+
+  const offset = text.indexOf(input);
+  const names = DURATION_UNITS.flatMap((unit) => DURATION_UNIT_NAMES[unit].map((name) => [name, unit] as const)).sort(
+    ([a], [b]) => b.length - a.length,
+  );
+  const unitByName = new Map<string, DurationUnit>(names);
+  const pattern = new RegExp(
+    `(\\d+(?:[.,]\\d+)?)\\s*(${names.map(([name]) => escapeRegExp(name)).join("|")})(?![a-z])`,
+    "iy",
+  );
+  const separator = /(?:[\s,]|and(?=\s))*/iy;
+
+  const sign = input.startsWith("-") ? -1 : 1;
+  let index = /^[+-]\s*/.exec(input)?.[0].length ?? 0;
+  const fields: Partial<Record<DurationUnit, number>> = {};
+  const seen = new Set<DurationUnit>();
+
+  while (index < input.length || seen.size === 0) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(input);
+    const unit = match && unitByName.get(match[2].toLowerCase());
+    if (!match || !unit || seen.has(unit)) {
+      throw new InvalidDateFormatError(text, DURATION_FORMATS, offset + index);
+    }
+
+    const value = Number(match[1].replace(",", "."));
+    const unitMilliseconds = DURATION_UNIT_MILLISECONDS[unit];
+    if (!Number.isInteger(value) && !unitMilliseconds) {
+      throw new InvalidDateFormatError(text, DURATION_FORMATS, offset + index);
+    }
+
+    seen.add(unit);
+    fields[unit] = (fields[unit] ?? 0) + Math.trunc(value);
+    if (unitMilliseconds && !Number.isInteger(value)) {
+      let remainder = Math.round((value % 1) * unitMilliseconds);
+      for (const smaller of DURATION_UNITS.slice(DURATION_UNITS.indexOf(unit) + 1)) {
+        const size = DURATION_UNIT_MILLISECONDS[smaller] ?? 1;
+        const amount = Math.floor(remainder / size);
+        remainder -= amount * size;
+        if (amount > 0) {
+          fields[smaller] = (fields[smaller] ?? 0) + amount;
+        }
+      }
+    }
+
+    separator.lastIndex = pattern.lastIndex;
+    separator.exec(input);
+    index = separator.lastIndex;
   }
 
-  return "방금 전";
+  const duration = Temporal.Duration.from(fields);
+  return sign < 0 ? duration.negated() : duration;
 }
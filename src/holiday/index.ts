@@ -0,0 +1,263 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { Holiday, HolidayDefinition, KoreanHolidayOptions, PlainDate } from "../types";
+import { LUNAR_MAX_YEAR, fromEpochDay, lunarToEpochDay, toEpochDay } from "../lunar";
+import { OutOfRangeError } from "../errors";
+import { getHolidayDatesInYear } from "../calendar";
+
+/**
+ * How a Korean public holiday is compensated when it overlaps a day off.
+ *
+ * - `sunday`: Substituted when it falls on a Sunday or overlaps another public holiday (설날, 추석)
+ * - `weekend`: Substituted when it falls on a Saturday, Sunday or overlaps another public holiday
+ */
+type SubstitutePolicy = "sunday" | "weekend";
+
+/**
+ * Definition of a Korean public holiday (관공서의 공휴일에 관한 규정).
+ */
+interface KoreanHolidayDefinition {
+  /** The official name of the holiday */
+  name: string;
+  /** Whether `month`/`day` refer to the lunar calendar */
+  lunar?: boolean;
+  month: number;
+  day: number;
+  /** Whether the day before and the day after are holidays as well (설날/추석 연휴) */
+  threeDay?: boolean;
+  /** The substitute holiday policy, if the holiday is eligible for 대체공휴일 */
+  substitute?: SubstitutePolicy;
+  /** The first date (YYYY-MM-DD) on which the substitute holiday rule applies */
+  substituteSince?: string;
+}
+
+/**
+ * The first year of the supported range, the first full year under the substitute holiday rules.
+ *
+ * Earlier years had a different set of holidays (신정 연휴, 국군의 날, 식목일, 제헌절, the one-day 민속의 날
+ * instead of 설날 연휴), which is not modelled.
+ */
+const KOREAN_HOLIDAYS_MIN_YEAR = 2014;
+
+/**
+ * Korean public holidays according to the Regulations on Holidays of Public Agencies, as in force since 2014.
+ *
+ * Substitute holiday rules were introduced in November 2013 (설날, 추석, 어린이날),
+ * extended to the national days in July 2021 and to 부처님오신날 and 기독탄신일 in May 2023.
+ */
+const KOREAN_HOLIDAYS: KoreanHolidayDefinition[] = [
+  { name: "신정", month: 1, day: 1 },
+  { name: "설날", lunar: true, month: 1, day: 1, threeDay: true, substitute: "sunday", substituteSince: "2013-11-05" },
+  { name: "삼일절", month: 3, day: 1, substitute: "weekend", substituteSince: "2021-07-07" },
+  { name: "부처님오신날", lunar: true, month: 4, day: 8, substitute: "weekend", substituteSince: "2023-05-04" },
+  { name: "어린이날", month: 5, day: 5, substitute: "weekend", substituteSince: "2013-11-05" },
+  { name: "현충일", month: 6, day: 6 },
+  { name: "광복절", month: 8, day: 15, substitute: "weekend", substituteSince: "2021-07-07" },
+  { name: "추석", lunar: true, month: 8, day: 15, threeDay: true, substitute: "sunday", substituteSince: "2013-11-05" },
+  { name: "개천절", month: 10, day: 3, substitute: "weekend", substituteSince: "2021-07-07" },
+  { name: "한글날", month: 10, day: 9, substitute: "weekend", substituteSince: "2021-07-07" },
+  { name: "기독탄신일", month: 12, day: 25, substitute: "weekend", substituteSince: "2023-05-04" },
+];
+
+/**
+ * A single day of a resolved Korean holiday.
+ */
+interface ResolvedHoliday {
+  epochDay: number;
+  name: string;
+  definition?: KoreanHolidayDefinition;
+  /** The last day of the holiday period, used as the anchor for substitute holidays */
+  lastEpochDay: number;
+}
+
+/**
+ * Expands the holiday definitions into concrete days for a solar year.
+ */
+function resolveHolidays(year: number): ResolvedHoliday[] {
+  const resolved: ResolvedHoliday[] = [];
+
+  for (const definition of KOREAN_HOLIDAYS) {
+    const epochDay = definition.lunar
+      ? lunarToEpochDay(year, definition.month, definition.day)
+      : toEpochDay(Temporal.PlainDate.from({ year, month: definition.month, day: definition.day }));
+    if (epochDay === null) {
+      continue;
+    }
+
+    if (!definition.threeDay) {
+      resolved.push({ epochDay, name: definition.name, definition, lastEpochDay: epochDay });
+      continue;
+    }
+
+    for (const offset of [-1, 0, 1]) {
+      resolved.push({
+        epochDay: epochDay + offset,
+        name: offset === 0 ? definition.name : `${definition.name} 연휴`,
+        definition,
+        lastEpochDay: epochDay + 1,
+      });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Determines whether a holiday earns a substitute holiday on the given day.
+ */
+function isSubstituteEligible(holiday: ResolvedHoliday, dayOfWeek: number, overlapping: boolean): boolean {
+  const definition = holiday.definition;
+  if (!definition?.substitute || !definition.substituteSince) {
+    return false;
+  }
+  if (fromEpochDay(holiday.epochDay).toString() < definition.substituteSince) {
+    return false;
+  }
+  if (overlapping) {
+    return true;
+  }
+  return definition.substitute === "weekend" ? dayOfWeek >= 6 : dayOfWeek === 7;
+}
+
+/**
+ * Computes the substitute holidays (대체공휴일) for the resolved holidays of a year.
+ *
+ * A substitute holiday is placed on the first day after the holiday (or after the
+ * last day of a three-day holiday) that is neither a weekend nor another holiday.
+ */
+function resolveSubstitutes(holidays: ResolvedHoliday[]): ResolvedHoliday[] {
+  const byDay = new Map<number, ResolvedHoliday[]>();
+  for (const holiday of holidays) {
+    byDay.set(holiday.epochDay, [...(byDay.get(holiday.epochDay) ?? []), holiday]);
+  }
+
+  const taken = new Set(byDay.keys());
+  const substitutes: ResolvedHoliday[] = [];
+
+  for (const epochDay of [...byDay.keys()].sort((a, b) => a - b)) {
+    const sameDay = byDay.get(epochDay)!;
+    const dayOfWeek = fromEpochDay(epochDay).dayOfWeek;
+    const overlapping = sameDay.length > 1;
+
+    // Weekdays lose one day less, since the first holiday only replaces a workday
+    const lostDays = dayOfWeek <= 5 ? sameDay.length - 1 : sameDay.length;
+    const eligible = sameDay.filter((holiday) => isSubstituteEligible(holiday, dayOfWeek, overlapping));
+
+    for (const holiday of eligible.slice(0, lostDays)) {
+      let candidate = holiday.lastEpochDay + 1;
+      while (taken.has(candidate) || fromEpochDay(candidate).dayOfWeek >= 6) {
+        candidate++;
+      }
+      taken.add(candidate);
+      substitutes.push({
+        epochDay: candidate,
+        name: `대체공휴일(${holiday.definition!.name})`,
+        lastEpochDay: candidate,
+      });
+    }
+  }
+
+  return substitutes;
+}
+
+/**
+ * Converts the `overrides` option into resolved holidays for a year.
+ */
+function resolveOverrides(year: number, overrides: HolidayDefinition[]): ResolvedHoliday[] {
+  return overrides.flatMap((holiday) =>
+    getHolidayDatesInYear(holiday, year).map((date) => ({
+      epochDay: toEpochDay(date),
+      name: holiday.name,
+      lastEpochDay: toEpochDay(date),
+    })),
+  );
+}
+
+/**
+ * Returns the Korean public holidays (공휴일) of a year, ready to be passed to the workday functions.
+ *
+ * The list includes:
+ * - Fixed holidays: 신정, 삼일절, 어린이날, 현충일, 광복절, 개천절, 한글날, 기독탄신일
+ * - Lunar holidays: 설날 and 추석 (including the days before and after) and 부처님오신날
+ * - Substitute holidays (대체공휴일) according to the rules in force on each holiday's date
+ * - Election days and temporary holidays supplied through `options.overrides`
+ *
+ * Years from 2014 to 2100 are supported: the holidays follow the rules in force since 2014, and lunar
+ * holidays are computed from the Korean lunisolar calendar, which ends in 2100. Temporary holidays
+ * (임시공휴일) are not included and can be supplied through `options.overrides`.
+ *
+ * @param year - The solar year to get the holidays for
+ * @param options - Optional settings such as election day overrides
+ * @returns The holidays of the year, sorted by date
+ * @throws {OutOfRangeError} When the year is outside the supported range
+ *
+ * @example
+ * ```typescript
+ * const holidays = getKoreanHolidays(2024);
+ * // [{ date: '2024-01-01', name: '신정', recurring: false },
+ * //  { date: '2024-02-09', name: '설날 연휴', recurring: false },
+ * //  { date: '2024-02-10', name: '설날', recurring: false },
+ * //  { date: '2024-02-11', name: '설날 연휴', recurring: false },
+ * //  { date: '2024-02-12', name: '대체공휴일(설날)', recurring: false }, ...]
+ *
+ * // Use directly with the workday functions
+ * isWorkday('2024-09-17', holidays); // false (추석)
+ *
+ * // With an election day
+ * const withElection = getKoreanHolidays(2024, {
+ *   overrides: [{ date: '2024-04-10', name: '제22대 국회의원 선거' }],
+ * });
+ * ```
+ */
+export function getKoreanHolidays(year: number, options: KoreanHolidayOptions = {}): Holiday[] {
+  if (!Number.isInteger(year) || year < KOREAN_HOLIDAYS_MIN_YEAR || year > LUNAR_MAX_YEAR) {
+    throw new OutOfRangeError(`Korean holiday year ${year}`, KOREAN_HOLIDAYS_MIN_YEAR, LUNAR_MAX_YEAR);
+  }
+
+  const { overrides = [], substitute = true } = options;
+
+  const holidays = [...resolveHolidays(year), ...resolveOverrides(year, overrides)];
+  if (substitute) {
+    holidays.push(...resolveSubstitutes(holidays));
+  }
+
+  return holidays
+    .sort((a, b) => a.epochDay - b.epochDay)
+    .map((holiday) => ({ date: fromEpochDay(holiday.epochDay).toString(), name: holiday.name, recurring: false }));
+}
+
+/**
+ * Returns the Korean public holidays between two dates (both inclusive).
+ *
+ * @param start - The first date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @param end - The last date of the range. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @param options - Optional settings such as election day overrides
+ * @returns The holidays within the range, sorted by date
+ * @throws {OutOfRangeError} When the range includes a year outside 2014–2100
+ *
+ * @example
+ * ```typescript
+ * // Holidays around the turn of the year
+ * const holidays = getKoreanHolidaysBetween('2024-12-01', '2025-02-28');
+ * // [기독탄신일, 신정, 설날 연휴, 설날, 설날 연휴]
+ *
+ * // Count business days of a quarter
+ * const q1 = getKoreanHolidaysBetween('2025-01-01', '2025-03-31');
+ * ```
+ */
+export function getKoreanHolidaysBetween(
+  start: PlainDate | string,
+  end: PlainDate | string,
+  options: KoreanHolidayOptions = {},
+): Holiday[] {
+  const startDate = typeof start === "string" ? Temporal.PlainDate.from(start) : start;
+  const endDate = typeof end === "string" ? Temporal.PlainDate.from(end) : end;
+
+  const holidays: Holiday[] = [];
+  for (let year = startDate.year; year <= endDate.year; year++) {
+    holidays.push(...getKoreanHolidays(year, options));
+  }
+
+  const startString = startDate.toString();
+  const endString = endDate.toString();
+  return holidays.filter((holiday) => holiday.date >= startString && holiday.date <= endString);
+}
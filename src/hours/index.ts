@@ -0,0 +1,419 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { BusinessHours, HolidayDefinition, PlainDate, TimeWindow, WeekDay, ZonedDateTime } from "../types";
+import { IncompatibleOperationError, InvalidDateFormatError } from "../errors";
+import { BusinessCalendar, getCachedCalendar } from "../calendar";
+import { convertToZonedDateTime } from "../timezone";
+import { getDefaultDayOffWeekdays, getDefaultHolidays, getDefaultTimeZone } from "../config";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Business hours resolved into working segments (minutes since midnight) per weekday.
+ *
+ * @internal
+ */
+export interface Schedule {
+  timeZone: string;
+  calendar: BusinessCalendar;
+  segments: Map<number, [number, number][]>;
+}
+
+/**
+ * A continuous working period on a concrete day.
+ *
+ * @internal
+ */
+export interface WorkingPeriod {
+  start: ZonedDateTime;
+  end: ZonedDateTime;
+}
+
+/**
+ * Parses an `HH:mm` time into minutes since midnight. `24:00` denotes the end of the day.
+ */
+function parseTime(time: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+
+  if (!(hours < 24 && minutes < 60) && !(hours === 24 && minutes === 0)) {
+    throw new InvalidDateFormatError(time, ["HH:mm"]);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Removes break windows from a working window, returning the remaining segments in order.
+ *
+ * Break times before the opening time belong to the next day, so overnight hours can have breaks after midnight.
+ */
+function subtractBreaks(open: number, close: number, breaks: TimeWindow[]): [number, number][] {
+  let segments: [number, number][] = [[open, close]];
+
+  for (const window of breaks) {
+    let breakStart = parseTime(window.start);
+    if (breakStart < open) {
+      breakStart += MINUTES_PER_DAY;
+    }
+    let breakEnd = parseTime(window.end);
+    if (breakEnd < breakStart) {
+      breakEnd += MINUTES_PER_DAY;
+    }
+    segments = segments.flatMap(([start, end]): [number, number][] => {
+      if (breakEnd <= start || breakStart >= end) {
+        return [[start, end]];
+      }
+      return [
+        [start, breakStart],
+        [breakEnd, end],
+      ].filter(([from, to]) => from < to) as [number, number][];
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Resolves the business hours definition into working segments per weekday.
+ *
+ * @internal
+ */
+export function resolveSchedule(
+  businessHours: BusinessHours,
+  holidayList: HolidayDefinition[],
+  dayOffWeekdays: WeekDay[],
+): Schedule {
+  const segments = new Map<number, [number, number][]>();
+
+  for (let weekday = 1; weekday <= 7; weekday++) {
+    const dayHours = businessHours.weekdays?.[weekday as WeekDay];
+    if (dayOffWeekdays.includes(weekday as WeekDay) || dayHours === null) {
+      segments.set(weekday, []);
+      continue;
+    }
+
+    const open = dayHours?.open ?? businessHours.open ?? "09:00";
+    const close = dayHours?.close ?? businessHours.close ?? "18:00";
+    const openMinutes = parseTime(open);
+    let closeMinutes = parseTime(close);
+    if (openMinutes === closeMinutes) {
+      throw new IncompatibleOperationError("business hours", `opening and closing time are both ${open}`);
+    }
+    // Overnight hours (e.g. 22:00-06:00) close on the next day
+    if (closeMinutes < openMinutes) {
+      closeMinutes += MINUTES_PER_DAY;
+    }
+
+    const breaks = dayHours?.breaks ?? businessHours.breaks ?? [];
+    segments.set(weekday, subtractBreaks(openMinutes, closeMinutes, breaks));
+  }
+
+  return {
+    timeZone: businessHours.timeZone ?? getDefaultTimeZone(),
+    calendar: getCachedCalendar(holidayList, dayOffWeekdays),
+    segments,
+  };
+}
+
+/**
+ * Ensures that the schedule has working hours in at least one weekday, so that searches terminate.
+ */
+function assertHasWorkingHours(schedule: Schedule): void {
+  if ([...schedule.segments.values()].every((segments) => segments.length === 0)) {
+    throw new IncompatibleOperationError("business hour calculation", "there are no working hours in the week");
+  }
+}
+
+/**
+ * Converts minutes since midnight of a local date into a ZonedDateTime. Minutes past `24:00` fall on the next day.
+ */
+function toZonedDateTime(date: PlainDate, minutes: number, timeZone: string): ZonedDateTime {
+  const day = date.add({ days: Math.floor(minutes / MINUTES_PER_DAY) });
+  const minuteOfDay = minutes % MINUTES_PER_DAY;
+  if (minuteOfDay === 0) {
+    return day.toZonedDateTime(timeZone);
+  }
+  const plainTime = Temporal.PlainTime.from({ hour: Math.floor(minuteOfDay / 60), minute: minuteOfDay % 60 });
+  return day.toZonedDateTime({ timeZone, plainTime });
+}
+
+/**
+ * Returns the working periods opening on a local date, in chronological order. The periods of overnight
+ * hours end on the next day, so callers looking for a moment also check the periods of the previous day.
+ *
+ * @internal
+ */
+export function getWorkingPeriods(schedule: Schedule, date: PlainDate): WorkingPeriod[] {
+  if (!schedule.calendar.isWorkday(date)) {
+    return [];
+  }
+
+  return (schedule.segments.get(date.dayOfWeek) ?? []).map(([start, end]) => ({
+    start: toZonedDateTime(date, start, schedule.timeZone),
+    end: toZonedDateTime(date, end, schedule.timeZone),
+  }));
+}
+
+/**
+ * Moves forward through working time by a number of milliseconds.
+ */
+function addWorkingTime(schedule: Schedule, start: ZonedDateTime, milliseconds: number): ZonedDateTime {
+  let cursor = start;
+  let remaining = milliseconds;
+
+  // Start on the previous day, whose overnight hours may still be open
+  for (let date = start.toPlainDate().subtract({ days: 1 }); ; date = date.add({ days: 1 })) {
+    for (const period of getWorkingPeriods(schedule, date)) {
+      if (Temporal.ZonedDateTime.compare(period.end, cursor) <= 0) {
+        continue;
+      }
+      const from = Temporal.ZonedDateTime.compare(period.start, cursor) > 0 ? period.start : cursor;
+      const available = period.end.epochMilliseconds - from.epochMilliseconds;
+      if (remaining <= available) {
+        return from.add({ milliseconds: remaining });
+      }
+      remaining -= available;
+      cursor = period.end;
+    }
+  }
+}
+
+/**
+ * Moves backward through working time by a number of milliseconds.
+ */
+function subtractWorkingTime(schedule: Schedule, start: ZonedDateTime, milliseconds: number): ZonedDateTime {
+  let cursor = start;
+  let remaining = milliseconds;
+
+  for (let date = start.toPlainDate(); ; date = date.subtract({ days: 1 })) {
+    for (const period of getWorkingPeriods(schedule, date).reverse()) {
+      if (Temporal.ZonedDateTime.compare(period.start, cursor) >= 0) {
+        continue;
+      }
+      const to = Temporal.ZonedDateTime.compare(period.end, cursor) < 0 ? period.end : cursor;
+      const available = to.epochMilliseconds - period.start.epochMilliseconds;
+      if (remaining <= available) {
+        return to.subtract({ milliseconds: remaining });
+      }
+      remaining -= available;
+      cursor = period.start;
+    }
+  }
+}
+
+/**
+ * Determines whether a moment falls within business hours.
+ *
+ * The moment is evaluated in the timezone of the business hours, so a ZonedDateTime in any
+ * timezone can be checked. Days off and holidays are always outside business hours. Opening
+ * times are inclusive and closing times exclusive, so 09:00-18:00 with a 12:00-13:00 break is
+ * open at 09:00 and 13:00 but closed at 12:00 and 18:00.
+ *
+ * @param dateTime - The moment to check. Can be a ZonedDateTime or an ISO string accepted by `convertToZonedDateTime`
+ * @param businessHours - The working-hours definition. Defaults to 09:00-18:00 in Asia/Seoul
+ * @param holidayList - An array of holiday objects. Each holiday can be either a one-time holiday or a recurring annual holiday
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @returns `true` if the business is open at that moment
+ * @throws {InvalidDateFormatError} When a time in the business hours is not in HH:mm format
+ *
+ * @example
+ * ```typescript
+ * const hours: BusinessHours = {
+ *   open: '09:00',
+ *   close: '18:00',
+ *   breaks: [{ start: '12:00', end: '13:00' }]
+ * };
+ *
+ * isWithinBusinessHours('2024-01-15T10:00:00+09:00[Asia/Seoul]', hours); // true
+ * isWithinBusinessHours('2024-01-15T12:30:00+09:00[Asia/Seoul]', hours); // false (lunch break)
+ * isWithinBusinessHours('2024-01-13T10:00:00+09:00[Asia/Seoul]', hours); // false (Saturday)
+ *
+ * // A moment in another timezone is compared in Seoul time
+ * isWithinBusinessHours(Temporal.ZonedDateTime.from('2024-01-15T01:00:00+00:00[UTC]'), hours); // true (10:00 KST)
+ * ```
+ */
+export function isWithinBusinessHours(
+  dateTime: ZonedDateTime | string,
+  businessHours: BusinessHours = {},
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+): boolean {
+  const schedule = resolveSchedule(businessHours, holidayList, dayOffWeekdays);
+  const moment = convertToZonedDateTime(dateTime, schedule.timeZone);
+  const date = moment.toPlainDate();
+
+  // Overnight hours of the previous day may still be open
+  return [...getWorkingPeriods(schedule, date.subtract({ days: 1 })), ...getWorkingPeriods(schedule, date)].some(
+    (period) =>
+      Temporal.ZonedDateTime.compare(period.start, moment) <= 0 &&
+      Temporal.ZonedDateTime.compare(moment, period.end) < 0,
+  );
+}
+
+/**
+ * Finds the earliest moment at or after a given moment when the business is open.
+ *
+ * Returns the moment itself when it is already within business hours; otherwise the next
+ * opening time, skipping breaks, days off and holidays.
+ *
+ * @param dateTime - The starting moment. Can be a ZonedDateTime or an ISO string accepted by `convertToZonedDateTime`
+ * @param businessHours - The working-hours definition. Defaults to 09:00-18:00 in Asia/Seoul
+ * @param holidayList - An array of holiday objects. Each holiday can be either a one-time holiday or a recurring annual holiday
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @returns The next moment within business hours, in the business hours timezone
+ * @throws {IncompatibleOperationError} When no weekday has working hours
+ *
+ * @example
+ * ```typescript
+ * const hours: BusinessHours = { open: '09:00', close: '18:00', breaks: [{ start: '12:00', end: '13:00' }] };
+ *
+ * nextBusinessOpen('2024-01-15T12:30:00+09:00[Asia/Seoul]', hours); // 2024-01-15T13:00:00+09:00[Asia/Seoul]
+ * nextBusinessOpen('2024-01-12T19:00:00+09:00[Asia/Seoul]', hours); // 2024-01-15T09:00:00+09:00[Asia/Seoul] (Monday)
+ * nextBusinessOpen('2024-01-15T10:00:00+09:00[Asia/Seoul]', hours); // 2024-01-15T10:00:00+09:00[Asia/Seoul] (already open)
+ * ```
+ */
+export function nextBusinessOpen(
+  dateTime: ZonedDateTime | string,
+  businessHours: BusinessHours = {},
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+): ZonedDateTime {
+  const schedule = resolveSchedule(businessHours, holidayList, dayOffWeekdays);
+  assertHasWorkingHours(schedule);
+
+  return addWorkingTime(schedule, convertToZonedDateTime(dateTime, schedule.timeZone), 0);
+}
+
+/**
+ * Adds an amount of working time, in minutes, to a moment.
+ *
+ * Only time within business hours is counted: breaks, closing hours, days off and holidays
+ * are skipped. When the starting moment is outside business hours, counting starts at the
+ * next opening time. A result that exactly reaches the end of a working period is returned
+ * as that closing time (or break start) rather than the next opening time.
+ *
+ * @param dateTime - The starting moment. Can be a ZonedDateTime or an ISO string accepted by `convertToZonedDateTime`
+ * @param minutes - The number of working minutes to add. Negative values subtract working time
+ * @param businessHours - The working-hours definition. Defaults to 09:00-18:00 in Asia/Seoul
+ * @param holidayList - An array of holiday objects. Each holiday can be either a one-time holiday or a recurring annual holiday
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @returns The resulting moment, in the business hours timezone. The starting moment when `minutes` is 0
+ * @throws {IncompatibleOperationError} When no weekday has working hours
+ *
+ * @example
+ * ```typescript
+ * const hours: BusinessHours = { open: '09:00', close: '18:00', breaks: [{ start: '12:00', end: '13:00' }] };
+ *
+ * addBusinessMinutes('2024-01-15T11:30:00+09:00[Asia/Seoul]', 90, hours);
+ * // 2024-01-15T14:00:00+09:00[Asia/Seoul] (30 minutes before lunch, 60 after)
+ *
+ * addBusinessMinutes('2024-01-15T09:30:00+09:00[Asia/Seoul]', -60, hours);
+ * // 2024-01-12T17:30:00+09:00[Asia/Seoul] (previous Friday)
+ * ```
+ */
+export function addBusinessMinutes(
+  dateTime: ZonedDateTime | string,
+  minutes: number,
+  businessHours: BusinessHours = {},
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+): ZonedDateTime {
+  const schedule = resolveSchedule(businessHours, holidayList, dayOffWeekdays);
+  const start = convertToZonedDateTime(dateTime, schedule.timeZone);
+  const milliseconds = Math.round(minutes * 60_000);
+
+  if (milliseconds === 0) {
+    return start;
+  }
+
+  assertHasWorkingHours(schedule);
+  return milliseconds > 0
+    ? addWorkingTime(schedule, start, milliseconds)
+    : subtractWorkingTime(schedule, start, -milliseconds);
+}
+
+/**
+ * Adds an amount of working time, in hours, to a moment.
+ *
+ * Equivalent to `addBusinessMinutes(dateTime, hours * 60, ...)`; fractional hours are supported.
+ *
+ * @param dateTime - The starting moment. Can be a ZonedDateTime or an ISO string accepted by `convertToZonedDateTime`
+ * @param hours - The number of working hours to add. Negative values subtract working time
+ * @param businessHours - The working-hours definition. Defaults to 09:00-18:00 in Asia/Seoul
+ * @param holidayList - An array of holiday objects. Each holiday can be either a one-time holiday or a recurring annual holiday
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @returns The resulting moment, in the business hours timezone
+ * @throws {IncompatibleOperationError} When no weekday has working hours
+ *
+ * @example
+ * ```typescript
+ * // A support ticket opened on Friday afternoon with an 8 business hour SLA
+ * const hours: BusinessHours = { open: '09:00', close: '18:00', breaks: [{ start: '12:00', end: '13:00' }] };
+ * addBusinessHours('2024-01-12T16:00:00+09:00[Asia/Seoul]', 8, hours);
+ * // 2024-01-15T16:00:00+09:00[Asia/Seoul] (Monday)
+ * ```
+ */
+export function addBusinessHours(
+  dateTime: ZonedDateTime | string,
+  hours: number,
+  businessHours: BusinessHours = {},
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+): ZonedDateTime {
+  return addBusinessMinutes(dateTime, hours * 60, businessHours, holidayList, dayOffWeekdays);
+}
+
+/**
+ * Measures the working time between two moments.
+ *
+ * Only the parts of the range that fall within business hours are counted.
+ *
+ * @param start - The start of the range. Can be a ZonedDateTime or an ISO string accepted by `convertToZonedDateTime`
+ * @param end - The end of the range. Can be a ZonedDateTime or an ISO string accepted by `convertToZonedDateTime`
+ * @param businessHours - The working-hours definition. Defaults to 09:00-18:00 in Asia/Seoul
+ * @param holidayList - An array of holiday objects. Each holiday can be either a one-time holiday or a recurring annual holiday
+ * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday)
+ * @returns The working time as a Temporal.Duration balanced up to hours. Negative when `end` is before `start`
+ *
+ * @example
+ * ```typescript
+ * const hours: BusinessHours = { open: '09:00', close: '18:00', breaks: [{ start: '12:00', end: '13:00' }] };
+ *
+ * const elapsed = businessTimeBetween(
+ *   '2024-01-12T16:00:00+09:00[Asia/Seoul]',
+ *   '2024-01-15T10:30:00+09:00[Asia/Seoul]',
+ *   hours,
+ * );
+ * elapsed.toString(); // "PT3H30M"
+ * elapsed.total('minutes'); // 210
+ * ```
+ */
+export function businessTimeBetween(
+  start: ZonedDateTime | string,
+  end: ZonedDateTime | string,
+  businessHours: BusinessHours = {},
+  holidayList: HolidayDefinition[] = getDefaultHolidays(),
+  dayOffWeekdays: WeekDay[] = getDefaultDayOffWeekdays(),
+): Temporal.Duration {
+  const schedule = resolveSchedule(businessHours, holidayList, dayOffWeekdays);
+  const startDateTime = convertToZonedDateTime(start, schedule.timeZone);
+  const endDateTime = convertToZonedDateTime(end, schedule.timeZone);
+
+  if (Temporal.ZonedDateTime.compare(startDateTime, endDateTime) > 0) {
+    return businessTimeBetween(endDateTime, startDateTime, businessHours, holidayList, dayOffWeekdays).negated();
+  }
+
+  let milliseconds = 0;
+  const lastDate = endDateTime.toPlainDate();
+  // Start on the previous day, whose overnight hours may reach into the range
+  let date = startDateTime.toPlainDate().subtract({ days: 1 });
+  for (; Temporal.PlainDate.compare(date, lastDate) <= 0; date = date.add({ days: 1 })) {
+    for (const period of getWorkingPeriods(schedule, date)) {
+      const from = Math.max(period.start.epochMilliseconds, startDateTime.epochMilliseconds);
+      const to = Math.min(period.end.epochMilliseconds, endDateTime.epochMilliseconds);
+      milliseconds += Math.max(0, to - from);
+    }
+  }
+
+  return Temporal.Duration.from({ milliseconds }).round({ largestUnit: "hours" });
+}
@@ -0,0 +1,843 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type {
+  Holiday,
+  HolidayDefinition,
+  HolidayObservance,
+  ICSCalendar,
+  ICSEvent,
+  ICSOptions,
+  ParseICSOptions,
+  PlainDate,
+  PlainDateTime,
+  RecurrenceRule,
+  RuleHoliday,
+  TimeZone,
+  ZonedDateTime,
+} from "../types";
+import { getHolidayDatesInYear, isRuleHoliday } from "../calendar";
+import { Recurrence, formatICalValue, formatRecurrenceRule, parseICalValue, parseRecurrenceRule } from "../recurrence";
+import { getNow, getNowUTC } from "../timezone";
+import { getDefaultTimeZone } from "../config";
+import { IncompatibleOperationError, InvalidDateFormatError, MissingParameterError } from "../errors";
+
+const DEFAULT_PRODUCT_ID = "-//zwoninstitute//il-gaemi//EN";
+
+/**
+ * Non-standard property that keeps `Holiday.observance` across a round trip.
+ */
+const OBSERVANCE_PROPERTY = "X-IL-GAEMI-OBSERVANCE";
+
+const OBSERVANCES: HolidayObservance[] = ["none", "nextWorkday", "nearestWeekday", "previousWorkday"];
+
+/**
+ * RFC 5545 limits content lines to 75 octets, excluding the line break.
+ */
+const MAX_LINE_OCTETS = 75;
+
+const ICS_FORMATS = ["iCalendar (RFC 5545)"];
+
+/**
+ * A property line of an iCalendar file, e.g. `DTSTART;TZID=Asia/Seoul:20240101T090000`.
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  /** The index of the line in the original text */
+  position: number;
+}
+
+/**
+ * A `BEGIN:...` / `END:...` block of an iCalendar file.
+ */
+interface Component {
+  name: string;
+  properties: ContentLine[];
+  components: Component[];
+}
+
+/**
+ * Converts a local date-time in a `TZID` to a ZonedDateTime.
+ */
+type ZoneResolver = (dateTime: PlainDateTime) => ZonedDateTime;
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11).
+ */
+function escapeText(text: string): string {
+  return text.replace(/[\\;,]/g, (character) => `\\${character}`).replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Unescapes a TEXT value (RFC 5545 section 3.3.11).
+ */
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, character: string) => (character.toLowerCase() === "n" ? "\n" : character));
+}
+
+/**
+ * Folds a content line into lines of at most 75 octets, without splitting UTF-8 characters.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const character of line) {
+    const size = encoder.encode(character).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = lines.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n ");
+}
+
+/**
+ * Unfolds the lines of an iCalendar file, keeping the position of each logical line.
+ */
+function unfoldLines(text: string): { line: string; position: number }[] {
+  const lines: { line: string; position: number }[] = [];
+  let position = 0;
+  for (const physical of text.split("\n")) {
+    const line = physical.replace(/\r$/, "");
+    if ((line.startsWith(" ") || line.startsWith("\t")) && lines.length) {
+      lines[lines.length - 1].line += line.slice(1);
+    } else if (line !== "") {
+      lines.push({ line, position });
+    }
+    position += physical.length + 1;
+  }
+  return lines;
+}
+
+/**
+ * Parses a content line (`NAME;PARAM=value;PARAM="quoted":value`).
+ */
+function parseContentLine(text: string, line: string, position: number): ContentLine {
+  const match = /^([A-Za-z0-9-]+)/.exec(line);
+  if (!match) {
+    throw new InvalidDateFormatError(text, ICS_FORMATS, position);
+  }
+
+  const params: Record<string, string> = {};
+  let index = match[1].length;
+  while (line[index] === ";") {
+    const param = /^;([A-Za-z0-9-]+)=("[^"]*"|[^";:,]*(?:,[^";:,]*)*)/.exec(line.slice(index));
+    if (!param) {
+      throw new InvalidDateFormatError(text, ICS_FORMATS, position + index);
+    }
+    params[param[1].toUpperCase()] = param[2].replace(/^"(.*)"$/, "$1");
+    index += param[0].length;
+  }
+
+  if (line[index] !== ":") {
+    throw new InvalidDateFormatError(text, ICS_FORMATS, position + index);
+  }
+  return { name: match[1].toUpperCase(), params, value: line.slice(index + 1), position };
+}
+
+/**
+ * Parses the text of an iCalendar file into its components.
+ */
+function parseComponents(text: string): Component[] {
+  const root: Component = { name: "", properties: [], components: [] };
+  const stack: Component[] = [root];
+
+  for (const { line, position } of unfoldLines(text)) {
+    const contentLine = parseContentLine(text, line, position);
+    const current = stack[stack.length - 1];
+    if (contentLine.name === "BEGIN") {
+      const component: Component = { name: contentLine.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (contentLine.name === "END") {
+      if (stack.length === 1 || current.name !== contentLine.value.toUpperCase()) {
+        throw new InvalidDateFormatError(text, ICS_FORMATS, position);
+      }
+      stack.pop();
+    } else if (stack.length === 1) {
+      throw new InvalidDateFormatError(text, ICS_FORMATS, position);
+    } else {
+      current.properties.push(contentLine);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new InvalidDateFormatError(text, ICS_FORMATS, text.length);
+  }
+  return root.components;
+}
+
+/**
+ * Returns the first property with a name, if any.
+ */
+function getProperty(component: Component, name: string): ContentLine | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+/**
+ * Determines whether a string is a time zone identifier known to Temporal.
+ */
+function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    Temporal.TimeZone.from(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts a UTC offset of iCalendar (`+0900`, `-043000`) to a Temporal offset (`+09:00`, `-04:30`).
+ */
+function parseUTCOffset(text: string, value: string, position: number): string {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value);
+  if (!match) {
+    throw new InvalidDateFormatError(text, ICS_FORMATS, position);
+  }
+  return `${match[1]}${match[2]}:${match[3]}${match[4] && match[4] !== "00" ? `:${match[4]}` : ""}`;
+}
+
+/**
+ * Converts a Temporal offset (`+09:00`) to a UTC offset of iCalendar (`+0900`).
+ */
+function formatUTCOffset(offset: string): string {
+  return offset.replace(/:/g, "");
+}
+
+/**
+ * Returns the latest onset of a VTIMEZONE observance at or before a local time. Yearly weekday rules
+ * (as in almost every VTIMEZONE, often starting in 1601) are only expanded from the year before.
+ */
+function getLatestOnset(recurrence: Recurrence, local: ZonedDateTime): ZonedDateTime | null {
+  const { start, rule } = recurrence;
+  const isUnboundedYearlyWeekdayRule =
+    rule?.freq === "YEARLY" &&
+    (rule.interval ?? 1) === 1 &&
+    rule.count === undefined &&
+    rule.until === undefined &&
+    !!rule.byDay?.length;
+  if (isUnboundedYearlyWeekdayRule && local.year - start.year > 1 && !recurrence.rdates.length) {
+    const shifted = new Recurrence({ start: start.with({ year: local.year - 1 }), rule });
+    return shifted.before(local, true);
+  }
+  return recurrence.before(local, true);
+}
+
+/**
+ * Creates a resolver for a VTIMEZONE block that is not a known time zone: the offset of a local
+ * time is the `TZOFFSETTO` of the latest `STANDARD` or `DAYLIGHT` onset before it. The results
+ * use fixed offsets, so they identify the correct instant but not the original time zone.
+ */
+function createVTimeZoneResolver(text: string, vtimezone: Component): ZoneResolver {
+  const observances = vtimezone.components
+    .filter(({ name }) => name === "STANDARD" || name === "DAYLIGHT")
+    .map((observance) => {
+      const dtstart = getProperty(observance, "DTSTART");
+      const offsetFrom = getProperty(observance, "TZOFFSETFROM");
+      const offsetTo = getProperty(observance, "TZOFFSETTO");
+      const onset = dtstart && parseICalValue(dtstart.value);
+      if (!dtstart || !offsetFrom || !offsetTo || !(onset instanceof Temporal.PlainDateTime)) {
+        throw new InvalidDateFormatError(text, ICS_FORMATS, (dtstart ?? offsetTo ?? offsetFrom)?.position);
+      }
+
+      // Onsets are local times; they are expanded in UTC so that the rule ignores DST
+      const rule = getProperty(observance, "RRULE");
+      const rdates = observance.properties
+        .filter(({ name }) => name === "RDATE")
+        .flatMap(({ value }) => value.split(","))
+        .map((value) => parseICalValue(value))
+        .filter((value): value is PlainDateTime => value instanceof Temporal.PlainDateTime);
+      return {
+        offsetFrom: parseUTCOffset(text, offsetFrom.value, offsetFrom.position),
+        offsetTo: parseUTCOffset(text, offsetTo.value, offsetTo.position),
+        onset,
+        recurrence: new Recurrence({
+          start: onset.toZonedDateTime("UTC"),
+          rule: rule && parseRecurrenceRule(rule.value),
+          rdates: rdates.map((date) => date.toZonedDateTime("UTC")),
+        }),
+      };
+    });
+
+  if (!observances.length) {
+    throw new InvalidDateFormatError(text, ICS_FORMATS, getProperty(vtimezone, "TZID")?.position);
+  }
+
+  return (dateTime) => {
+    const local = dateTime.toZonedDateTime("UTC");
+    let latest: { onset: ZonedDateTime; offset: string } | undefined;
+    for (const observance of observances) {
+      const onset = getLatestOnset(observance.recurrence, local);
+      if (onset && (!latest || Temporal.ZonedDateTime.compare(onset, latest.onset) > 0)) {
+        latest = { onset, offset: observance.offsetTo };
+      }
+    }
+
+    const earliest = [...observances].sort((a, b) => Temporal.PlainDateTime.compare(a.onset, b.onset))[0];
+    return dateTime.toZonedDateTime(latest?.offset ?? earliest.offsetFrom);
+  };
+}
+
+/**
+ * Creates the time zone resolvers for the TZIDs of a calendar. TZIDs that are known time zones
+ * (or whose VTIMEZONE names one with `X-LIC-LOCATION`) use that time zone, so DST is applied correctly.
+ */
+function createZoneResolvers(text: string, calendar: Component): Map<string, ZoneResolver> {
+  const resolvers = new Map<string, ZoneResolver>();
+  for (const vtimezone of calendar.components.filter(({ name }) => name === "VTIMEZONE")) {
+    const tzid = getProperty(vtimezone, "TZID");
+    if (!tzid) {
+      throw new MissingParameterError("VTIMEZONE TZID");
+    }
+    const location = getProperty(vtimezone, "X-LIC-LOCATION")?.value;
+    const timeZone = [tzid.value, location].find((zone): zone is string => !!zone && isKnownTimeZone(zone));
+    resolvers.set(
+      tzid.value,
+      timeZone ? (dateTime) => dateTime.toZonedDateTime(timeZone) : createVTimeZoneResolver(text, vtimezone),
+    );
+  }
+  return resolvers;
+}
+
+/**
+ * Parses the values of a date or date-time property, such as `DTSTART` or `EXDATE`.
+ */
+function parseDateValues(
+  text: string,
+  property: ContentLine,
+  resolvers: Map<string, ZoneResolver>,
+  floatingTimeZone: TimeZone,
+): (ZonedDateTime | PlainDate)[] {
+  const tzid = property.params.TZID;
+  let resolver: ZoneResolver = (dateTime) => dateTime.toZonedDateTime(floatingTimeZone);
+  if (tzid) {
+    // Some producers prefix IANA names with "/" (e.g. "/Europe/Berlin")
+    const knownTimeZone = tzid.replace(/^\//, "");
+    const zoneResolver =
+      resolvers.get(tzid) ??
+      (isKnownTimeZone(knownTimeZone)
+        ? (dateTime: PlainDateTime) => dateTime.toZonedDateTime(knownTimeZone)
+        : undefined);
+    if (!zoneResolver) {
+      throw new InvalidDateFormatError(text, ["IANA time zone", "TZID with a VTIMEZONE block"], property.position);
+    }
+    resolver = zoneResolver;
+  }
+
+  return property.value.split(",").map((item) => {
+    const value = parseICalValue(item);
+    const isDate = property.params.VALUE?.toUpperCase() === "DATE";
+    if (!value || isDate !== value instanceof Temporal.PlainDate) {
+      throw new InvalidDateFormatError(text, ICS_FORMATS, property.position);
+    }
+    return value instanceof Temporal.PlainDateTime ? resolver(value) : value;
+  });
+}
+
+/**
+ * Converts a VEVENT block to an event.
+ */
+function parseEvent(
+  text: string,
+  vevent: Component,
+  resolvers: Map<string, ZoneResolver>,
+  floatingTimeZone: TimeZone,
+): ICSEvent {
+  const dates = (name: string) =>
+    vevent.properties
+      .filter((property) => property.name === name)
+      .flatMap((property) => parseDateValues(text, property, resolvers, floatingTimeZone));
+  const textValue = (name: string) => {
+    const property = getProperty(vevent, name);
+    return property && unescapeText(property.value);
+  };
+
+  const [start] = dates("DTSTART");
+  if (!start) {
+    throw new MissingParameterError("DTSTART");
+  }
+
+  let [end] = dates("DTEND");
+  const duration = getProperty(vevent, "DURATION");
+  if (!end && duration) {
+    try {
+      end = start.add(Temporal.Duration.from(duration.value));
+    } catch {
+      throw new InvalidDateFormatError(text, ICS_FORMATS, duration.position);
+    }
+  }
+
+  const rule = getProperty(vevent, "RRULE");
+  const rdates = dates("RDATE");
+  const exdates = dates("EXDATE");
+  const event: ICSEvent = { uid: textValue("UID"), summary: textValue("SUMMARY") ?? "", start };
+  if (end) event.end = end;
+  if (getProperty(vevent, "DESCRIPTION")) event.description = textValue("DESCRIPTION");
+  if (getProperty(vevent, "LOCATION")) event.location = textValue("LOCATION");
+  if (rule) event.rule = parseRecurrenceRule(rule.value);
+  if (rdates.length) event.rdates = rdates;
+  if (exdates.length) event.exdates = exdates;
+  return event;
+}
+
+/**
+ * Converts the recurrence rule of an all-day event to the fields of a recurring or rule-based holiday.
+ * Returns `null` for rules that `Holiday` cannot express.
+ */
+function ruleToHoliday(
+  rule: RecurrenceRule,
+  start: PlainDate,
+): Omit<Holiday, "name"> | Omit<RuleHoliday, "name"> | null {
+  const unsupported =
+    (rule.interval ?? 1) !== 1 ||
+    rule.byWeekNo?.length ||
+    rule.byYearDay?.length ||
+    rule.bySetPos?.length ||
+    rule.byHour?.length ||
+    rule.byMinute?.length ||
+    rule.bySecond?.length ||
+    (rule.skip ?? "omit") !== "omit" ||
+    (rule.count !== undefined && rule.freq !== "YEARLY");
+  if (unsupported) {
+    return null;
+  }
+
+  const limits: Pick<Holiday, "validFrom" | "validUntil"> = { validFrom: start.year };
+  if (rule.until) {
+    limits.validUntil = rule.until.year;
+  } else if (rule.count !== undefined) {
+    limits.validUntil = start.year + rule.count - 1;
+  }
+
+  const [weekday, ...otherWeekdays] = rule.byDay ?? [];
+  const byMonth = rule.byMonth ?? [];
+  const byMonthDay = rule.byMonthDay ?? [];
+
+  if (rule.freq === "YEARLY" && !weekday) {
+    const sameMonth = !byMonth.length || (byMonth.length === 1 && byMonth[0] === start.month);
+    const sameDay = !byMonthDay.length || (byMonthDay.length === 1 && byMonthDay[0] === start.day);
+    return sameMonth && sameDay ? { date: start.toString(), recurring: true, ...limits } : null;
+  }
+
+  const nth = typeof weekday === "object" ? weekday.nth : 0;
+  const validWeekday = weekday && !otherWeekdays.length && !byMonthDay.length && ((nth >= 1 && nth <= 5) || nth === -1);
+  if (!validWeekday || typeof weekday !== "object") {
+    return null;
+  }
+
+  let month: number | undefined;
+  if (rule.freq === "YEARLY" && byMonth.length === 1) {
+    month = byMonth[0];
+  } else if (rule.freq !== "MONTHLY" || byMonth.length) {
+    return null;
+  }
+
+  return {
+    rule:
+      nth === -1
+        ? { type: "lastWeekday", month, weekday: weekday.weekday }
+        : { type: "nthWeekday", month, weekday: weekday.weekday, n: nth },
+    ...limits,
+  };
+}
+
+/**
+ * Converts an all-day event to holidays. Recurring events become recurring or rule-based holidays
+ * where possible, and are otherwise expanded into one-time holidays when they are finite.
+ */
+function eventToHolidays(event: ICSEvent, observance?: HolidayObservance): HolidayDefinition[] {
+  if (!(event.start instanceof Temporal.PlainDate)) {
+    return [];
+  }
+
+  const start = event.start;
+  const days = event.end instanceof Temporal.PlainDate ? Math.max(start.until(event.end).days, 1) : 1;
+  const withObservance = (holiday: HolidayDefinition): HolidayDefinition => (observance ? { ...holiday, observance } : holiday);
+
+  if (event.rule && days === 1 && !event.rdates && !event.exdates) {
+    const holiday = ruleToHoliday(event.rule, start);
+    if (holiday) {
+      return [withObservance({ name: event.summary, ...holiday })];
+    }
+  }
+
+  let dates: PlainDate[];
+  if (!event.rule) {
+    dates = [start, ...(event.rdates ?? []).map((date) => Temporal.PlainDate.from(date))];
+  } else if (event.rule.count !== undefined || event.rule.until !== undefined) {
+    const recurrence = new Recurrence({
+      start: start.toZonedDateTime({ timeZone: "UTC" }),
+      rule: event.rule,
+      rdates: event.rdates?.map((date) => Temporal.PlainDate.from(date).toZonedDateTime({ timeZone: "UTC" })),
+    });
+    dates = recurrence.all().map((occurrence) => occurrence.toPlainDate());
+  } else {
+    return [];
+  }
+
+  const excluded = new Set((event.exdates ?? []).map((date) => Temporal.PlainDate.from(date).toString()));
+  return dates
+    .filter((date) => !excluded.has(date.toString()))
+    .flatMap((date) => Array.from({ length: days }, (_, index) => date.add({ days: index })))
+    .map((date) => withObservance({ date: date.toString(), name: event.summary }));
+}
+
+/**
+ * Parses an iCalendar (.ics) file into events and holidays.
+ *
+ * Folded lines, escaped text, `TZID` parameters and `VTIMEZONE` blocks are supported. TZIDs that are
+ * IANA time zones (or whose VTIMEZONE names one with `X-LIC-LOCATION`) keep that time zone; other
+ * VTIMEZONE definitions (e.g. Outlook's "Korea Standard Time") are evaluated to find the UTC offset,
+ * and the result uses that fixed offset.
+ *
+ * All-day events are also returned as `holidays`: yearly events become recurring holidays, "nth/last
+ * weekday" rules become rule-based holidays (with `validFrom` set to the year of `DTSTART` and `validUntil`
+ * from `UNTIL` or `COUNT`), multi-day events become one holiday per day, and other finite rules are expanded.
+ * Infinite rules that `Holiday` cannot express are only returned as events.
+ *
+ * @param text - The contents of the .ics file
+ * @param options - The time zone of floating date-times
+ * @returns The calendar name, events and holidays
+ * @throws {InvalidDateFormatError} When the file is malformed or uses an unknown TZID without a VTIMEZONE block. `position` points to the invalid line
+ * @throws {MissingParameterError} When an event has no `DTSTART`
+ *
+ * @example
+ * ```typescript
+ * const { holidays, events } = parseICS(await readFile('company-holidays.ics', 'utf8'));
+ * isWorkday('2024-05-01', holidays);
+ *
+ * parseICS(`BEGIN:VCALENDAR
+ * BEGIN:VEVENT
+ * SUMMARY:창립기념일
+ * DTSTART;VALUE=DATE:20240601
+ * RRULE:FREQ=YEARLY
+ * END:VEVENT
+ * END:VCALENDAR`).holidays;
+ * // [{ date: '2024-06-01', name: '창립기념일', recurring: true, validFrom: 2024 }]
+ * ```
+ */
+export function parseICS(text: string, options: ParseICSOptions = {}): ICSCalendar {
+  const calendars = parseComponents(text).filter(({ name }) => name === "VCALENDAR");
+  if (!calendars.length) {
+    throw new InvalidDateFormatError(text, ICS_FORMATS, 0);
+  }
+
+  const result: ICSCalendar = { events: [], holidays: [] };
+  for (const calendar of calendars) {
+    const name = getProperty(calendar, "X-WR-CALNAME");
+    if (name && result.name === undefined) {
+      result.name = unescapeText(name.value);
+    }
+
+    const floatingTimeZone = options.timeZone ?? getProperty(calendar, "X-WR-TIMEZONE")?.value ?? getDefaultTimeZone();
+    const resolvers = createZoneResolvers(text, calendar);
+    for (const vevent of calendar.components.filter(({ name }) => name === "VEVENT")) {
+      const event = parseEvent(text, vevent, resolvers, floatingTimeZone);
+      const observance = getProperty(vevent, OBSERVANCE_PROPERTY)?.value as HolidayObservance | undefined;
+      result.events.push(event);
+      result.holidays.push(...eventToHolidays(event, OBSERVANCES.find((value) => value === observance)));
+    }
+  }
+  return result;
+}
+
+/**
+ * Determines whether a ZonedDateTime is written in UTC: UTC itself and fixed offsets, which have no TZID.
+ */
+function isUTCValue(value: ZonedDateTime): boolean {
+  return value.timeZoneId === "UTC" || /^[+-]/.test(value.timeZoneId);
+}
+
+/**
+ * Formats a date or date-time property, e.g. `DTSTART;TZID=Asia/Seoul:20240101T090000`.
+ */
+function formatDateProperty(name: string, value: ZonedDateTime | PlainDate): string {
+  if (value instanceof Temporal.PlainDate) {
+    return `${name};VALUE=DATE:${formatICalValue(value)}`;
+  }
+  if (isUTCValue(value)) {
+    return `${name}:${formatICalValue(value)}`;
+  }
+  return `${name};TZID=${value.timeZoneId}:${formatICalValue(value.toPlainDateTime())}`;
+}
+
+/**
+ * Writes the VTIMEZONE block of a time zone, with every transition between two years.
+ */
+function formatVTimeZone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const zone = new Temporal.TimeZone(timeZone);
+  const from = Temporal.PlainDate.from({ year: fromYear, month: 1, day: 1 }).toZonedDateTime({ timeZone });
+  const to = Temporal.PlainDate.from({ year: toYear + 1, month: 1, day: 1 }).toZonedDateTime({ timeZone });
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`, `X-LIC-LOCATION:${timeZone}`];
+  let previous = from;
+  let transition = zone.getNextTransition(from.toInstant());
+  if (!transition || Temporal.Instant.compare(transition, to.toInstant()) >= 0) {
+    const offset = formatUTCOffset(from.offset);
+    lines.push("BEGIN:STANDARD", `DTSTART:${formatICalValue(from.toPlainDateTime())}`);
+    lines.push(`TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, "END:STANDARD");
+  }
+
+  while (transition && Temporal.Instant.compare(transition, to.toInstant()) < 0) {
+    const next = transition.toZonedDateTimeISO(timeZone);
+    // Onsets are written in the local time before the transition
+    const onset = transition.toZonedDateTimeISO(previous.offset).toPlainDateTime();
+    const component = next.offsetNanoseconds > previous.offsetNanoseconds ? "DAYLIGHT" : "STANDARD";
+    lines.push(`BEGIN:${component}`, `DTSTART:${formatICalValue(onset)}`);
+    lines.push(`TZOFFSETFROM:${formatUTCOffset(previous.offset)}`, `TZOFFSETTO:${formatUTCOffset(next.offset)}`);
+    lines.push(`END:${component}`);
+    previous = next;
+    transition = zone.getNextTransition(transition);
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+/**
+ * Writes a VEVENT block.
+ */
+function formatEvent(event: ICSEvent, uid: string, timestamp: string, extraLines: string[] = []): string[] {
+  const lines = ["BEGIN:VEVENT", `UID:${escapeText(uid)}`, `DTSTAMP:${timestamp}`];
+  lines.push(formatDateProperty("DTSTART", event.start));
+  if (event.end) {
+    lines.push(formatDateProperty("DTEND", event.end));
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description !== undefined) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location !== undefined) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.rule) {
+    // UNTIL must be in UTC when DTSTART has a time zone (RFC 5545 section 3.3.10)
+    const { start } = event;
+    const until =
+      event.rule.until instanceof Temporal.PlainDateTime && start instanceof Temporal.ZonedDateTime
+        ? event.rule.until.toZonedDateTime(start.timeZoneId)
+        : event.rule.until;
+    lines.push(`RRULE:${formatRecurrenceRule({ ...event.rule, until })}`);
+  }
+  for (const date of event.rdates ?? []) {
+    lines.push(formatDateProperty("RDATE", date));
+  }
+  for (const date of event.exdates ?? []) {
+    lines.push(formatDateProperty("EXDATE", date));
+  }
+  lines.push(...extraLines, "END:VEVENT");
+  return lines;
+}
+
+/**
+ * Writes a VCALENDAR with folded lines and CRLF line breaks.
+ */
+function formatCalendar(options: ICSOptions, blocks: string[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${options.productId ?? DEFAULT_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (options.calendarName !== undefined) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  lines.push(...blocks, "END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * Returns the `DTSTAMP` value of the events.
+ */
+function getTimestamp(options: ICSOptions): string {
+  return formatICalValue((options.timestamp ?? getNowUTC()).withTimeZone("UTC"));
+}
+
+/**
+ * Converts a holiday to an all-day event. Returns `null` when the holiday has no occurrence in range.
+ */
+function holidayToEvent(holiday: HolidayDefinition, options: ICSOptions): ICSEvent | null {
+  if (!isRuleHoliday(holiday) && !holiday.date) {
+    throw new MissingParameterError("holiday.date");
+  }
+
+  const { validFrom, validUntil } = holiday;
+  const rule = isRuleHoliday(holiday) ? holiday.rule : undefined;
+  const until =
+    validUntil !== undefined ? Temporal.PlainDate.from({ year: validUntil, month: 12, day: 31 }) : undefined;
+  const allDayEvent = (start: PlainDate, fields: Partial<ICSEvent> = {}): ICSEvent => ({
+    summary: holiday.name,
+    start,
+    end: start.add({ days: 1 }),
+    ...fields,
+  });
+
+  if (!isRuleHoliday(holiday) && !holiday.recurring) {
+    return allDayEvent(Temporal.PlainDate.from(holiday.date));
+  }
+
+  const defaultStartYear = options.startYear ?? getNow().year;
+  const startYear =
+    validFrom ?? (isRuleHoliday(holiday) ? defaultStartYear : Temporal.PlainDate.from(holiday.date).year);
+  const lastYear = validUntil ?? options.endYear ?? defaultStartYear + 10;
+  const dates: PlainDate[] = [];
+  // Find the first occurrence (at least one in every 8 years, for February 29)
+  for (let year = startYear; year <= Math.min(lastYear, startYear + 8) && !dates.length; year++) {
+    dates.push(...getHolidayDatesInYear(holiday, year));
+  }
+  if (!dates.length) {
+    return null;
+  }
+
+  if (!rule) {
+    return allDayEvent(dates[0], { rule: { freq: "YEARLY", until } });
+  }
+
+  if (rule.type === "easter") {
+    // Easter cannot be expressed as an RRULE, so the dates are listed
+    for (let year = dates[0].year + 1; year <= lastYear; year++) {
+      dates.push(...getHolidayDatesInYear(holiday, year));
+    }
+    const [start, ...rdates] = dates;
+    return allDayEvent(start, rdates.length ? { rdates } : {});
+  }
+
+  return allDayEvent(dates[0], {
+    rule: {
+      freq: rule.month ? "YEARLY" : "MONTHLY",
+      until,
+      byMonth: rule.month ? [rule.month] : undefined,
+      byDay: [{ weekday: rule.weekday, nth: rule.type === "lastWeekday" ? -1 : rule.n }],
+    },
+  });
+}
+
+/**
+ * Exports holidays as an iCalendar (.ics) file that calendar apps (Google Calendar, Outlook, Apple Calendar)
+ * can import or subscribe to.
+ *
+ * Each holiday becomes an all-day event:
+ * - One-time holidays are single events
+ * - Recurring holidays are yearly events (`RRULE:FREQ=YEARLY`), starting in the year of `date` or `validFrom`
+ * - "nth/last weekday" rules become `RRULE`s such as `FREQ=YEARLY;BYMONTH=11;BYDAY=4TH`, starting in
+ *   `validFrom` or `options.startYear`
+ * - Easter-based rules cannot be expressed as an `RRULE`, so their dates up to `validUntil` or `options.endYear`
+ *   are listed with `RDATE`
+ *
+ * `validUntil` becomes `UNTIL`, and `observance` is kept in a non-standard `X-IL-GAEMI-OBSERVANCE`
+ * property that calendar apps ignore and `parseICS` reads back.
+ *
+ * @param holidays - The holidays to export
+ * @param options - Calendar name, product id, time stamp and the year range of rule-based holidays
+ * @returns The .ics text, with CRLF line breaks and lines folded at 75 octets
+ * @throws {MissingParameterError} When a holiday has neither a `date` nor a `rule`
+ *
+ * @example
+ * ```typescript
+ * const ics = holidaysToICS(
+ *   [
+ *     ...getKoreanHolidays(2024),
+ *     { date: '2024-06-01', name: '창립기념일', recurring: true },
+ *     { name: '전사 휴무일', rule: { type: 'lastWeekday', month: 12, weekday: 5 } },
+ *   ],
+ *   { calendarName: '회사 휴일' },
+ * );
+ * await writeFile('company-holidays.ics', ics);
+ *
+ * // Round trip
+ * parseICS(ics).holidays;
+ * ```
+ */
+export function holidaysToICS(holidays: HolidayDefinition[], options: ICSOptions = {}): string {
+  const timestamp = getTimestamp(options);
+  const blocks = holidays.flatMap((holiday, index) => {
+    const event = holidayToEvent(holiday, options);
+    if (!event) {
+      return [];
+    }
+    const uid = `${formatICalValue(event.start as PlainDate)}-${index}@il-gaemi`;
+    const extraLines = ["TRANSP:TRANSPARENT"];
+    if (holiday.observance && holiday.observance !== "none") {
+      extraLines.push(`${OBSERVANCE_PROPERTY}:${holiday.observance}`);
+    }
+    return formatEvent(event, uid, timestamp, extraLines);
+  });
+  return formatCalendar(options, blocks);
+}
+
+/**
+ * Exports events as an iCalendar (.ics) file.
+ *
+ * Date-times in a named time zone are written with `TZID`, together with a `VTIMEZONE` block that lists
+ * the DST transitions of the years the events cover (up to `options.endYear` for infinite rules), so
+ * clients without a time zone database (e.g. Outlook) show the correct times. UTC values and fixed offsets
+ * are written in UTC (`...Z`).
+ *
+ * @param events - The events to export
+ * @param options - Calendar name, product id, time stamp and the last year of VTIMEZONE transitions
+ * @returns The .ics text, with CRLF line breaks and lines folded at 75 octets
+ * @throws {IncompatibleOperationError} When the start and end of an event are of different types
+ *
+ * @example
+ * ```typescript
+ * eventsToICS([
+ *   {
+ *     summary: 'Weekly sync',
+ *     start: Temporal.ZonedDateTime.from('2024-01-08T10:00:00-05:00[America/New_York]'),
+ *     end: Temporal.ZonedDateTime.from('2024-01-08T11:00:00-05:00[America/New_York]'),
+ *     rule: { freq: 'WEEKLY', count: 10 },
+ *   },
+ * ]);
+ * // BEGIN:VCALENDAR ... BEGIN:VTIMEZONE TZID:America/New_York ...
+ * // DTSTART;TZID=America/New_York:20240108T100000 ... RRULE:FREQ=WEEKLY;COUNT=10 ...
+ * ```
+ */
+export function eventsToICS(events: ICSEvent[], options: ICSOptions = {}): string {
+  const timestamp = getTimestamp(options);
+  const zoneYears = new Map<string, { from: number; to: number }>();
+  const addYear = (timeZone: string, year: number) => {
+    const range = zoneYears.get(timeZone);
+    zoneYears.set(timeZone, { from: Math.min(range?.from ?? year, year), to: Math.max(range?.to ?? year, year) });
+  };
+
+  for (const event of events) {
+    if (event.end && event.end instanceof Temporal.PlainDate !== event.start instanceof Temporal.PlainDate) {
+      throw new IncompatibleOperationError("exporting an event", "start and end must both be dates or date-times");
+    }
+
+    const values = [event.start, event.end, ...(event.rdates ?? []), ...(event.exdates ?? [])];
+    for (const value of values) {
+      if (value instanceof Temporal.ZonedDateTime && !isUTCValue(value)) {
+        addYear(value.timeZoneId, value.year);
+      }
+    }
+
+    const { start, rule } = event;
+    if (start instanceof Temporal.ZonedDateTime && !isUTCValue(start) && rule) {
+      const lastYear = rule.until
+        ? rule.until.year
+        : rule.count !== undefined
+        ? new Recurrence({ start, rule }).all().at(-1)?.year ?? start.year
+        : options.endYear ?? (options.startYear ?? getNow().year) + 10;
+      addYear(start.timeZoneId, lastYear);
+    }
+  }
+
+  const timeZones = [...zoneYears].flatMap(([timeZone, { from, to }]) => formatVTimeZone(timeZone, from, to));
+  const blocks = events.flatMap((event, index) => {
+    const start = event.start instanceof Temporal.PlainDate ? event.start : event.start.withTimeZone("UTC");
+    return formatEvent(event, event.uid ?? `${formatICalValue(start)}-${index}@il-gaemi`, timestamp);
+  });
+  return formatCalendar(options, [...timeZones, ...blocks]);
+}
@@ -44,9 +44,25 @@
  * The library is organized into several modules:
  *
  * - **Date Module**: Business day calculations and week number utilities
- * - **Format Module**: Date/time formatting with multiple output styles
- * - **Timezone Module**: Timezone conversion and management utilities
- * - **Transform Module**: Tranform to Date Object, ZonedDateTime, PlainDate, PlainDateTime
+ * - **Calendar Module**: `BusinessCalendar` with pre-indexed holidays for fast repeated lookups
+ * - **Interval Module**: `Interval` ranges with containment, set operations, splitting and workday iteration
+ * - **Recurrence Module**: RFC 5545 recurrence rules (RRULE) with timezone-correct expansion and workday rolling
+ * - **ICS Module**: iCalendar (.ics) import and export for holidays and events
+ * - **Cron Module**: Cron expression evaluation with time zones, DST rules and workday filtering
+ * - **JSON Module**: JSON serialization and revival of Temporal values, tagged or schema-driven
+ * - **NestJS Module** (`@zwoninstitute/il-gaemi/nest`): Validation decorators, `ParseTemporalPipe` and class-transformer helpers for Temporal request input
+ * - **Business Hours Module**: Working hours with breaks, SLA deadlines and elapsed business time
+ * - **Lunar Module**: Solar ↔ Korean lunar (음력) calendar conversion with leap month support
+ * - **Holiday Module**: Built-in public holiday calendars (Korean holidays including lunar and substitute holidays)
+ * - **Format Module**: Date/time formatting with multiple output styles, parsing and durations
+ * - **Locale Module**: Locale registry (ko, en, ja) for names, meridiems and relative time phrases
+ * - **Timezone Module**: Timezone conversion and management utilities, offset transitions, abbreviations and display names
+ * - **Clock Module**: Replaceable clock for the current time, with fixed and advancing clocks for tests
+ *   (async-scoped clocks are in the `/async` entry point)
+ * - **Instance Module**: `createIlgaemi` instances with their own time zone, holidays, days off, locale and clock
+ * - **Fiscal Module**: Fiscal years, quarters, periods and weeks, month-based or 52/53-week (4-4-5) calendars
+ * - **Meeting Module**: `findCommonSlots` meeting planner across time zones, local holidays and core hours
+ * - **Transform Module**: Tranform to Date Object, ZonedDateTime, PlainDate, PlainDateTime and TypeORM column transformers
  * - **Types Module**: TypeScript type definitions and interfaces
  *
  * @example
@@ -66,7 +82,70 @@
 export * from "./types";
 
 // Date calculation functions - Business day logic and week calculations
-export { isWorkday, getWeekDay, getWeekNum, getNextWorkday, getPreviousWorkday } from "./date";
+export {
+  isWorkday,
+  getWeekDay,
+  getWeekNum,
+  getNextWorkday,
+  getPreviousWorkday,
+  addWorkdays,
+  subtractWorkdays,
+  countWorkdays,
+  listWorkdays,
+} from "./date";
+
+// Business calendar - Indexed holiday lookup for repeated business day calculations
+export { BusinessCalendar, createBusinessCalendar } from "./calendar";
+
+// Intervals - Date and date-time ranges with set operations and lazy iteration
+export { Interval, createInterval } from "./interval";
+
+// Business hours functions - Time-of-day aware business calculations with breaks and timezones
+export {
+  isWithinBusinessHours,
+  nextBusinessOpen,
+  addBusinessHours,
+  addBusinessMinutes,
+  businessTimeBetween,
+} from "./hours";
+
+// Recurrence - RFC 5545 recurrence rules with EXDATE/RDATE and workday adjustment
+export { Recurrence, createRecurrence, parseRecurrenceRule, formatRecurrenceRule } from "./recurrence";
+
+// iCalendar - Import and export .ics files for holidays and events
+export { holidaysToICS, eventsToICS, parseICS } from "./ics";
+
+// Cron - Evaluate cron expressions in a time zone
+export { CronExpression, createCron, parseCron } from "./cron";
+
+// JSON - Serialize and revive Temporal values
+export { temporalReplacer, temporalReviver, serialize, deserialize, reviveTemporal } from "./json";
+
+// Clock - Control the current time used by the library
+export { SYSTEM_CLOCK, FixedClock, getClock, setClock, useFixedClock, advanceClock } from "./clock";
+
+// Instances - Library instances with their own time zone, holidays, locale and clock
+export { createIlgaemi } from "./instance";
+
+// Meeting planning - Common working slots across time zones
+export { findCommonSlots } from "./meeting";
+
+// Fiscal calendar - Fiscal years, quarters and 4-4-5 periods
+export {
+  getFiscalYear,
+  getFiscalQuarter,
+  getFiscalPeriod,
+  getFiscalWeek,
+  getFiscalYearRange,
+  getFiscalQuarterRange,
+  getFiscalPeriodRange,
+} from "./fiscal";
+
+// Holiday providers - Built-in public holiday calendars
+export { getKoreanHolidays, getKoreanHolidaysBetween } from "./holiday";
+
+// Lunar calendar functions - Convert between solar and Korean lunar (음력) dates
+export { toLunar, fromLunar, getLunarLeapMonth, getLunarMonthDays } from "./lunar";
 
 // Timezone handling functions - Convert between timezones and get current times
 export {
@@ -82,10 +161,22 @@ export {
   getDateTime,
   getDateTimeUTC,
   getTime,
+  isSkippedLocalTime,
+  isAmbiguousLocalTime,
+  getOffsetString,
+  getNextTransition,
+  getPreviousTransition,
+  listTransitions,
+  getTimeZoneAbbreviation,
+  resolveTimeZoneAbbreviation,
+  listTimeZones,
 } from "./timezone";
 
-// Formatting functions - Convert dates to various string representations
-export { format, formatKorean, formatRelative } from "./format";
+// Formatting and parsing functions - Convert dates to and from string representations
+export { format, formatDuration, formatKorean, formatLong, formatRelative, parse, parseDuration } from "./format";
+
+// Locale functions - Register and select locales for human-facing output
+export { registerLocale, getLocale, setDefaultLocale, getDefaultLocale } from "./locale";
 
 // TypeORM integration functions and transformers
 export {
@@ -94,6 +185,17 @@ export {
   dateToZonedDateTime,
   dateToPlainDate,
   dateToPlainDateTime,
+  // Column transformers
+  createPlainDateTransformer,
+  createPlainDateTimeTransformer,
+  createZonedDateTimeTransformer,
+  createInstantTransformer,
+  createPlainTimeTransformer,
+  PlainDateTransformer,
+  PlainDateTimeTransformer,
+  ZonedDateTimeTransformer,
+  InstantTransformer,
+  PlainTimeTransformer,
 } from "./transform";
 
 // Error classes - Custom error types for better error handling
@@ -104,6 +206,10 @@ export {
   UnsupportedFormatTypeError,
   MissingParameterError,
   IncompatibleOperationError,
+  OutOfRangeError,
+  UnsupportedLocaleError,
+  InvalidLocalTimeError,
+  AmbiguousTimeZoneAbbreviationError,
 } from "./errors";
 
 // Re-export Temporal polyfill for convenience
@@ -0,0 +1,195 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { Ilgaemi, IlgaemiConfig } from "../types";
+import { runWithConfig } from "../config";
+import { getLocale } from "../locale";
+import { resolveFiscalCalendar } from "../fiscal";
+import * as date from "../date";
+import * as calendar from "../calendar";
+import * as interval from "../interval";
+import * as fiscal from "../fiscal";
+import * as hours from "../hours";
+import * as meeting from "../meeting";
+import * as recurrence from "../recurrence";
+import * as ics from "../ics";
+import * as cron from "../cron";
+import * as json from "../json";
+import * as holiday from "../holiday";
+import * as lunar from "../lunar";
+import * as timezone from "../timezone";
+import * as format from "../format";
+import * as transform from "../transform";
+
+/**
+ * Returns a function running `fn` with the configuration providing the defaults. `this` is passed through,
+ * so replacers and revivers keep working.
+ */
+function bindToConfig<F extends (...args: never[]) => unknown>(config: IlgaemiConfig, fn: F): F {
+  const bound = function (this: unknown, ...args: never[]): unknown {
+    return runWithConfig(config, () => fn.apply(this, args));
+  };
+  return bound as unknown as F;
+}
+
+/**
+ * Creates a library instance with its own time zone, holidays, days off, locale, clock and fiscal calendar.
+ *
+ * The top-level exports are the default instance: Asia/Seoul, no holidays, Saturday and Sunday off, the
+ * global default locale and the active clock. An instance has the same functions with the configured
+ * defaults, so services in other regions don't need to pass a time zone or holiday list to every call.
+ * Arguments passed explicitly still take precedence over the configuration.
+ *
+ * Objects created by an instance keep its defaults when they are used later: a `Recurrence` from
+ * `createRecurrence` or `parseICS` rolls onto the workdays of the instance, an `Interval` from
+ * `createInterval` or `getFiscalYearRange` counts them. Create `BusinessCalendar`, `Interval`, `Recurrence`
+ * and `CronExpression` objects with the instance factories (`createBusinessCalendar`, `createInterval`,
+ * `createRecurrence`, `createCron`); classes constructed directly use the top-level defaults.
+ *
+ * @param config - The instance configuration. Omitted settings keep the top-level defaults
+ * @returns The library instance
+ * @throws {RangeError} When the time zone is not a valid IANA time zone identifier or UTC offset
+ * @throws {UnsupportedLocaleError} When the locale code is not registered
+ * @throws {OutOfRangeError} When the start month or the week start of the fiscal calendar is out of range
+ *
+ * @example
+ * ```typescript
+ * const sg = createIlgaemi({
+ *   timeZone: 'Asia/Singapore',
+ *   holidays: [{ date: '2024-08-09', name: 'National Day', recurring: true }],
+ *   locale: 'en',
+ * });
+ *
+ * sg.getNow().timeZoneId; // "Asia/Singapore"
+ * sg.getDate(2024, 1, 15).toString(); // "2024-01-15T00:00:00+08:00[Asia/Singapore]"
+ * sg.isWorkday('2024-08-09'); // false
+ * sg.formatRelative(sg.getNow().subtract({ days: 3 })); // "3 days ago"
+ *
+ * // Objects keep the instance defaults
+ * const payday = sg.createRecurrence({
+ *   start: '2024-08-09T10:00:00',
+ *   rule: 'FREQ=MONTHLY',
+ *   adjustment: { roll: 'next' },
+ * });
+ * payday.all(1)[0].toString(); // "2024-08-12T10:00:00+08:00[Asia/Singapore]"
+ * sg.createInterval('2024-08-01', '2024-09-01').countWorkdays(); // 21
+ *
+ * // US service with a frozen clock in tests
+ * const us = createIlgaemi({ timeZone: 'America/New_York', clock: new FixedClock('2024-01-15T14:00:00Z') });
+ * us.getNow().toString(); // "2024-01-15T09:00:00-05:00[America/New_York]"
+ *
+ * class Invoice {
+ *   @Column({ type: 'date', transformer: us.PlainDateTransformer })
+ *   dueDate: PlainDate;
+ * }
+ * ```
+ */
+export function createIlgaemi(config: IlgaemiConfig = {}): Ilgaemi {
+  if (config.timeZone !== undefined) {
+    Temporal.TimeZone.from(config.timeZone);
+  }
+  if (typeof config.locale === "string") {
+    getLocale(config.locale);
+  }
+  if (config.fiscalCalendar !== undefined) {
+    resolveFiscalCalendar(config.fiscalCalendar);
+  }
+  const frozen: Readonly<IlgaemiConfig> = Object.freeze({ ...config });
+  const bind = <F extends (...args: never[]) => unknown>(fn: F): F => bindToConfig(frozen, fn);
+
+  return {
+    config: frozen,
+
+    isWorkday: bind(date.isWorkday),
+    getWeekDay: bind(date.getWeekDay),
+    getWeekNum: bind(date.getWeekNum),
+    getNextWorkday: bind(date.getNextWorkday),
+    getPreviousWorkday: bind(date.getPreviousWorkday),
+    addWorkdays: bind(date.addWorkdays),
+    subtractWorkdays: bind(date.subtractWorkdays),
+    countWorkdays: bind(date.countWorkdays),
+    listWorkdays: bind(date.listWorkdays),
+    createBusinessCalendar: bind(calendar.createBusinessCalendar),
+    createInterval: bind(interval.createInterval),
+
+    getFiscalYear: bind(fiscal.getFiscalYear),
+    getFiscalQuarter: bind(fiscal.getFiscalQuarter),
+    getFiscalPeriod: bind(fiscal.getFiscalPeriod),
+    getFiscalWeek: bind(fiscal.getFiscalWeek),
+    getFiscalYearRange: bind(fiscal.getFiscalYearRange),
+    getFiscalQuarterRange: bind(fiscal.getFiscalQuarterRange),
+    getFiscalPeriodRange: bind(fiscal.getFiscalPeriodRange),
+
+    isWithinBusinessHours: bind(hours.isWithinBusinessHours),
+    nextBusinessOpen: bind(hours.nextBusinessOpen),
+    addBusinessHours: bind(hours.addBusinessHours),
+    addBusinessMinutes: bind(hours.addBusinessMinutes),
+    businessTimeBetween: bind(hours.businessTimeBetween),
+
+    findCommonSlots: bind(meeting.findCommonSlots),
+
+    createRecurrence: bind(recurrence.createRecurrence),
+    parseRecurrenceRule: bind(recurrence.parseRecurrenceRule),
+    formatRecurrenceRule: bind(recurrence.formatRecurrenceRule),
+    holidaysToICS: bind(ics.holidaysToICS),
+    eventsToICS: bind(ics.eventsToICS),
+    parseICS: bind(ics.parseICS),
+    createCron: bind(cron.createCron),
+    parseCron: bind(cron.parseCron),
+
+    temporalReplacer: bind(json.temporalReplacer),
+    temporalReviver: bind(json.temporalReviver),
+    serialize: bind(json.serialize),
+    deserialize: bind(json.deserialize),
+    reviveTemporal: bind(json.reviveTemporal),
+
+    getKoreanHolidays: bind(holiday.getKoreanHolidays),
+    getKoreanHolidaysBetween: bind(holiday.getKoreanHolidaysBetween),
+    toLunar: bind(lunar.toLunar),
+    fromLunar: bind(lunar.fromLunar),
+    getLunarLeapMonth: bind(lunar.getLunarLeapMonth),
+    getLunarMonthDays: bind(lunar.getLunarMonthDays),
+
+    getNow: bind(timezone.getNow),
+    getNowUTC: bind(timezone.getNowUTC),
+    convertToZonedDateTime: bind(timezone.convertToZonedDateTime),
+    toUTC: bind(timezone.toUTC),
+    fromUTC: bind(timezone.fromUTC),
+    getTimeZoneOffset: bind(timezone.getTimeZoneOffset),
+    getDate: bind(timezone.getDate),
+    getDateUTC: bind(timezone.getDateUTC),
+    getDateTime: bind(timezone.getDateTime),
+    getDateTimeUTC: bind(timezone.getDateTimeUTC),
+    getTime: bind(timezone.getTime),
+    isSkippedLocalTime: bind(timezone.isSkippedLocalTime),
+    isAmbiguousLocalTime: bind(timezone.isAmbiguousLocalTime),
+    getOffsetString: bind(timezone.getOffsetString),
+    getNextTransition: bind(timezone.getNextTransition),
+    getPreviousTransition: bind(timezone.getPreviousTransition),
+    listTransitions: bind(timezone.listTransitions),
+    getTimeZoneAbbreviation: bind(timezone.getTimeZoneAbbreviation),
+    resolveTimeZoneAbbreviation: bind(timezone.resolveTimeZoneAbbreviation),
+    listTimeZones: bind(timezone.listTimeZones),
+
+    format: bind(format.format),
+    formatDuration: bind(format.formatDuration),
+    formatKorean: bind(format.formatKorean),
+    formatLong: bind(format.formatLong),
+    formatRelative: bind(format.formatRelative),
+    parse: bind(format.parse),
+    parseDuration: bind(format.parseDuration),
+
+    temporalToDate: bind(transform.temporalToDate),
+    dateToZonedDateTime: bind(transform.dateToZonedDateTime),
+    dateToPlainDate: bind(transform.dateToPlainDate),
+    dateToPlainDateTime: bind(transform.dateToPlainDateTime),
+    createPlainDateTransformer: bind(transform.createPlainDateTransformer),
+    createPlainDateTimeTransformer: bind(transform.createPlainDateTimeTransformer),
+    createZonedDateTimeTransformer: bind(transform.createZonedDateTimeTransformer),
+    createInstantTransformer: bind(transform.createInstantTransformer),
+    createPlainTimeTransformer: bind(transform.createPlainTimeTransformer),
+    PlainDateTransformer: runWithConfig(frozen, () => transform.createPlainDateTransformer()),
+    PlainDateTimeTransformer: runWithConfig(frozen, () => transform.createPlainDateTimeTransformer()),
+    ZonedDateTimeTransformer: runWithConfig(frozen, () => transform.createZonedDateTimeTransformer()),
+    InstantTransformer: transform.InstantTransformer,
+    PlainTimeTransformer: transform.PlainTimeTransformer,
+  };
+}
@@ -0,0 +1,645 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type {
+  HolidayDefinition,
+  IntervalBounds,
+  IntervalUnit,
+  IntervalWeek,
+  PlainDate,
+  WeekDay,
+  ZonedDateTime,
+} from "../types";
+import { BusinessCalendar } from "../calendar";
+import { getDefaultDayOffWeekdays, getDefaultHolidays } from "../config";
+import { getWeekNum } from "../date";
+import { IncompatibleOperationError, InvalidDateFormatError } from "../errors";
+
+/**
+ * One end of an interval and whether it is part of the interval.
+ */
+interface Endpoint<T> {
+  value: T;
+  inclusive: boolean;
+}
+
+/**
+ * Compares two endpoint values of the same type.
+ */
+function compareValues<T extends PlainDate | ZonedDateTime>(a: T, b: T): number {
+  return a instanceof Temporal.PlainDate
+    ? Temporal.PlainDate.compare(a, b as PlainDate)
+    : Temporal.ZonedDateTime.compare(a as ZonedDateTime, b as ZonedDateTime);
+}
+
+/**
+ * Returns the more restrictive of two lower endpoints.
+ */
+function maxLower<T extends PlainDate | ZonedDateTime>(a: Endpoint<T>, b: Endpoint<T>): Endpoint<T> {
+  const comparison = compareValues(a.value, b.value);
+  return comparison === 0 ? { value: a.value, inclusive: a.inclusive && b.inclusive } : comparison > 0 ? a : b;
+}
+
+/**
+ * Returns the less restrictive of two lower endpoints.
+ */
+function minLower<T extends PlainDate | ZonedDateTime>(a: Endpoint<T>, b: Endpoint<T>): Endpoint<T> {
+  const comparison = compareValues(a.value, b.value);
+  return comparison === 0 ? { value: a.value, inclusive: a.inclusive || b.inclusive } : comparison < 0 ? a : b;
+}
+
+/**
+ * Returns the more restrictive of two upper endpoints.
+ */
+function minUpper<T extends PlainDate | ZonedDateTime>(a: Endpoint<T>, b: Endpoint<T>): Endpoint<T> {
+  const comparison = compareValues(a.value, b.value);
+  return comparison === 0 ? { value: a.value, inclusive: a.inclusive && b.inclusive } : comparison < 0 ? a : b;
+}
+
+/**
+ * Returns the less restrictive of two upper endpoints.
+ */
+function maxUpper<T extends PlainDate | ZonedDateTime>(a: Endpoint<T>, b: Endpoint<T>): Endpoint<T> {
+  const comparison = compareValues(a.value, b.value);
+  return comparison === 0 ? { value: a.value, inclusive: a.inclusive || b.inclusive } : comparison > 0 ? a : b;
+}
+
+/**
+ * Determines whether the range between two endpoints contains no value.
+ */
+function isEmptyRange<T extends PlainDate | ZonedDateTime>(lower: Endpoint<T>, upper: Endpoint<T>): boolean {
+  const comparison = compareValues(lower.value, upper.value);
+  return comparison > 0 || (comparison === 0 && !(lower.inclusive && upper.inclusive));
+}
+
+/**
+ * Orders lower endpoints: a negative result means `a` admits more values at the start than `b`.
+ */
+function compareLowerEndpoints<T extends PlainDate | ZonedDateTime>(a: Endpoint<T>, b: Endpoint<T>): number {
+  const comparison = compareValues(a.value, b.value);
+  return comparison !== 0 ? comparison : a.inclusive === b.inclusive ? 0 : a.inclusive ? -1 : 1;
+}
+
+/**
+ * Orders upper endpoints: a negative result means `a` admits fewer values at the end than `b`.
+ */
+function compareUpperEndpoints<T extends PlainDate | ZonedDateTime>(a: Endpoint<T>, b: Endpoint<T>): number {
+  const comparison = compareValues(a.value, b.value);
+  return comparison !== 0 ? comparison : a.inclusive === b.inclusive ? 0 : a.inclusive ? 1 : -1;
+}
+
+/**
+ * Returns the start of the next day, week (Monday) or month after a value.
+ */
+function nextBoundary<T extends PlainDate | ZonedDateTime>(value: T, unit: IntervalUnit): T {
+  const date = value instanceof Temporal.PlainDate ? value : (value as ZonedDateTime).toPlainDate();
+  const next =
+    unit === "day"
+      ? date.add({ days: 1 })
+      : unit === "week"
+      ? date.add({ days: 8 - date.dayOfWeek })
+      : date.with({ day: 1 }).add({ months: 1 });
+
+  return (value instanceof Temporal.PlainDate ? next : next.toZonedDateTime({ timeZone: value.timeZoneId })) as T;
+}
+
+/**
+ * Parses an endpoint given as a string. Strings with a time zone annotation become ZonedDateTime values,
+ * date-only strings PlainDate values. Other date-times are rejected rather than truncated to their date.
+ */
+function parseEndpoint(value: string): PlainDate | ZonedDateTime {
+  if (/\[.+\]$/.test(value)) {
+    return Temporal.ZonedDateTime.from(value);
+  }
+  if (/^[+-]?\d{4,6}-?\d{2}-?\d{2}$/.test(value)) {
+    return Temporal.PlainDate.from(value);
+  }
+  throw new InvalidDateFormatError(value, ["YYYY-MM-DD", "ISO 8601 date-time with a time zone annotation"]);
+}
+
+/**
+ * An interval of time between two dates or two zoned date-times, half-open (`[start, end)`) by default.
+ *
+ * Intervals are immutable. Set operations (`intersect`, `union`, `subtract`) return new intervals,
+ * and iteration (`days`, `workdays`, `iterate`) is lazy, so very long intervals are cheap to walk
+ * partially.
+ *
+ * `PlainDate` intervals are discrete: `[2024-01-01, 2024-01-31]` and `[2024-01-01, 2024-02-01)` contain
+ * the same days, `[2024-01-01, 2024-01-10]` and `[2024-01-11, 2024-01-20]` are adjacent, and results of
+ * operations use the bounds of the interval they were called on. `ZonedDateTime` intervals are continuous
+ * and results keep the bounds of the endpoints they came from.
+ *
+ * @example
+ * ```typescript
+ * const january = Interval.from('2024-01-01', '2024-02-01'); // [2024-01-01, 2024-02-01)
+ * const vacation = Interval.from('2024-01-15', '2024-01-19', '[]');
+ *
+ * january.contains('2024-01-31'); // true
+ * january.contains('2024-02-01'); // false
+ * january.overlaps(vacation); // true
+ * january.subtract(vacation); // [[2024-01-01, 2024-01-15), [2024-01-20, 2024-02-01)]
+ *
+ * // Iterate lazily, e.g. only the workdays of the range
+ * for (const date of january.workdays(getKoreanHolidays(2024))) {
+ *   console.log(date.toString());
+ * }
+ *
+ * // Meetings as zoned intervals
+ * const meeting = Interval.from('2024-01-15T10:00+09:00[Asia/Seoul]', '2024-01-15T11:00+09:00[Asia/Seoul]');
+ * const lunch = Interval.from('2024-01-15T10:30+09:00[Asia/Seoul]', '2024-01-15T12:00+09:00[Asia/Seoul]');
+ * meeting.intersect(lunch)?.toString(); // "[2024-01-15T10:30:00+09:00[Asia/Seoul], 2024-01-15T11:00:00+09:00[Asia/Seoul])"
+ * ```
+ */
+export class Interval<T extends PlainDate | ZonedDateTime> implements Iterable<PlainDate> {
+  /** The start of the interval */
+  readonly start: T;
+  /** The end of the interval */
+  readonly end: T;
+  /** Whether the start (`[` or `(`) and the end (`]` or `)`) are part of the interval */
+  readonly bounds: IntervalBounds;
+
+  /** The holidays used by `workdays` and `countWorkdays` when none are passed */
+  private holidayList: HolidayDefinition[];
+  /** The days off used by `workdays` and `countWorkdays` when none are passed */
+  private dayOffWeekdays: WeekDay[];
+
+  /**
+   * Creates an interval.
+   *
+   * The default holidays and days off of `workdays` and `countWorkdays` are taken from the configuration
+   * the interval is created with, e.g. by `createInterval` or `getFiscalYearRange` of a `createIlgaemi`
+   * instance, and passed on to the intervals that set operations and splitting return.
+   *
+   * @param start - The start of the interval
+   * @param end - The end of the interval. Must not be before `start`
+   * @param bounds - Whether the endpoints are included. Defaults to `"[)"` (start included, end excluded)
+   * @throws {IncompatibleOperationError} When the endpoints have different types or `end` is before `start`
+   */
+  constructor(start: T, end: T, bounds: IntervalBounds = "[)") {
+    if (start instanceof Temporal.PlainDate !== end instanceof Temporal.PlainDate) {
+      throw new IncompatibleOperationError(
+        "creating an interval",
+        "start and end must both be PlainDate or both be ZonedDateTime values",
+      );
+    }
+    if (compareValues(start, end) > 0) {
+      throw new IncompatibleOperationError("creating an interval", `the end ${end} is before the start ${start}`);
+    }
+
+    this.start = start;
+    this.end = end;
+    this.bounds = bounds;
+    this.holidayList = getDefaultHolidays();
+    this.dayOffWeekdays = getDefaultDayOffWeekdays();
+  }
+
+  /**
+   * Creates an interval from Temporal values or ISO strings.
+   *
+   * Strings with a time zone annotation (e.g., `2024-01-15T09:00+09:00[Asia/Seoul]`) are parsed as
+   * ZonedDateTime values and date-only strings (e.g., `2024-01-15`) as PlainDate values. Date-times without
+   * an annotation are rejected, since an interval has no PlainDateTime endpoints.
+   *
+   * @param start - The start of the interval
+   * @param end - The end of the interval. Must not be before `start`
+   * @param bounds - Whether the endpoints are included. Defaults to `"[)"`
+   * @returns The interval
+   * @throws {IncompatibleOperationError} When the endpoints have different types or `end` is before `start`
+   * @throws {InvalidDateFormatError} When a string is a date-time without a time zone annotation
+   *
+   * @example
+   * ```typescript
+   * Interval.from('2024-01-01', '2024-01-31', '[]');
+   * Interval.from(Temporal.Now.zonedDateTimeISO('Asia/Seoul'), '2024-12-31T18:00+09:00[Asia/Seoul]');
+   * ```
+   */
+  static from<T extends PlainDate | ZonedDateTime>(
+    start: T | string,
+    end: T | string,
+    bounds: IntervalBounds = "[)",
+  ): Interval<T> {
+    const startValue = (typeof start === "string" ? parseEndpoint(start) : start) as T;
+    const endValue = (typeof end === "string" ? parseEndpoint(end) : end) as T;
+    return new Interval(startValue, endValue, bounds);
+  }
+
+  /**
+   * Determines whether the interval contains no value (e.g., `[a, a)`).
+   *
+   * @returns `true` if the interval is empty
+   */
+  isEmpty(): boolean {
+    return isEmptyRange(this.lower(), this.upper());
+  }
+
+  /**
+   * Determines whether a value or a whole interval lies within this interval.
+   *
+   * @param value - A value of the same type as the endpoints (or an ISO string), or another interval
+   * @returns `true` if the value, or every value of the interval, is part of this interval
+   * @throws {IncompatibleOperationError} When the value has a different type than the endpoints
+   *
+   * @example
+   * ```typescript
+   * const week = Interval.from('2024-01-15', '2024-01-22');
+   * week.contains('2024-01-21'); // true
+   * week.contains('2024-01-22'); // false (the end is excluded)
+   * week.contains(Interval.from('2024-01-16', '2024-01-18')); // true
+   * ```
+   */
+  contains(value: T | Interval<T> | string): boolean {
+    const other = value instanceof Interval ? value : this.pointInterval(value);
+    this.assertSameType(other, "checking containment");
+
+    const lower = this.lower();
+    const upper = this.upper();
+    return compareLowerEndpoints(lower, other.lower()) <= 0 && compareUpperEndpoints(other.upper(), upper) <= 0;
+  }
+
+  /**
+   * Determines whether two intervals share at least one value.
+   *
+   * Half-open intervals that only touch (`[a, b)` and `[b, c)`) do not overlap.
+   *
+   * @param other - The interval to compare with
+   * @returns `true` if the intervals overlap
+   * @throws {IncompatibleOperationError} When the intervals have different endpoint types
+   */
+  overlaps(other: Interval<T>): boolean {
+    return this.intersect(other) !== null;
+  }
+
+  /**
+   * Returns the values shared by two intervals.
+   *
+   * @param other - The interval to intersect with
+   * @returns The intersection, or `null` when the intervals do not overlap
+   * @throws {IncompatibleOperationError} When the intervals have different endpoint types
+   *
+   * @example
+   * ```typescript
+   * const a = Interval.from('2024-01-01', '2024-01-20');
+   * const b = Interval.from('2024-01-10', '2024-02-01');
+   * a.intersect(b)?.toString(); // "[2024-01-10, 2024-01-20)"
+   * ```
+   */
+  intersect(other: Interval<T>): Interval<T> | null {
+    this.assertSameType(other, "intersecting intervals");
+
+    const lower = maxLower(this.lower(), other.lower());
+    const upper = minUpper(this.upper(), other.upper());
+    return isEmptyRange(lower, upper) ? null : this.build(lower, upper);
+  }
+
+  /**
+   * Returns the values of either interval.
+   *
+   * Overlapping or adjacent intervals are merged into one interval; otherwise both are returned.
+   *
+   * @param other - The interval to combine with
+   * @returns One merged interval, or both intervals sorted by start. Empty intervals are left out
+   * @throws {IncompatibleOperationError} When the intervals have different endpoint types
+   *
+   * @example
+   * ```typescript
+   * const a = Interval.from('2024-01-01', '2024-01-10');
+   * a.union(Interval.from('2024-01-10', '2024-01-20')); // [[2024-01-01, 2024-01-20)]
+   * a.union(Interval.from('2024-01-15', '2024-01-20')); // [[2024-01-01, 2024-01-10), [2024-01-15, 2024-01-20)]
+   * ```
+   */
+  union(other: Interval<T>): Interval<T>[] {
+    this.assertSameType(other, "combining intervals");
+
+    const intervals = [this, other].filter((interval) => !interval.isEmpty());
+    if (intervals.length < 2) {
+      return intervals;
+    }
+
+    const [first, second] = compareLowerEndpoints(this.lower(), other.lower()) <= 0 ? [this, other] : [other, this];
+    const firstUpper = first.upper();
+    const secondLower = second.lower();
+    const comparison = compareValues(firstUpper.value, secondLower.value);
+    if (comparison < 0 || (comparison === 0 && !firstUpper.inclusive && !secondLower.inclusive)) {
+      return [first, second];
+    }
+
+    return [this.build(minLower(this.lower(), other.lower()), maxUpper(this.upper(), other.upper()))];
+  }
+
+  /**
+   * Returns the values of this interval that are not part of another interval.
+   *
+   * @param other - The interval to remove
+   * @returns Zero, one or two intervals, sorted by start
+   * @throws {IncompatibleOperationError} When the intervals have different endpoint types
+   *
+   * @example
+   * ```typescript
+   * const workday = Interval.from('2024-01-15T09:00+09:00[Asia/Seoul]', '2024-01-15T18:00+09:00[Asia/Seoul]');
+   * const lunch = Interval.from('2024-01-15T12:00+09:00[Asia/Seoul]', '2024-01-15T13:00+09:00[Asia/Seoul]');
+   * workday.subtract(lunch); // [09:00, 12:00) and [13:00, 18:00)
+   * ```
+   */
+  subtract(other: Interval<T>): Interval<T>[] {
+    this.assertSameType(other, "subtracting intervals");
+    if (!this.overlaps(other)) {
+      return this.isEmpty() ? [] : [this];
+    }
+
+    const lower = this.lower();
+    const upper = this.upper();
+    const otherLower = other.lower();
+    const otherUpper = other.upper();
+
+    const ranges: [Endpoint<T>, Endpoint<T>][] = [
+      [lower, minUpper(upper, { value: otherLower.value, inclusive: !otherLower.inclusive })],
+      [maxLower(lower, { value: otherUpper.value, inclusive: !otherUpper.inclusive }), upper],
+    ];
+    return ranges.filter(([from, to]) => !isEmptyRange(from, to)).map(([from, to]) => this.build(from, to));
+  }
+
+  /**
+   * Splits the interval at day, week (Monday) or month boundaries.
+   *
+   * For ZonedDateTime intervals the boundaries are the starts of the days in the time zone of `start`.
+   *
+   * @param unit - Where to split the interval
+   * @returns The parts of the interval in order. Empty when the interval is empty
+   *
+   * @example
+   * ```typescript
+   * Interval.from('2024-01-25', '2024-03-10').split('month');
+   * // [2024-01-25, 2024-02-01), [2024-02-01, 2024-03-01), [2024-03-01, 2024-03-10)
+   *
+   * Interval.from('2024-01-01', '2024-01-14', '[]').split('week');
+   * // [2024-01-01, 2024-01-07], [2024-01-08, 2024-01-14]
+   * ```
+   */
+  split(unit: IntervalUnit): Interval<T>[] {
+    return [...this.iterate(unit)];
+  }
+
+  /**
+   * Lazily yields the parts of the interval split at day, week or month boundaries.
+   *
+   * This is the lazy version of `split`.
+   *
+   * @param unit - Where to split the interval. Defaults to `"day"`
+   * @returns A generator of the parts of the interval
+   */
+  *iterate(unit: IntervalUnit = "day"): Generator<Interval<T>> {
+    const upper = this.upper();
+    let lower = this.lower();
+
+    while (!isEmptyRange(lower, upper)) {
+      const boundary = nextBoundary(lower.value, unit);
+      yield this.build(lower, minUpper(upper, { value: boundary, inclusive: false }));
+      lower = { value: boundary, inclusive: true };
+    }
+  }
+
+  /**
+   * Lazily yields every date that the interval touches.
+   *
+   * @returns A generator of dates in ascending order
+   *
+   * @example
+   * ```typescript
+   * [...Interval.from('2024-01-30', '2024-02-02').days()].map(String); // ["2024-01-30", "2024-01-31", "2024-02-01"]
+   * ```
+   */
+  *days(): Generator<PlainDate> {
+    const range = this.dateRange();
+    if (!range) {
+      return;
+    }
+
+    for (let date = range[0]; Temporal.PlainDate.compare(date, range[1]) <= 0; date = date.add({ days: 1 })) {
+      yield date;
+    }
+  }
+
+  /**
+   * Lazily yields the business days that the interval touches.
+   *
+   * @param holidayList - An array of holiday objects to consider when determining business days. Defaults to the
+   * holidays of the configuration the interval was created with
+   * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to the days off of
+   * the configuration the interval was created with ([6, 7], Saturday and Sunday, at the top level)
+   * @returns A generator of business days in ascending order
+   *
+   * @example
+   * ```typescript
+   * const range = Interval.from('2024-02-08', '2024-02-14', '[]');
+   * [...range.workdays(getKoreanHolidays(2024))].map(String); // ["2024-02-08", "2024-02-13", "2024-02-14"]
+   * ```
+   */
+  *workdays(
+    holidayList: HolidayDefinition[] = this.holidayList,
+    dayOffWeekdays: WeekDay[] = this.dayOffWeekdays,
+  ): Generator<PlainDate> {
+    const calendar = new BusinessCalendar(holidayList, dayOffWeekdays);
+    for (const date of this.days()) {
+      if (calendar.isWorkday(date)) {
+        yield date;
+      }
+    }
+  }
+
+  /**
+   * Counts the business days that the interval touches, without iterating day by day.
+   *
+   * @param holidayList - An array of holiday objects to consider when determining business days. Defaults to the
+   * holidays of the configuration the interval was created with
+   * @param dayOffWeekdays - An array of weekday numbers representing non-working days. Defaults to the days off of
+   * the configuration the interval was created with ([6, 7], Saturday and Sunday, at the top level)
+   * @returns The number of business days
+   *
+   * @example
+   * ```typescript
+   * Interval.from('2024-01-01', '2024-02-01').countWorkdays(); // 23
+   * ```
+   */
+  countWorkdays(
+    holidayList: HolidayDefinition[] = this.holidayList,
+    dayOffWeekdays: WeekDay[] = this.dayOffWeekdays,
+  ): number {
+    const range = this.dateRange();
+    return range ? new BusinessCalendar(holidayList, dayOffWeekdays).count(range[0], range[1]) : 0;
+  }
+
+  /**
+   * Lazily yields the weeks of the interval together with their `getWeekNum` week numbers.
+   *
+   * @returns A generator of the weekly parts of the interval
+   *
+   * @example
+   * ```typescript
+   * for (const { interval, month, weekNum } of Interval.from('2024-01-01', '2024-02-01').weeks()) {
+   *   console.log(`${month}월 ${weekNum}주차: ${interval}`);
+   * }
+   * // 1월 1주차: [2024-01-01, 2024-01-08) ...
+   * ```
+   */
+  *weeks(): Generator<IntervalWeek<T>> {
+    for (const interval of this.iterate("week")) {
+      const start = interval.start instanceof Temporal.PlainDate ? interval.start : interval.start.toPlainDate();
+      yield { interval, ...getWeekNum(start) };
+    }
+  }
+
+  /**
+   * Returns the length of the interval.
+   *
+   * @returns The number of days for PlainDate intervals (counting the days it contains),
+   *   or the exact time in hours, minutes and seconds for ZonedDateTime intervals
+   */
+  toDuration(): Temporal.Duration {
+    const lower = this.lower();
+    const upper = this.upper();
+    if (isEmptyRange(lower, upper)) {
+      return new Temporal.Duration();
+    }
+    return lower.value instanceof Temporal.PlainDate
+      ? lower.value.until(upper.value as PlainDate)
+      : (lower.value as ZonedDateTime).until(upper.value as ZonedDateTime, { largestUnit: "hours" });
+  }
+
+  /**
+   * Determines whether two intervals contain the same values.
+   *
+   * @param other - The interval to compare with
+   * @returns `true` if both intervals contain exactly the same values
+   */
+  equals(other: Interval<T>): boolean {
+    return this.contains(other) && other.contains(this);
+  }
+
+  /**
+   * Returns the interval in interval notation, e.g. `[2024-01-01, 2024-02-01)`.
+   */
+  toString(): string {
+    return `${this.bounds[0]}${this.start}, ${this.end}${this.bounds[1]}`;
+  }
+
+  /**
+   * Iterates over the dates of the interval. Same as `days()`.
+   */
+  [Symbol.iterator](): Iterator<PlainDate> {
+    return this.days();
+  }
+
+  /**
+   * Returns the lower endpoint. PlainDate endpoints are normalized to an included start.
+   */
+  private lower(): Endpoint<T> {
+    const inclusive = this.bounds[0] === "[";
+    if (this.start instanceof Temporal.PlainDate && !inclusive) {
+      return { value: this.start.add({ days: 1 }) as T, inclusive: true };
+    }
+    return { value: this.start, inclusive };
+  }
+
+  /**
+   * Returns the upper endpoint. PlainDate endpoints are normalized to an excluded end.
+   */
+  private upper(): Endpoint<T> {
+    const inclusive = this.bounds[1] === "]";
+    if (this.end instanceof Temporal.PlainDate && inclusive) {
+      return { value: this.end.add({ days: 1 }) as T, inclusive: false };
+    }
+    return { value: this.end, inclusive };
+  }
+
+  /**
+   * Creates an interval from endpoints, keeping the default holidays and days off of this interval.
+   * PlainDate results use the bounds of this interval.
+   */
+  private build(lower: Endpoint<T>, upper: Endpoint<T>): Interval<T> {
+    let interval: Interval<T>;
+    if (lower.value instanceof Temporal.PlainDate) {
+      const start = this.bounds[0] === "[" ? lower.value : lower.value.subtract({ days: 1 });
+      const end = this.bounds[1] === ")" ? upper.value : (upper.value as PlainDate).subtract({ days: 1 });
+      interval = new Interval(start as T, end as T, this.bounds);
+    } else {
+      interval = new Interval(lower.value, upper.value, `${lower.inclusive ? "[" : "("}${upper.inclusive ? "]" : ")"}`);
+    }
+    interval.holidayList = this.holidayList;
+    interval.dayOffWeekdays = this.dayOffWeekdays;
+    return interval;
+  }
+
+  /**
+   * Returns the first and last date touched by the interval, or `null` when it is empty.
+   */
+  private dateRange(): [PlainDate, PlainDate] | null {
+    const lower = this.lower();
+    const upper = this.upper();
+    if (isEmptyRange(lower, upper)) {
+      return null;
+    }
+
+    if (lower.value instanceof Temporal.PlainDate) {
+      return [lower.value, (upper.value as PlainDate).subtract({ days: 1 })];
+    }
+
+    const end = upper.value as ZonedDateTime;
+    const endsAtMidnight = !upper.inclusive && Temporal.ZonedDateTime.compare(end, end.startOfDay()) === 0;
+    return [(lower.value as ZonedDateTime).toPlainDate(), end.toPlainDate().subtract({ days: endsAtMidnight ? 1 : 0 })];
+  }
+
+  /**
+   * Converts a single value into a closed interval containing only that value.
+   */
+  private pointInterval(value: T | string): Interval<T> {
+    const point = (
+      typeof value !== "string"
+        ? value
+        : this.start instanceof Temporal.PlainDate
+        ? Temporal.PlainDate.from(value)
+        : Temporal.ZonedDateTime.from(value)
+    ) as T;
+    if (point instanceof Temporal.PlainDate !== this.start instanceof Temporal.PlainDate) {
+      throw new IncompatibleOperationError(
+        "checking containment",
+        "the value must have the same type as the interval endpoints",
+      );
+    }
+    return new Interval(point, point, "[]");
+  }
+
+  /**
+   * Throws when another interval has a different endpoint type.
+   */
+  private assertSameType(other: Interval<T>, operation: string): void {
+    if (other.start instanceof Temporal.PlainDate !== this.start instanceof Temporal.PlainDate) {
+      throw new IncompatibleOperationError(operation, "PlainDate and ZonedDateTime intervals cannot be combined");
+    }
+  }
+}
+
+/**
+ * Creates an interval from Temporal values or ISO strings, like `Interval.from`.
+ *
+ * On a `createIlgaemi` instance, `workdays` and `countWorkdays` of the interval default to the holidays and
+ * days off of the instance.
+ *
+ * @param start - The start of the interval
+ * @param end - The end of the interval. Must not be before `start`
+ * @param bounds - Whether the endpoints are included. Defaults to `"[)"`
+ * @returns The interval
+ * @throws {IncompatibleOperationError} When the endpoints have different types or `end` is before `start`
+ *
+ * @example
+ * ```typescript
+ * createInterval('2024-01-01', '2024-02-01').countWorkdays(); // 23
+ *
+ * const kr = createIlgaemi({ holidays: getKoreanHolidays(2024) });
+ * kr.createInterval('2024-02-01', '2024-03-01').countWorkdays(); // 19
+ * ```
+ */
+export function createInterval<T extends PlainDate | ZonedDateTime>(
+  start: T | string,
+  end: T | string,
+  bounds: IntervalBounds = "[)",
+): Interval<T> {
+  return Interval.from(start, end, bounds);
+}
@@ -0,0 +1,280 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type {
+  DeserializeOptions,
+  SerializeOptions,
+  TaggedTemporal,
+  TemporalSchema,
+  TemporalTypeName,
+  TemporalValue,
+} from "../types";
+import { InvalidDateFormatError } from "../errors";
+
+/**
+ * The classes of the supported Temporal types.
+ */
+const TEMPORAL_TYPES = {
+  PlainDate: Temporal.PlainDate,
+  PlainDateTime: Temporal.PlainDateTime,
+  ZonedDateTime: Temporal.ZonedDateTime,
+  Instant: Temporal.Instant,
+  PlainTime: Temporal.PlainTime,
+  Duration: Temporal.Duration,
+} as const;
+
+const TEMPORAL_TYPE_NAMES = Object.keys(TEMPORAL_TYPES) as TemporalTypeName[];
+
+/**
+ * Patterns recognizing the type of an untagged ISO 8601 string, checked in order.
+ */
+const TYPE_PATTERNS: [TemporalTypeName, RegExp][] = [
+  ["Duration", /^[+-]?P/i],
+  ["ZonedDateTime", /^[+-]?\d{4,6}-\d{2}-\d{2}[T ].*\[[^=\]]+\]/i],
+  ["Instant", /^[+-]?\d{4,6}-\d{2}-\d{2}[T ]\d{2}[^[]*(Z|[+-]\d{2}(:?\d{2})?)(\[|$)/i],
+  ["PlainDateTime", /^[+-]?\d{4,6}-\d{2}-\d{2}[T ]\d{2}/i],
+  ["PlainDate", /^[+-]?\d{4,6}-\d{2}-\d{2}(\[|$)/],
+  ["PlainTime", /^T?\d{2}:\d{2}/i],
+];
+
+/**
+ * Returns the Temporal type name of a value, or `undefined` if it is not a supported Temporal object.
+ *
+ * @internal
+ */
+export function getTemporalTypeName(value: unknown): TemporalTypeName | undefined {
+  return TEMPORAL_TYPE_NAMES.find((name) => value instanceof TEMPORAL_TYPES[name]);
+}
+
+/**
+ * Picks the Temporal type of an untagged ISO 8601 string from its shape.
+ *
+ * @internal
+ * @param text - The ISO 8601 string
+ * @param types - The types to choose from
+ * @returns The first matching type, or `undefined` if the string has none of the shapes
+ */
+export function inferTemporalType(
+  text: string,
+  types: TemporalTypeName[] = TEMPORAL_TYPE_NAMES,
+): TemporalTypeName | undefined {
+  return TYPE_PATTERNS.find(([name, pattern]) => types.includes(name) && pattern.test(text))?.[0];
+}
+
+/**
+ * Checks whether a parsed JSON value is a `TaggedTemporal` object.
+ */
+function isTaggedTemporal(value: unknown): value is TaggedTemporal {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const { $temporal, value: text, ...rest } = value as Record<string, unknown>;
+  return (
+    typeof $temporal === "string" &&
+    TEMPORAL_TYPE_NAMES.includes($temporal as TemporalTypeName) &&
+    typeof text === "string" &&
+    Object.keys(rest).length === 0
+  );
+}
+
+/**
+ * Parses an ISO 8601 string as the given Temporal type.
+ */
+function parseTemporal(text: string, type: TemporalTypeName, path: string): TemporalValue {
+  try {
+    return TEMPORAL_TYPES[type].from(text) as TemporalValue;
+  } catch {
+    throw new InvalidDateFormatError(path ? `${text} (${path})` : text, [type]);
+  }
+}
+
+/**
+ * A `JSON.stringify` replacer that writes Temporal values as `TaggedTemporal` objects.
+ *
+ * Temporal objects serialize to bare ISO strings by default, which loses their type. With this replacer,
+ * `PlainDate`, `PlainDateTime`, `ZonedDateTime`, `Instant`, `PlainTime` and `Duration` values are written
+ * as `{ "$temporal": "<type>", "value": "<ISO string>" }` and can be restored with `temporalReviver`.
+ *
+ * @param key - The property key being serialized
+ * @param value - The value after `toJSON` was applied
+ * @returns The tagged object for Temporal values, otherwise the value unchanged
+ *
+ * @example
+ * ```typescript
+ * const json = JSON.stringify({ due: Temporal.PlainDate.from('2024-01-15') }, temporalReplacer);
+ * // '{"due":{"$temporal":"PlainDate","value":"2024-01-15"}}'
+ * ```
+ */
+export function temporalReplacer(this: unknown, key: string, value: unknown): unknown {
+  // `JSON.stringify` calls `toJSON` before the replacer, so the original object is read from the holder
+  const original = (this as Record<string, unknown> | undefined)?.[key];
+  const type = getTemporalTypeName(original);
+  if (type === undefined) {
+    return value;
+  }
+  const tagged: TaggedTemporal = { $temporal: type, value: String(original) };
+  return tagged;
+}
+
+/**
+ * A `JSON.parse` reviver that restores `TaggedTemporal` objects written by `temporalReplacer`.
+ *
+ * Objects that are not exactly `{ $temporal, value }` with a supported type name are left unchanged.
+ *
+ * @param key - The property key being parsed
+ * @param value - The parsed value
+ * @returns The Temporal object for tagged values, otherwise the value unchanged
+ * @throws {InvalidDateFormatError} When a tagged value cannot be parsed as its type
+ *
+ * @example
+ * ```typescript
+ * const data = JSON.parse('{"due":{"$temporal":"PlainDate","value":"2024-01-15"}}', temporalReviver);
+ * data.due instanceof Temporal.PlainDate; // true
+ * ```
+ */
+export function temporalReviver(key: string, value: unknown): unknown {
+  if (!isTaggedTemporal(value)) {
+    return value;
+  }
+  return parseTemporal(value.value, value.$temporal, key);
+}
+
+/**
+ * Revives a value at a schema leaf, accepting any of the given types.
+ */
+function reviveLeaf(value: unknown, types: TemporalTypeName[], path: string): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  const current = isTaggedTemporal(value) ? parseTemporal(value.value, value.$temporal, path) : value;
+  const currentType = getTemporalTypeName(current);
+  if (currentType !== undefined) {
+    if (!types.includes(currentType)) {
+      throw new InvalidDateFormatError(`${String(current)} (${path})`, types);
+    }
+    return current;
+  }
+  if (typeof current !== "string") {
+    throw new InvalidDateFormatError(`${String(current)} (${path})`, types);
+  }
+  if (types.length === 1) {
+    return parseTemporal(current, types[0], path);
+  }
+  const type = inferTemporalType(current, types);
+  if (type === undefined) {
+    throw new InvalidDateFormatError(`${current} (${path})`, types);
+  }
+  return parseTemporal(current, type, path);
+}
+
+/**
+ * Revives the Temporal values described by a schema, returning a copy of the value.
+ */
+function reviveWithSchema(value: unknown, schema: TemporalSchema, path: string): unknown {
+  if (typeof schema === "string") {
+    return reviveLeaf(value, [schema], path);
+  }
+  if (Array.isArray(schema)) {
+    return reviveLeaf(value, schema, path);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  const wildcard = schema["*"];
+  if (Array.isArray(value)) {
+    return wildcard === undefined
+      ? value
+      : value.map((item, index) => reviveWithSchema(item, wildcard, `${path}[${index}]`));
+  }
+
+  const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  for (const key of Object.keys(result)) {
+    const child = Object.prototype.hasOwnProperty.call(schema, key) && key !== "*" ? schema[key] : wildcard;
+    if (child !== undefined) {
+      result[key] = reviveWithSchema(result[key], child, path ? `${path}.${key}` : key);
+    }
+  }
+  return result;
+}
+
+/**
+ * Revives untagged Temporal values in already parsed JSON using a schema.
+ *
+ * Use this when the JSON was parsed elsewhere, e.g. by `fetch().json()` or a cache client. Values at the
+ * schema's locations are parsed as the given Temporal types; missing, `null` and already revived values
+ * are left as they are. The input is not modified.
+ *
+ * @param value - The parsed JSON value
+ * @param schema - The locations and types of Temporal values
+ * @returns A copy of the value with Temporal values revived
+ * @throws {InvalidDateFormatError} When a value cannot be parsed as any type allowed at its location
+ *
+ * @example
+ * ```typescript
+ * const body = await response.json();
+ * const order = reviveTemporal<Order>(body, {
+ *   orderedAt: 'ZonedDateTime',
+ *   items: { '*': { deliveryDate: 'PlainDate' } },
+ * });
+ * order.items[0].deliveryDate.dayOfWeek; // 1
+ * ```
+ */
+export function reviveTemporal<T = unknown>(value: unknown, schema: TemporalSchema): T {
+  return reviveWithSchema(value, schema, "") as T;
+}
+
+/**
+ * Serializes a value to JSON, keeping the type of Temporal values.
+ *
+ * By default, Temporal values are written as `TaggedTemporal` objects so that `deserialize` restores them
+ * without further information. With `tagged: false`, they are written as plain ISO strings for consumers
+ * that expect regular JSON, and are revived with a schema.
+ *
+ * @param value - The value to serialize
+ * @param options - Serialization options
+ * @param options.tagged - Whether Temporal values are tagged with their type (default: true)
+ * @param options.space - Indentation passed to `JSON.stringify`
+ * @returns The JSON string
+ *
+ * @example
+ * ```typescript
+ * const meeting = { title: 'Sync', start: Temporal.ZonedDateTime.from('2024-01-15T10:00:00+09:00[Asia/Seoul]') };
+ *
+ * serialize(meeting);
+ * // '{"title":"Sync","start":{"$temporal":"ZonedDateTime","value":"2024-01-15T10:00:00+09:00[Asia/Seoul]"}}'
+ *
+ * serialize(meeting, { tagged: false });
+ * // '{"title":"Sync","start":"2024-01-15T10:00:00+09:00[Asia/Seoul]"}'
+ * ```
+ */
+export function serialize(value: unknown, options: SerializeOptions = {}): string {
+  const { tagged = true, space } = options;
+  return JSON.stringify(value, tagged ? temporalReplacer : undefined, space);
+}
+
+/**
+ * Deserializes JSON written by `serialize`, restoring Temporal values.
+ *
+ * Tagged values are always revived. Untagged ISO strings are revived at the locations described by
+ * `options.schema`.
+ *
+ * @template T - The type of the deserialized value
+ * @param text - The JSON string
+ * @param options - Deserialization options
+ * @param options.schema - Locations and types of untagged Temporal values
+ * @returns The parsed value with Temporal values revived
+ * @throws {InvalidDateFormatError} When a Temporal value cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const meeting = deserialize<{ title: string; start: ZonedDateTime }>(serialize(meeting));
+ * meeting.start.hour; // 10
+ *
+ * // Untagged JSON from another service
+ * const holiday = deserialize<{ date: PlainDate }>('{"date":"2024-09-17"}', { schema: { date: 'PlainDate' } });
+ * holiday.date.dayOfWeek; // 2
+ * ```
+ */
+export function deserialize<T = unknown>(text: string, options: DeserializeOptions = {}): T {
+  const value: unknown = JSON.parse(text, temporalReviver);
+  return (options.schema === undefined ? value : reviveTemporal(value, options.schema)) as T;
+}
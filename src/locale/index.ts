@@ -0,0 +1,299 @@
+import type { Locale, LocalePhrase } from "../types";
+import { UnsupportedLocaleError } from "../errors";
+import { getConfiguredLocale } from "../config";
+
+/**
+ * Korean locale (default).
+ */
+const ko: Locale = {
+  code: "ko",
+  months: ["1월", "2월", "3월", "4월", "5월", "6월", "7월", "8월", "9월", "10월", "11월", "12월"],
+  monthsShort: ["1월", "2월", "3월", "4월", "5월", "6월", "7월", "8월", "9월", "10월", "11월", "12월"],
+  weekdays: ["월요일", "화요일", "수요일", "목요일", "금요일", "토요일", "일요일"],
+  weekdaysShort: ["월", "화", "수", "목", "금", "토", "일"],
+  meridiem: { am: "오전", pm: "오후" },
+  relativeTime: {
+    past: "%s 전",
+    future: "%s 후",
+    now: "방금 전",
+    units: { minute: "%d분", hour: "%d시간", day: "%d일", week: "%d주", month: "%d개월", year: "%d년" },
+    auto: {
+      day: { previous: "어제", current: "오늘", next: "내일" },
+      week: { previous: "지난주", current: "이번 주", next: "다음 주" },
+      month: { previous: "지난달", current: "이번 달", next: "다음 달" },
+      year: { previous: "작년", current: "올해", next: "내년" },
+    },
+  },
+  calendar: {
+    lastDay: "[어제] {time}",
+    sameDay: "[오늘] {time}",
+    nextDay: "[내일] {time}",
+    lastWeek: "[지난주] dddd {time}",
+    thisWeek: "[이번 주] dddd {time}",
+    nextWeek: "[다음 주] dddd {time}",
+    sameElse: "YYYY년 M월 D일",
+    time: "A h시 m분",
+    timeOnTheHour: "A h시",
+  },
+  duration: {
+    long: {
+      years: "%d년",
+      months: "%d개월",
+      weeks: "%d주",
+      days: "%d일",
+      hours: "%d시간",
+      minutes: "%d분",
+      seconds: "%d초",
+      milliseconds: "%d밀리초",
+    },
+    short: {
+      years: "%d년",
+      months: "%d개월",
+      weeks: "%d주",
+      days: "%d일",
+      hours: "%d시간",
+      minutes: "%d분",
+      seconds: "%d초",
+      milliseconds: "%dms",
+    },
+    separator: " ",
+  },
+  formats: {
+    long: "YYYY년 M월 D일 dddd",
+    longDateTime: "YYYY년 M월 D일 dddd A h:mm",
+  },
+};
+
+/**
+ * English locale.
+ */
+const en: Locale = {
+  code: "en",
+  months: [
+    "January",
+    "February",
+    "March",
+    "April",
+    "May",
+    "June",
+    "July",
+    "August",
+    "September",
+    "October",
+    "November",
+    "December",
+  ],
+  monthsShort: ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"],
+  weekdays: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"],
+  weekdaysShort: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"],
+  meridiem: { am: "AM", pm: "PM" },
+  relativeTime: {
+    past: "%s ago",
+    future: "in %s",
+    now: "just now",
+    units: {
+      minute: { one: "%d minute", other: "%d minutes" },
+      hour: { one: "%d hour", other: "%d hours" },
+      day: { one: "%d day", other: "%d days" },
+      week: { one: "%d week", other: "%d weeks" },
+      month: { one: "%d month", other: "%d months" },
+      year: { one: "%d year", other: "%d years" },
+    },
+    auto: {
+      day: { previous: "yesterday", current: "today", next: "tomorrow" },
+      week: { previous: "last week", current: "this week", next: "next week" },
+      month: { previous: "last month", current: "this month", next: "next month" },
+      year: { previous: "last year", current: "this year", next: "next year" },
+    },
+  },
+  calendar: {
+    lastDay: "[Yesterday] {time}",
+    sameDay: "[Today] {time}",
+    nextDay: "[Tomorrow] {time}",
+    lastWeek: "[Last] dddd {time}",
+    thisWeek: "dddd {time}",
+    nextWeek: "[Next] dddd {time}",
+    sameElse: "MM/DD/YYYY",
+    time: "[at] h:mm A",
+  },
+  duration: {
+    long: {
+      years: { one: "%d year", other: "%d years" },
+      months: { one: "%d month", other: "%d months" },
+      weeks: { one: "%d week", other: "%d weeks" },
+      days: { one: "%d day", other: "%d days" },
+      hours: { one: "%d hour", other: "%d hours" },
+      minutes: { one: "%d minute", other: "%d minutes" },
+      seconds: { one: "%d second", other: "%d seconds" },
+      milliseconds: { one: "%d millisecond", other: "%d milliseconds" },
+    },
+    short: {
+      years: "%d yr",
+      months: "%d mo",
+      weeks: "%d wk",
+      days: { one: "%d day", other: "%d days" },
+      hours: "%d hr",
+      minutes: "%d min",
+      seconds: "%d sec",
+      milliseconds: "%d ms",
+    },
+    separator: " ",
+  },
+  formats: {
+    long: "dddd, MMMM D, YYYY",
+    longDateTime: "dddd, MMMM D, YYYY h:mm A",
+  },
+};
+
+/**
+ * Japanese locale.
+ */
+const ja: Locale = {
+  code: "ja",
+  months: ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月", "9月", "10月", "11月", "12月"],
+  monthsShort: ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月", "9月", "10月", "11月", "12月"],
+  weekdays: ["月曜日", "火曜日", "水曜日", "木曜日", "金曜日", "土曜日", "日曜日"],
+  weekdaysShort: ["月", "火", "水", "木", "金", "土", "日"],
+  meridiem: { am: "午前", pm: "午後" },
+  relativeTime: {
+    past: "%s前",
+    future: "%s後",
+    now: "たった今",
+    units: { minute: "%d分", hour: "%d時間", day: "%d日", week: "%d週間", month: "%dか月", year: "%d年" },
+    auto: {
+      day: { previous: "昨日", current: "今日", next: "明日" },
+      week: { previous: "先週", current: "今週", next: "来週" },
+      month: { previous: "先月", current: "今月", next: "来月" },
+      year: { previous: "去年", current: "今年", next: "来年" },
+    },
+  },
+  calendar: {
+    lastDay: "[昨日] {time}",
+    sameDay: "[今日] {time}",
+    nextDay: "[明日] {time}",
+    lastWeek: "[先週]dddd {time}",
+    thisWeek: "dddd {time}",
+    nextWeek: "[来週]dddd {time}",
+    sameElse: "YYYY/MM/DD",
+    time: "A h:mm",
+    timeOnTheHour: "A h時",
+  },
+  duration: {
+    long: {
+      years: "%d年",
+      months: "%dか月",
+      weeks: "%d週間",
+      days: "%d日",
+      hours: "%d時間",
+      minutes: "%d分",
+      seconds: "%d秒",
+      milliseconds: "%dミリ秒",
+    },
+    short: {
+      years: "%d年",
+      months: "%dか月",
+      weeks: "%d週",
+      days: "%d日",
+      hours: "%d時間",
+      minutes: "%d分",
+      seconds: "%d秒",
+      milliseconds: "%dms",
+    },
+    separator: "",
+  },
+  formats: {
+    long: "YYYY年M月D日 dddd",
+    longDateTime: "YYYY年M月D日 dddd A h:mm",
+  },
+};
+
+const locales = new Map<string, Locale>([
+  ["ko", ko],
+  ["en", en],
+  ["ja", ja],
+]);
+
+let defaultLocale = "ko";
+
+/**
+ * Registers a locale, or replaces a registered locale with the same code.
+ *
+ * @param locale - The locale data to register
+ *
+ * @example
+ * ```typescript
+ * registerLocale({ ...getLocale('en'), code: 'en-GB', formats: { long: 'dddd D MMMM YYYY', longDateTime: 'dddd D MMMM YYYY HH:mm' } });
+ * formatLong('2024-01-15', { locale: 'en-GB' }); // "Monday 15 January 2024"
+ * ```
+ */
+export function registerLocale(locale: Locale): void {
+  locales.set(locale.code, locale);
+}
+
+/**
+ * Returns a registered locale.
+ *
+ * @param code - The locale code. Defaults to the global default locale
+ * @returns The locale data
+ * @throws {UnsupportedLocaleError} When no locale is registered for the code
+ *
+ * @example
+ * ```typescript
+ * getLocale('en').months[0]; // "January"
+ * getLocale().code; // "ko"
+ * ```
+ */
+export function getLocale(code: string = defaultLocale): Locale {
+  const locale = locales.get(code);
+  if (!locale) {
+    throw new UnsupportedLocaleError(code, [...locales.keys()]);
+  }
+  return locale;
+}
+
+/**
+ * Sets the locale used when no locale is passed to a formatting function.
+ *
+ * @param code - The code of a registered locale
+ * @throws {UnsupportedLocaleError} When no locale is registered for the code
+ *
+ * @example
+ * ```typescript
+ * setDefaultLocale('en');
+ * formatRelative(now.subtract({ days: 3 }), now); // "3 days ago"
+ * ```
+ */
+export function setDefaultLocale(code: string): void {
+  getLocale(code);
+  defaultLocale = code;
+}
+
+/**
+ * Returns the code of the global default locale.
+ *
+ * @returns The default locale code ('ko' unless changed with `setDefaultLocale`)
+ */
+export function getDefaultLocale(): string {
+  return defaultLocale;
+}
+
+/**
+ * Resolves a locale option (code, locale object or undefined) to locale data. Without a locale, the locale of
+ * the running `createIlgaemi` instance or the global default locale is used.
+ *
+ * @internal
+ */
+export function resolveLocale(locale?: string | Locale): Locale {
+  const resolved = locale ?? getConfiguredLocale();
+  return typeof resolved === "object" ? resolved : getLocale(resolved);
+}
+
+/**
+ * Renders a locale phrase for a number, choosing the singular or plural form.
+ *
+ * @internal
+ */
+export function formatPhrase(phrase: LocalePhrase, value: number): string {
+  const template = typeof phrase === "string" ? phrase : value === 1 ? phrase.one : phrase.other;
+  return template.replace("%d", value.toString());
+}
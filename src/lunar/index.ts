@@ -0,0 +1,517 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { LunarDate, PlainDate } from "../types";
+import { InvalidDateError, OutOfRangeError } from "../errors";
+
+/**
+ * 📚 **KOREAN LUNISOLAR CALENDAR (음력)**
+ *
+ * The Korean lunar calendar is computed astronomically instead of being read from
+ * a lookup table:
+ *
+ * - A month starts on the local day of the new moon (삭)
+ * - Month 11 is the month containing the winter solstice (동지)
+ * - When 13 months fall between two month-11s, the first month without a
+ *   principal solar term (중기) becomes the leap month (윤달)
+ *
+ * Days are reckoned in Korean standard time of the era (UTC+8:30 before 1912 and
+ * between 1954-03-21 and 1961-08-09, UTC+9 otherwise), which is why some dates
+ * differ from the Chinese calendar (e.g. 설날 2027 is February 7, not February 6).
+ */
+
+/** First supported lunar year */
+export const LUNAR_MIN_YEAR = 1900;
+
+/** Last supported lunar year */
+export const LUNAR_MAX_YEAR = 2100;
+
+/**
+ * A single month of the lunar calendar.
+ *
+ * @internal
+ */
+export interface LunarMonthInfo {
+  /** The lunar month number (1-12) */
+  month: number;
+  /** Whether this month is a leap month (윤달) */
+  isLeapMonth: boolean;
+  /** Epoch day (days since 1970-01-01) of the first day of the month */
+  startEpochDay: number;
+  /** Number of days in the month (29 or 30) */
+  days: number;
+}
+
+const J2000 = 2451545.0;
+const UNIX_EPOCH_JD = 2440587.5;
+const SYNODIC_MONTH = 29.530588861;
+const DEG = Math.PI / 180;
+
+const lunarYearCache = new Map<number, LunarMonthInfo[]>();
+const suiCache = new Map<number, LunarMonthInfo[]>();
+
+/**
+ * Converts a Temporal.PlainDate into a day count relative to 1970-01-01.
+ *
+ * @internal
+ */
+export function toEpochDay(date: PlainDate): number {
+  // Days-from-civil algorithm (proleptic Gregorian calendar)
+  const y = date.month <= 2 ? date.year - 1 : date.year;
+  const era = Math.floor(y / 400);
+  const yoe = y - era * 400;
+  const mp = (date.month + 9) % 12;
+  const doy = Math.floor((153 * mp + 2) / 5) + date.day - 1;
+  const doe = yoe * 365 + Math.floor(yoe / 4) - Math.floor(yoe / 100) + doy;
+  return era * 146097 + doe - 719468;
+}
+
+/**
+ * Converts a day count relative to 1970-01-01 into a Temporal.PlainDate.
+ *
+ * @internal
+ */
+export function fromEpochDay(epochDay: number): PlainDate {
+  const z = epochDay + 719468;
+  const era = Math.floor(z / 146097);
+  const doe = z - era * 146097;
+  const yoe = Math.floor((doe - Math.floor(doe / 1460) + Math.floor(doe / 36524) - Math.floor(doe / 146096)) / 365);
+  const doy = doe - (365 * yoe + Math.floor(yoe / 4) - Math.floor(yoe / 100));
+  const mp = Math.floor((5 * doy + 2) / 153);
+  const day = doy - Math.floor((153 * mp + 2) / 5) + 1;
+  const month = mp < 10 ? mp + 3 : mp - 9;
+  const year = yoe + era * 400 + (month <= 2 ? 1 : 0);
+  return Temporal.PlainDate.from({ year, month, day });
+}
+
+/**
+ * Approximates ΔT (TT − UT) in seconds using the Espenak–Meeus polynomials.
+ */
+function deltaT(year: number): number {
+  if (year < 1860) {
+    const u = (year - 1820) / 100;
+    return -20 + 32 * u * u;
+  }
+  if (year < 1900) {
+    const t = year - 1860;
+    return 7.62 + 0.5737 * t - 0.251754 * t ** 2 + 0.01680668 * t ** 3 - 0.0004473624 * t ** 4 + t ** 5 / 233174;
+  }
+  if (year < 1920) {
+    const t = year - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  if (year < 1941) {
+    const t = year - 1920;
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+  }
+  if (year < 1961) {
+    const t = year - 1950;
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  }
+  if (year < 1986) {
+    const t = year - 1975;
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+  }
+  if (year < 2005) {
+    const t = year - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (year < 2050) {
+    const t = year - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t ** 2;
+  }
+  const u = (year - 1820) / 100;
+  if (year < 2150) {
+    return -20 + 32 * u * u - 0.5628 * (2150 - year);
+  }
+  return -20 + 32 * u * u;
+}
+
+function julianYear(jd: number): number {
+  return 2000 + (jd - J2000) / 365.25;
+}
+
+/**
+ * Returns the UTC offset in hours used for Korean civil days at a given moment.
+ */
+function koreanOffsetHours(jdUT: number): number {
+  const epochMs = (jdUT - UNIX_EPOCH_JD) * 86400000;
+  if (epochMs < Date.UTC(1911, 11, 31, 15, 30)) {
+    return 8.5;
+  }
+  if (epochMs >= Date.UTC(1954, 2, 20, 15, 0) && epochMs < Date.UTC(1961, 7, 9, 15, 30)) {
+    return 8.5;
+  }
+  return 9;
+}
+
+/**
+ * Returns the Korean civil day (epoch day) containing the given moment in Terrestrial Time.
+ */
+function koreanEpochDayOf(jdTT: number): number {
+  const jdUT = jdTT - deltaT(julianYear(jdTT)) / 86400;
+  return Math.floor(jdUT - UNIX_EPOCH_JD + koreanOffsetHours(jdUT) / 24);
+}
+
+/**
+ * Returns the Terrestrial Time Julian day of the start (00:00 Korean time) of an epoch day.
+ */
+function startOfKoreanDay(epochDay: number): number {
+  const approxUT = epochDay + UNIX_EPOCH_JD;
+  const jdUT = approxUT - koreanOffsetHours(approxUT) / 24;
+  return jdUT + deltaT(julianYear(jdUT)) / 86400;
+}
+
+/**
+ * Computes the moment of the k-th new moon after 2000-01-06 (Meeus, Astronomical Algorithms, ch. 49).
+ *
+ * @returns The Julian Ephemeris Day of the new moon
+ */
+function newMoonJDE(k: number): number {
+  const T = k / 1236.85;
+  const jde =
+    2451550.09766 + SYNODIC_MONTH * k + 0.00015437 * T ** 2 - 0.00000015 * T ** 3 + 0.00000000073 * T ** 4;
+  const E = 1 - 0.002516 * T - 0.0000074 * T ** 2;
+  const M = (2.5534 + 29.1053567 * k - 0.0000014 * T ** 2 - 0.00000011 * T ** 3) * DEG;
+  const Mp = (201.5643 + 385.81693528 * k + 0.0107582 * T ** 2 + 0.00001238 * T ** 3 - 0.000000058 * T ** 4) * DEG;
+  const F = (160.7108 + 390.67050284 * k - 0.0016118 * T ** 2 - 0.00000227 * T ** 3 + 0.000000011 * T ** 4) * DEG;
+  const Om = (124.7746 - 1.56375588 * k + 0.0020672 * T ** 2 + 0.00000215 * T ** 3) * DEG;
+
+  const correction =
+    -0.4072 * Math.sin(Mp) +
+    0.17241 * E * Math.sin(M) +
+    0.01608 * Math.sin(2 * Mp) +
+    0.01039 * Math.sin(2 * F) +
+    0.00739 * E * Math.sin(Mp - M) -
+    0.00514 * E * Math.sin(Mp + M) +
+    0.00208 * E * E * Math.sin(2 * M) -
+    0.00111 * Math.sin(Mp - 2 * F) -
+    0.00057 * Math.sin(Mp + 2 * F) +
+    0.00056 * E * Math.sin(2 * Mp + M) -
+    0.00042 * Math.sin(3 * Mp) +
+    0.00042 * E * Math.sin(M + 2 * F) +
+    0.00038 * E * Math.sin(M - 2 * F) -
+    0.00024 * E * Math.sin(2 * Mp - M) -
+    0.00017 * Math.sin(Om) -
+    0.00007 * Math.sin(Mp + 2 * M) +
+    0.00004 * Math.sin(2 * Mp - 2 * F) +
+    0.00004 * Math.sin(3 * M) +
+    0.00003 * Math.sin(Mp + M - 2 * F) +
+    0.00003 * Math.sin(2 * Mp + 2 * F) -
+    0.00003 * Math.sin(Mp + M + 2 * F) +
+    0.00003 * Math.sin(Mp - M + 2 * F) -
+    0.00002 * Math.sin(Mp - M - 2 * F) -
+    0.00002 * Math.sin(3 * Mp + M) +
+    0.00002 * Math.sin(4 * Mp);
+
+  const planetary: Array<[number, number, number]> = [
+    [0.000325, 299.77 + 0.107408 * k - 0.009173 * T ** 2, 0],
+    [0.000165, 251.88, 0.016321],
+    [0.000164, 251.83, 26.651886],
+    [0.000126, 349.42, 36.412478],
+    [0.00011, 84.66, 18.206239],
+    [0.000062, 141.74, 53.303771],
+    [0.00006, 207.14, 2.453732],
+    [0.000056, 154.84, 7.30686],
+    [0.000047, 34.52, 27.261239],
+    [0.000042, 207.19, 0.121824],
+    [0.00004, 291.34, 1.844379],
+    [0.000037, 161.72, 24.198154],
+    [0.000035, 239.56, 25.513099],
+    [0.000023, 331.55, 3.592518],
+  ];
+  const additional = planetary.reduce(
+    (sum, [coefficient, base, rate]) => sum + coefficient * Math.sin((base + rate * k) * DEG),
+    0,
+  );
+
+  return jde + correction + additional;
+}
+
+/**
+ * Computes the apparent geocentric longitude of the sun in degrees (Meeus, ch. 25).
+ */
+function solarLongitude(jde: number): number {
+  const T = (jde - J2000) / 36525;
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T ** 2;
+  const M = (357.52911 + 35999.05029 * T - 0.0001537 * T ** 2) * DEG;
+  const C =
+    (1.914602 - 0.004817 * T - 0.000014 * T ** 2) * Math.sin(M) +
+    (0.019993 - 0.000101 * T) * Math.sin(2 * M) +
+    0.000289 * Math.sin(3 * M);
+  const omega = (125.04 - 1934.136 * T) * DEG;
+  const longitude = L0 + C - 0.00569 - 0.00478 * Math.sin(omega);
+  return ((longitude % 360) + 360) % 360;
+}
+
+/**
+ * Returns the index (0-11) of the principal solar term (중기) in effect at the start of a Korean day.
+ */
+function principalTermAt(epochDay: number): number {
+  return Math.floor(solarLongitude(startOfKoreanDay(epochDay)) / 30);
+}
+
+/**
+ * Returns the Korean civil day on which the k-th new moon falls.
+ */
+function newMoonDay(k: number): number {
+  return koreanEpochDayOf(newMoonJDE(k));
+}
+
+/**
+ * Returns the index of the latest new moon falling on or before the given day.
+ */
+function newMoonIndexOnOrBefore(epochDay: number): number {
+  const firstNewMoonDay = 10962.6; // 2000-01-06 18:14 UTC
+  let k = Math.floor((epochDay - firstNewMoonDay) / SYNODIC_MONTH);
+  while (newMoonDay(k + 1) <= epochDay) {
+    k++;
+  }
+  while (newMoonDay(k) > epochDay) {
+    k--;
+  }
+  return k;
+}
+
+/**
+ * Returns the Korean civil day containing the December solstice of the given year.
+ */
+function winterSolsticeDay(year: number): number {
+  let day = toEpochDay(Temporal.PlainDate.from({ year, month: 12, day: 15 }));
+  while (principalTermAt(day + 1) !== 9) {
+    day++;
+  }
+  return day;
+}
+
+/**
+ * Returns the months from the month containing the winter solstice of `year - 1`
+ * up to (excluding) the month containing the winter solstice of `year`.
+ */
+function getSuiMonths(year: number): LunarMonthInfo[] {
+  const cached = suiCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const startIndex = newMoonIndexOnOrBefore(winterSolsticeDay(year - 1));
+  const endIndex = newMoonIndexOnOrBefore(winterSolsticeDay(year));
+  const count = endIndex - startIndex;
+
+  const starts: number[] = [];
+  for (let k = startIndex; k <= endIndex; k++) {
+    starts.push(newMoonDay(k));
+  }
+
+  let leapIndex = -1;
+  if (count === 13) {
+    for (let i = 1; i < count; i++) {
+      if (principalTermAt(starts[i]) === principalTermAt(starts[i + 1])) {
+        leapIndex = i;
+        break;
+      }
+    }
+  }
+
+  const months: LunarMonthInfo[] = [];
+  let month = 11;
+  for (let i = 0; i < count; i++) {
+    const isLeapMonth = i === leapIndex;
+    if (i > 0 && !isLeapMonth) {
+      month = (month % 12) + 1;
+    }
+    months.push({ month, isLeapMonth, startEpochDay: starts[i], days: starts[i + 1] - starts[i] });
+  }
+
+  suiCache.set(year, months);
+  return months;
+}
+
+/**
+ * Validates that a lunar year lies within the supported range.
+ *
+ * @internal
+ */
+export function assertLunarYearInRange(year: number): void {
+  if (!Number.isInteger(year) || year < LUNAR_MIN_YEAR || year > LUNAR_MAX_YEAR) {
+    throw new OutOfRangeError(`lunar year ${year}`, LUNAR_MIN_YEAR, LUNAR_MAX_YEAR);
+  }
+}
+
+/**
+ * Returns all months (including the leap month, if any) of a lunar year in order.
+ *
+ * @param year - The lunar year (1900-2100)
+ * @returns The months of the lunar year, starting with month 1
+ * @throws {OutOfRangeError} When the year is outside the supported range
+ *
+ * @internal
+ */
+export function getLunarYearMonths(year: number): LunarMonthInfo[] {
+  assertLunarYearInRange(year);
+
+  const cached = lunarYearCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const current = getSuiMonths(year);
+  const next = getSuiMonths(year + 1);
+  const firstMonthIndex = (months: LunarMonthInfo[]) =>
+    months.findIndex((info) => info.month === 1 && !info.isLeapMonth);
+
+  const months = [...current.slice(firstMonthIndex(current)), ...next.slice(0, firstMonthIndex(next))];
+
+  lunarYearCache.set(year, months);
+  return months;
+}
+
+/**
+ * Converts a lunar date to the corresponding epoch day.
+ *
+ * @returns The epoch day, or `null` when the lunar date does not exist
+ *
+ * @internal
+ */
+export function lunarToEpochDay(year: number, month: number, day: number, isLeapMonth = false): number | null {
+  const info = getLunarYearMonths(year).find((m) => m.month === month && m.isLeapMonth === isLeapMonth);
+  if (!info || !Number.isInteger(day) || day < 1 || day > info.days) {
+    return null;
+  }
+  return info.startEpochDay + day - 1;
+}
+
+/**
+ * Converts an epoch day to the corresponding lunar date.
+ *
+ * @throws {OutOfRangeError} When the date falls outside the supported lunar years
+ *
+ * @internal
+ */
+export function epochDayToLunar(epochDay: number): {
+  year: number;
+  month: number;
+  day: number;
+  isLeapMonth: boolean;
+} {
+  const solar = fromEpochDay(epochDay);
+  let year = solar.year;
+  if (year <= LUNAR_MAX_YEAR && year >= LUNAR_MIN_YEAR && getLunarYearMonths(year)[0].startEpochDay > epochDay) {
+    year--;
+  }
+  if (year > LUNAR_MAX_YEAR) {
+    const last = getLunarYearMonths(LUNAR_MAX_YEAR).at(-1)!;
+    if (epochDay < last.startEpochDay + last.days) {
+      year = LUNAR_MAX_YEAR;
+    }
+  }
+  if (year < LUNAR_MIN_YEAR || year > LUNAR_MAX_YEAR) {
+    throw new OutOfRangeError(solar.toString(), LUNAR_MIN_YEAR, LUNAR_MAX_YEAR);
+  }
+
+  const months = getLunarYearMonths(year);
+  for (const info of months) {
+    if (epochDay >= info.startEpochDay && epochDay < info.startEpochDay + info.days) {
+      return { year, month: info.month, day: epochDay - info.startEpochDay + 1, isLeapMonth: info.isLeapMonth };
+    }
+  }
+
+  throw new OutOfRangeError(solar.toString(), LUNAR_MIN_YEAR, LUNAR_MAX_YEAR);
+}
+
+/**
+ * Converts a solar (Gregorian) date to the Korean lunar calendar (양력 → 음력).
+ *
+ * @param date - The solar date to convert. Can be a Temporal.PlainDate object or an ISO date string (YYYY-MM-DD)
+ * @returns The corresponding lunar date, including whether it falls in a leap month (윤달)
+ * @throws {OutOfRangeError} When the date is outside the supported lunar years (1900-2100)
+ *
+ * @example
+ * ```typescript
+ * toLunar('2024-02-10'); // { year: 2024, month: 1, day: 1, isLeapMonth: false } (설날)
+ * toLunar('2024-09-17'); // { year: 2024, month: 8, day: 15, isLeapMonth: false } (추석)
+ *
+ * // Dates in a leap month
+ * toLunar('2023-04-05'); // { year: 2023, month: 2, day: 15, isLeapMonth: true } (윤2월)
+ *
+ * // Dates before the lunar new year belong to the previous lunar year
+ * toLunar('2024-01-15'); // { year: 2023, month: 12, day: 5, isLeapMonth: false }
+ * ```
+ */
+export function toLunar(date: PlainDate | string): Required<LunarDate> {
+  const plainDate = typeof date === "string" ? Temporal.PlainDate.from(date) : date;
+
+  return epochDayToLunar(toEpochDay(plainDate));
+}
+
+/**
+ * Converts a Korean lunar date to the solar (Gregorian) calendar (음력 → 양력).
+ *
+ * @param lunarDate - The lunar date to convert. Set `isLeapMonth` to select the leap month (윤달)
+ * @returns The corresponding solar date as a Temporal.PlainDate object
+ * @throws {OutOfRangeError} When the lunar year is outside the supported range (1900-2100)
+ * @throws {InvalidDateError} When the lunar date does not exist (e.g. a missing leap month or day 30 of a short month)
+ *
+ * @example
+ * ```typescript
+ * // 설날 and 추석 of 2024
+ * fromLunar({ year: 2024, month: 1, day: 1 }); // 2024-02-10
+ * fromLunar({ year: 2024, month: 8, day: 15 }); // 2024-09-17
+ *
+ * // The leap month 윤2월 of 2023
+ * fromLunar({ year: 2023, month: 2, day: 15, isLeapMonth: true }); // 2023-04-05
+ *
+ * // A lunar birthday in the current year
+ * const birthday = fromLunar({ year: 2025, month: 3, day: 12 });
+ * ```
+ */
+export function fromLunar(lunarDate: LunarDate): PlainDate {
+  const { year, month, day, isLeapMonth = false } = lunarDate;
+
+  const epochDay = lunarToEpochDay(year, month, day, isLeapMonth);
+  if (epochDay === null) {
+    throw new InvalidDateError(`lunar ${year}-${month}-${day}${isLeapMonth ? " (leap month)" : ""}`);
+  }
+
+  return fromEpochDay(epochDay);
+}
+
+/**
+ * Returns the leap month (윤달) of a lunar year.
+ *
+ * @param year - The lunar year (1900-2100)
+ * @returns The number of the month that is followed by a leap month, or `null` when the year has no leap month
+ * @throws {OutOfRangeError} When the lunar year is outside the supported range
+ *
+ * @example
+ * ```typescript
+ * getLunarLeapMonth(2023); // 2 (윤2월)
+ * getLunarLeapMonth(2024); // null
+ * getLunarLeapMonth(2025); // 6 (윤6월)
+ * ```
+ */
+export function getLunarLeapMonth(year: number): number | null {
+  const leap = getLunarYearMonths(year).find((info) => info.isLeapMonth);
+  return leap ? leap.month : null;
+}
+
+/**
+ * Returns the number of days (29 or 30) in a lunar month.
+ *
+ * @param year - The lunar year (1900-2100)
+ * @param month - The lunar month (1-12)
+ * @param isLeapMonth - Whether to get the length of the leap month. Defaults to false
+ * @returns The number of days in the month
+ * @throws {InvalidDateError} When the month does not exist in the given year
+ *
+ * @example
+ * ```typescript
+ * getLunarMonthDays(2024, 1); // 29
+ * getLunarMonthDays(2023, 2, true); // 29 (윤2월)
+ * ```
+ */
+export function getLunarMonthDays(year: number, month: number, isLeapMonth = false): number {
+  const info = getLunarYearMonths(year).find((m) => m.month === month && m.isLeapMonth === isLeapMonth);
+  if (!info) {
+    throw new InvalidDateError(`lunar ${year}-${month}${isLeapMonth ? " (leap month)" : ""}`);
+  }
+  return info.days;
+}
@@ -0,0 +1,209 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { FindCommonSlotsOptions, MeetingParticipant, MeetingSlot, PlainDate } from "../types";
+import { IncompatibleOperationError, MissingParameterError } from "../errors";
+import { Interval } from "../interval";
+import { getWorkingPeriods, resolveSchedule } from "../hours";
+import type { Schedule } from "../hours";
+import { convertToZonedDateTime } from "../timezone";
+import { getDefaultDayOffWeekdays, getDefaultHolidays, getDefaultTimeZone } from "../config";
+
+/**
+ * A period as epoch milliseconds, start inclusive and end exclusive.
+ */
+type Period = [number, number];
+
+/**
+ * A participant with the working hours and core hours resolved in the participant's time zone.
+ */
+interface ResolvedParticipant {
+  name?: string;
+  timeZone: string;
+  working: Schedule;
+  core: Schedule;
+}
+
+/**
+ * Resolves the working hours and core hours of a participant.
+ */
+function resolveParticipant(participant: MeetingParticipant): ResolvedParticipant {
+  const timeZone = participant.timeZone ?? participant.workingHours?.timeZone ?? getDefaultTimeZone();
+  const holidays = participant.holidays ?? getDefaultHolidays();
+  const dayOffWeekdays = participant.dayOffWeekdays ?? getDefaultDayOffWeekdays();
+  const workingHours = { ...participant.workingHours, timeZone };
+  const coreHours = participant.coreHours
+    ? { open: participant.coreHours.start, close: participant.coreHours.end, timeZone }
+    : workingHours;
+
+  return {
+    name: participant.name,
+    timeZone,
+    working: resolveSchedule(workingHours, holidays, dayOffWeekdays),
+    core: resolveSchedule(coreHours, holidays, dayOffWeekdays),
+  };
+}
+
+/**
+ * Collects the periods of a schedule overlapping a range, merging periods that touch (e.g. across midnight).
+ */
+function collectPeriods(schedule: Schedule, start: Temporal.Instant, end: Temporal.Instant): Period[] {
+  const periods: Period[] = [];
+  const lastDate = end.toZonedDateTimeISO(schedule.timeZone).toPlainDate();
+  // Start on the previous day, whose overnight hours may reach into the range
+  let date: PlainDate = start.toZonedDateTimeISO(schedule.timeZone).toPlainDate().subtract({ days: 1 });
+
+  for (; Temporal.PlainDate.compare(date, lastDate) <= 0; date = date.add({ days: 1 })) {
+    for (const period of getWorkingPeriods(schedule, date)) {
+      const from = Math.max(period.start.epochMilliseconds, start.epochMilliseconds);
+      const to = Math.min(period.end.epochMilliseconds, end.epochMilliseconds);
+      if (from >= to) {
+        continue;
+      }
+      const last = periods[periods.length - 1];
+      if (last && last[1] >= from) {
+        last[1] = Math.max(last[1], to);
+      } else {
+        periods.push([from, to]);
+      }
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Intersects two sorted lists of disjoint periods.
+ */
+function intersectPeriods(a: Period[], b: Period[]): Period[] {
+  const result: Period[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    const from = Math.max(a[i][0], b[j][0]);
+    const to = Math.min(a[i][1], b[j][1]);
+    if (from < to) {
+      result.push([from, to]);
+    }
+    if (a[i][1] < b[j][1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Converts a duration option into a positive number of milliseconds.
+ *
+ * @throws {IncompatibleOperationError} When the duration has years, months or weeks, or is not positive
+ */
+function toMilliseconds(duration: FindCommonSlotsOptions["duration"], name: string): number {
+  const value = Temporal.Duration.from(duration);
+  if (value.years || value.months || value.weeks) {
+    throw new IncompatibleOperationError("findCommonSlots", `the ${name} must not contain years, months or weeks`);
+  }
+  const milliseconds = value.total({ unit: "milliseconds" });
+  if (!(milliseconds > 0)) {
+    throw new IncompatibleOperationError("findCommonSlots", `the ${name} must be positive`);
+  }
+  return milliseconds;
+}
+
+/**
+ * Converts epoch milliseconds into a ZonedDateTime in a time zone.
+ */
+function toZonedDateTime(epochMilliseconds: number, timeZone: string): Temporal.ZonedDateTime {
+  return Temporal.Instant.fromEpochMilliseconds(epochMilliseconds).toZonedDateTimeISO(timeZone);
+}
+
+/**
+ * Returns the first start time at or after a moment that is aligned to the step, counted from midnight in
+ * a time zone.
+ */
+function alignToStep(epochMilliseconds: number, step: number, timeZone: string): number {
+  const midnight = toZonedDateTime(epochMilliseconds, timeZone).startOfDay().epochMilliseconds;
+  return midnight + Math.ceil((epochMilliseconds - midnight) / step) * step;
+}
+
+/**
+ * Finds meeting slots within the working hours of every participant, across time zones.
+ *
+ * Each participant has working hours, holidays and days off in their own time zone. Candidate slots of
+ * the given duration start every `step` (aligned from midnight in `timeZone`) and lie entirely within the
+ * working hours of all participants on their local workdays; breaks, days off and local holidays are
+ * skipped. Slots overlap when the step is shorter than the duration.
+ *
+ * The end of the range is excluded. A date-only end is midnight at the start of that day, so
+ * `{ start: '2024-01-15', end: '2024-01-20' }` searches Monday 15 to Friday 19 January.
+ *
+ * Slots are ranked by the number of participants for whom the slot lies within their core hours, then by
+ * start time, so the first slot is the earliest one that is convenient for most participants.
+ *
+ * @param options - The participants, the range to search, the meeting duration and the slot step
+ * @returns The candidate slots, best first. Empty when there is no common working time in the range
+ * @throws {MissingParameterError} When there are no participants
+ * @throws {IncompatibleOperationError} When the duration or step is not positive or contains years, months
+ *   or weeks, or a participant's closing time (or core hours end) is not after the opening time
+ * @throws {InvalidDateFormatError} When a time in the working hours or core hours is not in HH:mm format
+ *
+ * @example
+ * ```typescript
+ * const seoul: MeetingParticipant = { timeZone: 'Asia/Seoul', coreHours: { start: '10:00', end: '17:00' } };
+ * const berlin: MeetingParticipant = { timeZone: 'Europe/Berlin', coreHours: { start: '09:00', end: '16:00' } };
+ * const range = { start: '2024-01-15', end: '2024-01-20' };
+ *
+ * const [best] = findCommonSlots({ participants: [seoul, berlin], range, duration: { minutes: 30 } });
+ *
+ * best.interval.toString(); // "[2024-01-15T17:00:00+09:00[Asia/Seoul], 2024-01-15T17:30:00+09:00[Asia/Seoul])"
+ * best.coreHoursCount; // 1 (09:00 in Berlin, but after 17:00 in Seoul)
+ * best.participants[1].interval.start.toString(); // "2024-01-15T09:00:00+01:00[Europe/Berlin]"
+ *
+ * // San Francisco starting at 07:00 does not overlap with Seoul's working day in winter
+ * const sanFrancisco: MeetingParticipant = {
+ *   timeZone: 'America/Los_Angeles',
+ *   workingHours: { open: '07:00', close: '16:00' },
+ * };
+ * findCommonSlots({ participants: [seoul, berlin, sanFrancisco], range, duration: 'PT30M' }); // []
+ * ```
+ */
+export function findCommonSlots(options: FindCommonSlotsOptions): MeetingSlot[] {
+  if (options.participants.length === 0) {
+    throw new MissingParameterError("participants");
+  }
+  const timeZone = options.timeZone ?? getDefaultTimeZone();
+  const duration = toMilliseconds(options.duration, "duration");
+  const step = toMilliseconds(options.step ?? { minutes: 30 }, "step");
+  const start = convertToZonedDateTime(options.range.start, timeZone).toInstant();
+  const end = convertToZonedDateTime(options.range.end, timeZone).toInstant();
+
+  const participants = options.participants.map(resolveParticipant);
+  const corePeriods = participants.map((participant) => collectPeriods(participant.core, start, end));
+  const commonPeriods = participants
+    .map((participant) => collectPeriods(participant.working, start, end))
+    .reduce(intersectPeriods);
+
+  const slots: MeetingSlot[] = [];
+  for (const [from, to] of commonPeriods) {
+    for (let slotStart = alignToStep(from, step, timeZone); slotStart + duration <= to; slotStart += step) {
+      const slotEnd = slotStart + duration;
+      const slotParticipants = participants.map((participant, index) => ({
+        name: participant.name,
+        interval: new Interval(
+          toZonedDateTime(slotStart, participant.timeZone),
+          toZonedDateTime(slotEnd, participant.timeZone),
+        ),
+        inCoreHours: corePeriods[index].some(([coreFrom, coreTo]) => coreFrom <= slotStart && slotEnd <= coreTo),
+      }));
+      slots.push({
+        interval: new Interval(toZonedDateTime(slotStart, timeZone), toZonedDateTime(slotEnd, timeZone)),
+        coreHoursCount: slotParticipants.filter((participant) => participant.inCoreHours).length,
+        participants: slotParticipants,
+      });
+    }
+  }
+
+  slots.sort((a, b) => b.coreHoursCount - a.coreHoursCount);
+  return options.limit === undefined ? slots : slots.slice(0, options.limit);
+}
@@ -0,0 +1,492 @@
+import { Temporal } from "@js-temporal/polyfill";
+import { BadRequestException, Injectable } from "@nestjs/common";
+import type { ArgumentMetadata, PipeTransform } from "@nestjs/common";
+import { registerDecorator } from "class-validator";
+import type { ValidationArguments, ValidationOptions } from "class-validator";
+import { Transform } from "class-transformer";
+import type {
+  HolidayDefinition,
+  ParseTemporalPipeOptions,
+  PlainDate,
+  PlainDateTime,
+  TemporalInputOptions,
+  TemporalTypeName,
+  TemporalValue,
+  WeekDay,
+  ZonedDateTime,
+} from "../types";
+import { isWorkday } from "../date";
+import { parse, parseDuration } from "../format";
+import { getTemporalTypeName, inferTemporalType } from "../json";
+import { toZonedDateTime } from "../recurrence";
+import { getDefaultTimeZone } from "../config";
+import { DateError, InvalidDateFormatError, MissingParameterError } from "../errors";
+
+/**
+ * Maps the Temporal type names to the type of the converted value.
+ */
+interface TemporalTypeMap {
+  PlainDate: Temporal.PlainDate;
+  PlainDateTime: Temporal.PlainDateTime;
+  ZonedDateTime: Temporal.ZonedDateTime;
+  Instant: Temporal.Instant;
+  PlainTime: Temporal.PlainTime;
+  Duration: Temporal.Duration;
+}
+
+/**
+ * Converts the result of `parse` to the requested type.
+ */
+function convertParsed(
+  parsed: PlainDate | PlainDateTime | ZonedDateTime,
+  type: TemporalTypeName,
+  timeZone: string,
+): TemporalValue {
+  const zoned =
+    parsed instanceof Temporal.ZonedDateTime
+      ? parsed
+      : Temporal.PlainDateTime.from(parsed).toZonedDateTime(timeZone, { disambiguation: "earlier" });
+  switch (type) {
+    case "PlainDate":
+      return Temporal.PlainDate.from(parsed);
+    case "PlainDateTime":
+      return Temporal.PlainDateTime.from(parsed);
+    case "ZonedDateTime":
+      return zoned;
+    case "Instant":
+      return zoned.toInstant();
+    case "PlainTime":
+      return zoned.toPlainTime();
+    default:
+      throw new InvalidDateFormatError(parsed.toString(), [type]);
+  }
+}
+
+/**
+ * Converts request input to a Temporal value using the library's parsers.
+ *
+ * Temporal values of the requested type are returned unchanged. Strings are parsed with `parse` when a
+ * format is given, with `parseDuration` for durations and as ISO 8601 otherwise.
+ *
+ * @throws {InvalidDateFormatError} When the input cannot be converted
+ */
+function parseTemporalInput<K extends TemporalTypeName>(
+  value: unknown,
+  type: K,
+  options: TemporalInputOptions = {},
+): TemporalTypeMap[K] {
+  if (getTemporalTypeName(value) === type) {
+    return value as TemporalTypeMap[K];
+  }
+  if (typeof value !== "string") {
+    throw new InvalidDateFormatError(String(value), [type]);
+  }
+
+  const { format, timeZone = getDefaultTimeZone(), strict } = options;
+  if (type === "Duration") {
+    return parseDuration(value) as TemporalTypeMap[K];
+  }
+  if (format !== undefined) {
+    return convertParsed(parse(value, format, { strict }), type, timeZone) as TemporalTypeMap[K];
+  }
+
+  try {
+    switch (type) {
+      case "ZonedDateTime":
+        return toZonedDateTime(value, timeZone) as TemporalTypeMap[K];
+      case "Instant":
+        return toZonedDateTime(value, timeZone).toInstant() as TemporalTypeMap[K];
+      default:
+        return Temporal[type as "PlainDate" | "PlainDateTime" | "PlainTime"].from(value) as TemporalTypeMap[K];
+    }
+  } catch {
+    throw new InvalidDateFormatError(value, [type]);
+  }
+}
+
+/**
+ * Converts a library error to a 400 Bad Request response. Other errors are returned unchanged.
+ */
+function toBadRequest(error: unknown, field?: string): unknown {
+  if (!(error instanceof DateError)) {
+    return error;
+  }
+  return new BadRequestException(field ? `${field}: ${error.message}` : error.message);
+}
+
+/**
+ * Converts a value to a Temporal value that can be compared with other values of the same kind.
+ * Strings are converted according to their shape.
+ */
+function toComparable(value: unknown): TemporalValue | undefined {
+  if (getTemporalTypeName(value) !== undefined) {
+    return value as TemporalValue;
+  }
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const type = inferTemporalType(value);
+  if (type === undefined) {
+    return undefined;
+  }
+  try {
+    return parseTemporalInput(value, type);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compares two Temporal values. ZonedDateTime and Instant values are compared by their exact time.
+ *
+ * @returns A negative number, zero or a positive number, or `null` if the values cannot be compared
+ */
+function compareTemporal(one: TemporalValue, two: TemporalValue): number | null {
+  const exact = (value: TemporalValue) =>
+    value instanceof Temporal.ZonedDateTime || value instanceof Temporal.Instant ? value.epochNanoseconds : null;
+  const [oneExact, twoExact] = [exact(one), exact(two)];
+  if (oneExact !== null && twoExact !== null) {
+    return oneExact < twoExact ? -1 : oneExact > twoExact ? 1 : 0;
+  }
+  if (one instanceof Temporal.PlainDate && two instanceof Temporal.PlainDate) {
+    return Temporal.PlainDate.compare(one, two);
+  }
+  if (one instanceof Temporal.PlainDateTime && two instanceof Temporal.PlainDateTime) {
+    return Temporal.PlainDateTime.compare(one, two);
+  }
+  if (one instanceof Temporal.PlainTime && two instanceof Temporal.PlainTime) {
+    return Temporal.PlainTime.compare(one, two);
+  }
+  return null;
+}
+
+/**
+ * A pipe converting route parameters, query parameters and bodies to Temporal values.
+ *
+ * Strings are converted with the library's parsers (ISO 8601 by default, `parse` with `options.format`,
+ * `parseDuration` for durations). Invalid and missing values are rejected with a `400 Bad Request`
+ * carrying the message of the `DateError` that was thrown.
+ *
+ * @example
+ * ```typescript
+ * @Controller('reservations')
+ * export class ReservationController {
+ *   @Get()
+ *   list(
+ *     @Query('date', new ParseTemporalPipe('PlainDate')) date: PlainDate,
+ *     @Query('from', new ParseTemporalPipe('ZonedDateTime', { optional: true })) from?: ZonedDateTime,
+ *   ) {}
+ *
+ *   @Get(':day')
+ *   byDay(@Param('day', new ParseTemporalPipe('PlainDate', { format: 'YYYY.MM.DD' })) day: PlainDate) {}
+ * }
+ *
+ * // GET /reservations?date=2024-13-01
+ * // 400 { "message": "date: Unsupported date format: 2024-13-01. Supported formats: PlainDate", ... }
+ * ```
+ */
+@Injectable()
+export class ParseTemporalPipe<K extends TemporalTypeName = "PlainDate">
+  implements PipeTransform<unknown, TemporalTypeMap[K] | undefined>
+{
+  private readonly type: K;
+  private readonly options: ParseTemporalPipeOptions;
+
+  /**
+   * Creates a pipe converting input to the given Temporal type.
+   *
+   * @param type - The Temporal type to convert to (default: `"PlainDate"`)
+   * @param options - Conversion options
+   * @param options.format - A `parse` format string describing the input (default: ISO 8601)
+   * @param options.timeZone - The time zone of ZonedDateTime and Instant input without an offset (default: DEFAULT_TIMEZONE)
+   * @param options.strict - Whether the input must match `format` exactly (default: false)
+   * @param options.optional - Whether missing values are passed through as `undefined` (default: false)
+   */
+  constructor(type: K = "PlainDate" as K, options: ParseTemporalPipeOptions = {}) {
+    this.type = type;
+    this.options = options;
+  }
+
+  /**
+   * Converts a value to the pipe's Temporal type.
+   *
+   * @param value - The incoming value
+   * @param metadata - Information about the argument, used to name the field in error messages
+   * @returns The converted value, or `undefined` for missing optional values
+   * @throws {BadRequestException} When the value is missing or cannot be converted
+   */
+  transform(value: unknown, metadata: ArgumentMetadata): TemporalTypeMap[K] | undefined {
+    const field = metadata.data;
+    if (value === undefined || value === null || value === "") {
+      if (this.options.optional) {
+        return undefined;
+      }
+      throw toBadRequest(new MissingParameterError(field ?? this.type));
+    }
+    try {
+      return parseTemporalInput(value, this.type, this.options);
+    } catch (error) {
+      throw toBadRequest(error, field);
+    }
+  }
+}
+
+/**
+ * A class-transformer decorator converting a property to a Temporal value.
+ *
+ * When converting plain objects to class instances (e.g. in Nest's `ValidationPipe` with `transform: true`),
+ * strings are parsed with the library's parsers and invalid values are rejected with a `400 Bad Request`.
+ * When converting instances back to plain objects, Temporal values are written as ISO 8601 strings.
+ * `null` and `undefined` are left unchanged; combine with `@IsOptional()` or `@IsDefined()` as needed.
+ *
+ * Use this decorator instead of class-transformer's `@Type()`, which cannot construct Temporal values.
+ *
+ * @param type - The Temporal type of the property
+ * @param options - Conversion options (`format`, `timeZone`, `strict`)
+ * @returns A property decorator
+ *
+ * @example
+ * ```typescript
+ * class CreateReservationDto {
+ *   @TemporalType('ZonedDateTime', { timeZone: 'Asia/Seoul' })
+ *   startsAt: ZonedDateTime;
+ *
+ *   @TemporalType('PlainDate', { format: 'YYYY.MM.DD' })
+ *   @IsOptional()
+ *   visitDate?: PlainDate;
+ *
+ *   @TemporalType('Duration')
+ *   length: Duration; // accepts 'PT1H30M', '1h30m', '1시간 30분'
+ * }
+ * ```
+ */
+export function TemporalType(type: TemporalTypeName, options: TemporalInputOptions = {}): PropertyDecorator {
+  const toInstance = Transform(
+    ({ value, key }) => {
+      if (value === undefined || value === null) {
+        return value;
+      }
+      try {
+        return parseTemporalInput(value, type, options);
+      } catch (error) {
+        throw toBadRequest(error, key);
+      }
+    },
+    { toClassOnly: true },
+  );
+  const toPlain = Transform(
+    ({ value }) => (getTemporalTypeName(value) !== undefined ? String(value) : value),
+    { toPlainOnly: true },
+  );
+  return (target, propertyKey) => {
+    toInstance(target, propertyKey);
+    toPlain(target, propertyKey);
+  };
+}
+
+/**
+ * Checks that a property is a Temporal value of the given type, or a string convertible to it.
+ *
+ * The value is not converted; use `@TemporalType()` to convert it. The error message contains the
+ * message of the `DateError` describing why the value could not be converted.
+ *
+ * @param type - The expected Temporal type
+ * @param options - Conversion options (`format`, `timeZone`, `strict`)
+ * @param validationOptions - class-validator options such as `each` and `message`
+ * @returns A property decorator
+ *
+ * @example
+ * ```typescript
+ * class ShiftDto {
+ *   @IsTemporal('PlainTime')
+ *   startTime: string;
+ * }
+ * ```
+ */
+export function IsTemporal(
+  type: TemporalTypeName,
+  options: TemporalInputOptions = {},
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return (target, propertyKey) => {
+    registerDecorator({
+      name: `is${type}`,
+      target: target.constructor,
+      propertyName: propertyKey as string,
+      constraints: [type],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          try {
+            parseTemporalInput(value, type, options);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        defaultMessage(args: ValidationArguments): string {
+          try {
+            parseTemporalInput(args.value, type, options);
+          } catch (error) {
+            if (error instanceof DateError) {
+              return `${args.property}: ${error.message}`;
+            }
+          }
+          return `${args.property} must be a valid ${type}`;
+        },
+      },
+    });
+  };
+}
+
+/**
+ * Checks that a property is a PlainDate, or a date string such as `"2024-01-15"`.
+ *
+ * @param options - Conversion options (`format`, `strict`)
+ * @param validationOptions - class-validator options such as `each` and `message`
+ * @returns A property decorator
+ *
+ * @example
+ * ```typescript
+ * class HolidayQueryDto {
+ *   @IsPlainDate()
+ *   date: string;
+ *
+ *   @IsPlainDate({ format: 'YYYY.MM.DD' })
+ *   koreanDate: string;
+ * }
+ * ```
+ */
+export function IsPlainDate(options?: TemporalInputOptions, validationOptions?: ValidationOptions): PropertyDecorator {
+  return IsTemporal("PlainDate", options, validationOptions);
+}
+
+/**
+ * Checks that a property is a ZonedDateTime, or a string convertible to one.
+ *
+ * Accepted strings are ISO 8601 date-times with a time zone annotation
+ * (`"2024-01-15T10:00:00+09:00[Asia/Seoul]"`), with an offset (`"2024-01-15T01:00:00Z"`) or
+ * local date-times interpreted in `options.timeZone`.
+ *
+ * @param options - Conversion options (`format`, `timeZone`, `strict`)
+ * @param validationOptions - class-validator options such as `each` and `message`
+ * @returns A property decorator
+ *
+ * @example
+ * ```typescript
+ * class MeetingDto {
+ *   @IsZonedDateTime()
+ *   startsAt: string;
+ * }
+ * ```
+ */
+export function IsZonedDateTime(
+  options?: TemporalInputOptions,
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return IsTemporal("ZonedDateTime", options, validationOptions);
+}
+
+/**
+ * Checks that a property falls on a workday.
+ *
+ * The value may be a PlainDate, PlainDateTime or ZonedDateTime, or a string convertible to a PlainDate.
+ * Holidays can be given as a list, or as a function of the date so that they can depend on its year.
+ *
+ * @param holidays - The holidays to consider, or a function returning them for a date
+ * @param dayOffWeekdays - Weekday numbers of days off (default: [6, 7] - Saturday, Sunday)
+ * @param validationOptions - class-validator options such as `each` and `message`
+ * @returns A property decorator
+ *
+ * @example
+ * ```typescript
+ * class DeliveryDto {
+ *   @IsWorkday((date) => getKoreanHolidays(date.year))
+ *   deliveryDate: string; // '2024-09-17' (추석) is rejected
+ * }
+ * ```
+ */
+export function IsWorkday(
+  holidays: HolidayDefinition[] | ((date: PlainDate) => HolidayDefinition[]) = [],
+  dayOffWeekdays: WeekDay[] = [6, 7],
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return (target, propertyKey) => {
+    registerDecorator({
+      name: "isWorkday",
+      target: target.constructor,
+      propertyName: propertyKey as string,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          let date: PlainDate;
+          try {
+            date =
+              value instanceof Temporal.PlainDateTime || value instanceof Temporal.ZonedDateTime
+                ? value.toPlainDate()
+                : parseTemporalInput(value, "PlainDate");
+          } catch {
+            return false;
+          }
+          const holidayList = typeof holidays === "function" ? holidays(date) : holidays;
+          return isWorkday(date, holidayList, dayOffWeekdays);
+        },
+        defaultMessage(args: ValidationArguments): string {
+          return `${args.property} must be a workday`;
+        },
+      },
+    });
+  };
+}
+
+/**
+ * Checks that a property is later than another property of the same object.
+ *
+ * Both values may be Temporal values or ISO 8601 strings. ZonedDateTime and Instant values are compared
+ * by their exact time; other types are only comparable with values of the same type. The check passes
+ * when the other property is missing, so that its presence can be validated separately.
+ *
+ * @param property - The name of the property to compare with
+ * @param validationOptions - class-validator options such as `each` and `message`
+ * @returns A property decorator
+ *
+ * @example
+ * ```typescript
+ * class PeriodDto {
+ *   @IsPlainDate()
+ *   start: string;
+ *
+ *   @IsPlainDate()
+ *   @IsAfter('start')
+ *   end: string; // '2024-01-10' with start '2024-01-15' is rejected
+ * }
+ * ```
+ */
+export function IsAfter(property: string, validationOptions?: ValidationOptions): PropertyDecorator {
+  return (target, propertyKey) => {
+    registerDecorator({
+      name: "isAfter",
+      target: target.constructor,
+      propertyName: propertyKey as string,
+      constraints: [property],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown, args: ValidationArguments): boolean {
+          const other = (args.object as Record<string, unknown>)[property];
+          if (other === undefined || other === null) {
+            return true;
+          }
+          const [one, two] = [toComparable(value), toComparable(other)];
+          if (one === undefined || two === undefined) {
+            return false;
+          }
+          const result = compareTemporal(one, two);
+          return result !== null && result > 0;
+        },
+        defaultMessage(args: ValidationArguments): string {
+          return `${args.property} must be after ${property}`;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,1118 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type {
+  PlainDate,
+  PlainDateTime,
+  RecurrenceFrequency,
+  RecurrenceOptions,
+  RecurrenceRule,
+  RecurrenceWeekday,
+  TimeZone,
+  WeekDay,
+  WorkdayAdjustment,
+  WorkdayRoll,
+  ZonedDateTime,
+} from "../types";
+import { BusinessCalendar } from "../calendar";
+import { convertToZonedDateTime } from "../timezone";
+import { getDefaultDayOffWeekdays, getDefaultHolidays, getDefaultTimeZone } from "../config";
+import { IncompatibleOperationError, InvalidDateFormatError, MissingParameterError, OutOfRangeError } from "../errors";
+
+/**
+ * RFC 5545 weekday codes in ISO order (index 0 = Monday).
+ */
+const WEEKDAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+
+const FREQUENCIES: RecurrenceFrequency[] = ["YEARLY", "MONTHLY", "WEEKLY", "DAILY", "HOURLY", "MINUTELY", "SECONDLY"];
+
+/**
+ * Step sizes of the frequencies below a day, in milliseconds.
+ */
+const SUB_DAILY_MILLISECONDS: Partial<Record<RecurrenceFrequency, number>> = {
+  HOURLY: 3_600_000,
+  MINUTELY: 60_000,
+  SECONDLY: 1_000,
+};
+
+/**
+ * Expansion stops when a rule produces no occurrence for this many years. No valid rule has a
+ * longer gap, since the Gregorian calendar repeats every 400 years.
+ */
+const MAX_EMPTY_YEARS = 400;
+
+/**
+ * The formats accepted by `parseRecurrenceRule`, used in error messages.
+ */
+const RRULE_FORMATS = ["RFC 5545 RRULE (e.g., FREQ=MONTHLY;BYDAY=2TU)"];
+
+/**
+ * A recurrence rule with all defaults applied.
+ */
+interface ResolvedRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: ZonedDateTime | PlainDateTime | PlainDate;
+  byMonth: number[];
+  byWeekNo: number[];
+  byYearDay: number[];
+  byMonthDay: number[];
+  byDay: { weekday: WeekDay; nth?: number }[];
+  byHour: number[];
+  byMinute: number[];
+  bySecond: number[];
+  bySetPos: number[];
+  weekStart: WeekDay;
+  skip: "omit" | "backward" | "forward";
+}
+
+/**
+ * The occurrences of one period (year, month, week, day, hour, ...) of a rule.
+ */
+interface Period {
+  /** The first date of the period */
+  from: PlainDate;
+  occurrences: ZonedDateTime[];
+}
+
+/**
+ * Parses an iCalendar DATE or DATE-TIME value (`20240115`, `20240115T090000`, `20240115T000000Z`).
+ *
+ * @internal
+ */
+export function parseICalValue(value: string): ZonedDateTime | PlainDateTime | PlainDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  try {
+    const date = Temporal.PlainDate.from({ year: +year, month: +month, day: +day }, { overflow: "reject" });
+    if (hour === undefined) {
+      return date;
+    }
+    const dateTime = date.toPlainDateTime({ hour: +hour, minute: +minute, second: +second });
+    return utc ? dateTime.toZonedDateTime("UTC") : dateTime;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Formats a value as an iCalendar DATE or DATE-TIME. ZonedDateTime values are written in UTC (`...Z`).
+ *
+ * @internal
+ */
+export function formatICalValue(value: ZonedDateTime | PlainDateTime | PlainDate): string {
+  const pad = (number: number, length = 2) => number.toString().padStart(length, "0");
+  if (value instanceof Temporal.PlainDate) {
+    return `${pad(value.year, 4)}${pad(value.month)}${pad(value.day)}`;
+  }
+  if (value instanceof Temporal.ZonedDateTime) {
+    return `${formatICalValue(value.withTimeZone("UTC").toPlainDateTime())}Z`;
+  }
+  return `${formatICalValue(value.toPlainDate())}T${pad(value.hour)}${pad(value.minute)}${pad(value.second)}`;
+}
+
+/**
+ * Parses a comma-separated list of integers within a range (zero is never allowed for ranges
+ * that include negative values).
+ */
+function parseIntegerList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(",").map((item) => (/^[+-]?\d+$/.test(item) ? Number(item) : NaN));
+  const valid = numbers.every((number) => number >= min && number <= max && (min >= 0 || number !== 0));
+  return valid ? numbers : null;
+}
+
+/**
+ * Parses an RFC 5545 weekday such as `TU`, `2TU` or `-1FR`.
+ */
+function parseWeekday(value: string): RecurrenceWeekday | null {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/i.exec(value);
+  if (!match) {
+    return null;
+  }
+  const weekday = (WEEKDAY_CODES.indexOf(match[2].toUpperCase() as (typeof WEEKDAY_CODES)[number]) + 1) as WeekDay;
+  const nth = match[1] === undefined ? 0 : Number(match[1]);
+  if (Math.abs(nth) > 53) {
+    return null;
+  }
+  return nth === 0 ? weekday : { weekday, nth };
+}
+
+/**
+ * Formats a weekday as an RFC 5545 weekday such as `TU` or `-1FR`.
+ */
+function formatWeekday(weekday: RecurrenceWeekday): string {
+  return typeof weekday === "number"
+    ? WEEKDAY_CODES[weekday - 1]
+    : `${weekday.nth}${WEEKDAY_CODES[weekday.weekday - 1]}`;
+}
+
+/**
+ * Parses an RFC 5545 recurrence rule (`RRULE`) into a `RecurrenceRule`.
+ *
+ * All RFC 5545 rule parts are supported, as well as `RSCALE=GREGORIAN` and `SKIP` from RFC 7529.
+ * A leading `RRULE:` is ignored. Date-time `UNTIL` values in UTC (`...Z`) become ZonedDateTime values in UTC,
+ * local date-times become PlainDateTime values and dates become PlainDate values.
+ *
+ * @param text - The rule text, e.g. `FREQ=MONTHLY;BYDAY=2TU`
+ * @returns The parsed rule
+ * @throws {InvalidDateFormatError} When a rule part is unknown or invalid. `position` points to the invalid part
+ * @throws {MissingParameterError} When the rule has no `FREQ`
+ * @throws {IncompatibleOperationError} When the rule has both `COUNT` and `UNTIL`
+ *
+ * @example
+ * ```typescript
+ * parseRecurrenceRule('FREQ=MONTHLY;BYDAY=2TU');
+ * // { freq: 'MONTHLY', byDay: [{ weekday: 2, nth: 2 }] }
+ *
+ * parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20241231T150000Z');
+ * // { freq: 'WEEKLY', interval: 2, byDay: [1, 3], until: 2024-12-31T15:00:00+00:00[UTC] }
+ *
+ * parseRecurrenceRule('RSCALE=GREGORIAN;FREQ=MONTHLY;BYMONTHDAY=31;SKIP=BACKWARD');
+ * // { freq: 'MONTHLY', byMonthDay: [31], skip: 'backward' }
+ * ```
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  const rule: Partial<RecurrenceRule> = {};
+
+  let position = text.indexOf(body);
+  for (const part of body.split(";")) {
+    const separator = part.indexOf("=");
+    const key = part.slice(0, separator).toUpperCase();
+    const value = part.slice(separator + 1);
+    const invalid = () => new InvalidDateFormatError(text, RRULE_FORMATS, position);
+
+    if (separator <= 0 || value === "") {
+      throw invalid();
+    }
+
+    const list = (min: number, max: number) => {
+      const numbers = parseIntegerList(value, min, max);
+      if (!numbers) {
+        throw invalid();
+      }
+      return numbers;
+    };
+
+    switch (key) {
+      case "FREQ": {
+        const freq = value.toUpperCase() as RecurrenceFrequency;
+        if (!FREQUENCIES.includes(freq)) {
+          throw invalid();
+        }
+        rule.freq = freq;
+        break;
+      }
+      case "INTERVAL":
+        [rule.interval] = list(1, Number.MAX_SAFE_INTEGER);
+        break;
+      case "COUNT":
+        [rule.count] = list(1, Number.MAX_SAFE_INTEGER);
+        break;
+      case "UNTIL": {
+        const until = parseICalValue(value);
+        if (!until) {
+          throw invalid();
+        }
+        rule.until = until;
+        break;
+      }
+      case "BYMONTH":
+        rule.byMonth = list(1, 12);
+        break;
+      case "BYWEEKNO":
+        rule.byWeekNo = list(-53, 53);
+        break;
+      case "BYYEARDAY":
+        rule.byYearDay = list(-366, 366);
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = list(-31, 31);
+        break;
+      case "BYDAY": {
+        const weekdays = value.split(",").map(parseWeekday);
+        if (weekdays.some((weekday) => weekday === null)) {
+          throw invalid();
+        }
+        rule.byDay = weekdays as RecurrenceWeekday[];
+        break;
+      }
+      case "BYHOUR":
+        rule.byHour = list(0, 23);
+        break;
+      case "BYMINUTE":
+        rule.byMinute = list(0, 59);
+        break;
+      case "BYSECOND":
+        rule.bySecond = list(0, 59);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = list(-366, 366);
+        break;
+      case "WKST": {
+        const weekStart = parseWeekday(value);
+        if (typeof weekStart !== "number") {
+          throw invalid();
+        }
+        rule.weekStart = weekStart;
+        break;
+      }
+      case "RSCALE":
+        if (value.toUpperCase() !== "GREGORIAN") {
+          throw invalid();
+        }
+        break;
+      case "SKIP": {
+        const skip = value.toLowerCase();
+        if (skip !== "omit" && skip !== "backward" && skip !== "forward") {
+          throw invalid();
+        }
+        rule.skip = skip;
+        break;
+      }
+      default:
+        throw invalid();
+    }
+
+    position += part.length + 1;
+  }
+
+  if (!rule.freq) {
+    throw new MissingParameterError("FREQ");
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new IncompatibleOperationError("parsing a recurrence rule", "COUNT and UNTIL cannot be combined");
+  }
+
+  return rule as RecurrenceRule;
+}
+
+/**
+ * Serializes a `RecurrenceRule` as RFC 5545 `RRULE` text (without the `RRULE:` prefix).
+ *
+ * Rule parts are written in the order of RFC 5545 and defaults (`INTERVAL=1`, `SKIP=OMIT`) are left out.
+ * A `skip` other than `omit` is written as RFC 7529 `RSCALE=GREGORIAN;...;SKIP=...`.
+ *
+ * @param rule - The rule to serialize
+ * @returns The rule text
+ *
+ * @example
+ * ```typescript
+ * formatRecurrenceRule({ freq: 'MONTHLY', byDay: [{ weekday: 2, nth: 2 }] }); // "FREQ=MONTHLY;BYDAY=2TU"
+ * formatRecurrenceRule({ freq: 'WEEKLY', interval: 2, byDay: [1, 3] }); // "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+ * formatRecurrenceRule({ freq: 'MONTHLY', byMonthDay: [31], skip: 'backward' });
+ * // "RSCALE=GREGORIAN;FREQ=MONTHLY;BYMONTHDAY=31;SKIP=BACKWARD"
+ * ```
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const skip = rule.skip && rule.skip !== "omit" ? rule.skip.toUpperCase() : undefined;
+  const parts: [string, string | number | undefined][] = [
+    ["RSCALE", skip && "GREGORIAN"],
+    ["FREQ", rule.freq],
+    ["UNTIL", rule.until && formatICalValue(rule.until)],
+    ["COUNT", rule.count],
+    ["INTERVAL", rule.interval !== 1 ? rule.interval : undefined],
+    ["BYSECOND", rule.bySecond?.join(",")],
+    ["BYMINUTE", rule.byMinute?.join(",")],
+    ["BYHOUR", rule.byHour?.join(",")],
+    ["BYDAY", rule.byDay?.map(formatWeekday).join(",")],
+    ["BYMONTHDAY", rule.byMonthDay?.join(",")],
+    ["BYYEARDAY", rule.byYearDay?.join(",")],
+    ["BYWEEKNO", rule.byWeekNo?.join(",")],
+    ["BYMONTH", rule.byMonth?.join(",")],
+    ["BYSETPOS", rule.bySetPos?.join(",")],
+    ["WKST", rule.weekStart && WEEKDAY_CODES[rule.weekStart - 1]],
+    ["SKIP", skip],
+  ];
+
+  return parts
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([key, value]) => `${key}=${value}`)
+    .join(";");
+}
+
+/**
+ * Applies the defaults of RFC 5545 to a rule: missing day and time parts are taken from the start.
+ */
+function resolveRule(rule: RecurrenceRule, start: ZonedDateTime): ResolvedRule {
+  const interval = rule.interval ?? 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new OutOfRangeError(`interval ${interval}`, 1, Number.MAX_SAFE_INTEGER);
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 0)) {
+    throw new OutOfRangeError(`count ${rule.count}`, 0, Number.MAX_SAFE_INTEGER);
+  }
+
+  const resolved: ResolvedRule = {
+    freq: rule.freq,
+    interval,
+    count: rule.count,
+    until: rule.until,
+    byMonth: rule.byMonth ?? [],
+    byWeekNo: rule.freq === "YEARLY" ? rule.byWeekNo ?? [] : [],
+    byYearDay: rule.byYearDay ?? [],
+    byMonthDay: rule.byMonthDay ?? [],
+    byDay: (rule.byDay ?? []).map((weekday) => (typeof weekday === "number" ? { weekday } : weekday)),
+    byHour: rule.byHour ?? [],
+    byMinute: rule.byMinute ?? [],
+    bySecond: rule.bySecond ?? [],
+    bySetPos: rule.bySetPos ?? [],
+    weekStart: rule.weekStart ?? 1,
+    skip: rule.skip ?? "omit",
+  };
+
+  const hasDayParts =
+    resolved.byWeekNo.length || resolved.byYearDay.length || resolved.byMonthDay.length || resolved.byDay.length;
+  if (!hasDayParts) {
+    if (resolved.freq === "YEARLY") {
+      resolved.byMonth = resolved.byMonth.length ? resolved.byMonth : [start.month];
+      resolved.byMonthDay = [start.day];
+    } else if (resolved.freq === "MONTHLY") {
+      resolved.byMonthDay = [start.day];
+    } else if (resolved.freq === "WEEKLY") {
+      resolved.byDay = [{ weekday: start.dayOfWeek as WeekDay }];
+    }
+  }
+
+  // Time parts larger than the frequency limit occurrences, smaller ones expand them (defaulting to the start)
+  const subDaily = SUB_DAILY_MILLISECONDS[resolved.freq] !== undefined;
+  if (!subDaily && !resolved.byHour.length) {
+    resolved.byHour = [start.hour];
+  }
+  if ((!subDaily || resolved.freq === "HOURLY") && !resolved.byMinute.length) {
+    resolved.byMinute = [start.minute];
+  }
+  if (resolved.freq !== "SECONDLY" && !resolved.bySecond.length) {
+    resolved.bySecond = [start.second];
+  }
+
+  return resolved;
+}
+
+/**
+ * Returns the first day of week 1 of a year: the week (starting on `weekStart`) that contains January 4.
+ */
+function getWeekYearStart(year: number, weekStart: WeekDay): PlainDate {
+  const january4 = Temporal.PlainDate.from({ year, month: 1, day: 4 });
+  return january4.subtract({ days: (january4.dayOfWeek - weekStart + 7) % 7 });
+}
+
+/**
+ * Determines whether a weekday part matches a date. Ordinals count within the month for monthly
+ * rules and yearly rules with `byMonth`, and within the year for other yearly rules.
+ */
+function matchesWeekday(date: PlainDate, weekday: { weekday: WeekDay; nth?: number }, rule: ResolvedRule): boolean {
+  if (date.dayOfWeek !== weekday.weekday) {
+    return false;
+  }
+  if (!weekday.nth || (rule.freq !== "MONTHLY" && rule.freq !== "YEARLY") || rule.byWeekNo.length) {
+    return true;
+  }
+
+  const inMonth = rule.freq === "MONTHLY" || rule.byMonth.length > 0;
+  const day = inMonth ? date.day : date.dayOfYear;
+  const length = inMonth ? date.daysInMonth : date.daysInYear;
+  return weekday.nth > 0 ? Math.ceil(day / 7) === weekday.nth : -Math.ceil((length - day + 1) / 7) === weekday.nth;
+}
+
+/**
+ * Determines whether a date passes the date parts of a rule (`byMonth`, `byWeekNo`, `byYearDay`,
+ * `byMonthDay` and `byDay`). `weekYear` is the year whose week numbers `byWeekNo` refers to.
+ */
+function matchesDate(date: PlainDate, rule: ResolvedRule, weekYear: number): boolean {
+  if (rule.byMonth.length && !rule.byMonth.includes(date.month)) {
+    return false;
+  }
+  if (rule.byWeekNo.length) {
+    const weekYearStart = getWeekYearStart(weekYear, rule.weekStart);
+    const weeks = getWeekYearStart(weekYear + 1, rule.weekStart).since(weekYearStart).days / 7;
+    const week = Math.floor(date.since(weekYearStart).days / 7) + 1;
+    if (!rule.byWeekNo.some((number) => number === week || number === week - weeks - 1)) {
+      return false;
+    }
+  }
+  if (
+    rule.byYearDay.length &&
+    !rule.byYearDay.some((day) => day === date.dayOfYear || day === date.dayOfYear - date.daysInYear - 1)
+  ) {
+    return false;
+  }
+  if (
+    rule.byMonthDay.length &&
+    !rule.byMonthDay.some((day) => day === date.day || day === date.day - date.daysInMonth - 1)
+  ) {
+    return false;
+  }
+  if (rule.byDay.length && !rule.byDay.some((weekday) => matchesWeekday(date, weekday, rule))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Returns the dates that replace days of the month that do not exist in a month (RFC 7529 `SKIP`).
+ */
+function getSkippedDates(from: PlainDate, to: PlainDate, rule: ResolvedRule): PlainDate[] {
+  if (rule.skip === "omit" || !rule.byMonthDay.length || (rule.freq !== "MONTHLY" && rule.freq !== "YEARLY")) {
+    return [];
+  }
+
+  const dates: PlainDate[] = [];
+  for (let month = from.with({ day: 1 }); Temporal.PlainDate.compare(month, to) < 0; month = month.add({ months: 1 })) {
+    if (rule.byMonth.length && !rule.byMonth.includes(month.month)) {
+      continue;
+    }
+    for (const day of rule.byMonthDay) {
+      if (Math.abs(day) <= month.daysInMonth) {
+        continue;
+      }
+      const backward = rule.skip === "backward";
+      if (day > 0) {
+        dates.push(backward ? month.with({ day: month.daysInMonth }) : month.add({ months: 1 }));
+      } else {
+        dates.push(backward ? month.subtract({ days: 1 }) : month);
+      }
+    }
+  }
+  return dates;
+}
+
+/**
+ * Sorts zoned date-times by instant and removes duplicates.
+ */
+function sortUnique(values: ZonedDateTime[]): ZonedDateTime[] {
+  const sorted = [...values].sort(Temporal.ZonedDateTime.compare);
+  return sorted.filter((value, index) => index === 0 || !value.equals(sorted[index - 1]));
+}
+
+/**
+ * Picks the `bySetPos` positions from the sorted occurrences of a period.
+ */
+function applySetPositions(occurrences: ZonedDateTime[], positions: number[]): ZonedDateTime[] {
+  if (!positions.length) {
+    return occurrences;
+  }
+  const picked = positions
+    .map((position) => occurrences[position > 0 ? position - 1 : occurrences.length + position])
+    .filter((occurrence): occurrence is ZonedDateTime => occurrence !== undefined);
+  return sortUnique(picked);
+}
+
+/**
+ * Yields the periods of a rule with a frequency of a day or longer.
+ */
+function* getDayPeriods(rule: ResolvedRule, start: ZonedDateTime): Generator<Period> {
+  const startDate = start.toPlainDate();
+  const timeZone = start.timeZoneId;
+
+  for (let index = 0; ; index++) {
+    let from: PlainDate;
+    let to: PlainDate;
+    let weekYear = 0;
+    switch (rule.freq) {
+      case "YEARLY":
+        weekYear = startDate.year + index * rule.interval;
+        from = rule.byWeekNo.length
+          ? getWeekYearStart(weekYear, rule.weekStart)
+          : Temporal.PlainDate.from({ year: weekYear, month: 1, day: 1 });
+        to = rule.byWeekNo.length
+          ? getWeekYearStart(weekYear + 1, rule.weekStart)
+          : Temporal.PlainDate.from({ year: weekYear + 1, month: 1, day: 1 });
+        break;
+      case "MONTHLY":
+        from = startDate.with({ day: 1 }).add({ months: index * rule.interval });
+        to = from.add({ months: 1 });
+        break;
+      case "WEEKLY":
+        from = startDate
+          .subtract({ days: (startDate.dayOfWeek - rule.weekStart + 7) % 7 })
+          .add({ weeks: index * rule.interval });
+        to = from.add({ weeks: 1 });
+        break;
+      default:
+        from = startDate.add({ days: index * rule.interval });
+        to = from.add({ days: 1 });
+    }
+
+    // Yearly rules limited to some months only need to look at those months
+    const ranges: [PlainDate, PlainDate][] =
+      rule.freq === "YEARLY" && rule.byMonth.length && !rule.byWeekNo.length
+        ? [...rule.byMonth]
+            .sort((a, b) => a - b)
+            .map((month) => from.with({ month, day: 1 }))
+            .map((first) => [first, first.add({ months: 1 })])
+        : [[from, to]];
+
+    const dates: PlainDate[] = [];
+    for (const [rangeFrom, rangeTo] of ranges) {
+      for (let date = rangeFrom; Temporal.PlainDate.compare(date, rangeTo) < 0; date = date.add({ days: 1 })) {
+        if (matchesDate(date, rule, weekYear)) {
+          dates.push(date);
+        }
+      }
+    }
+    dates.push(...getSkippedDates(from, to, rule));
+
+    const occurrences: ZonedDateTime[] = [];
+    for (const date of dates) {
+      for (const hour of rule.byHour) {
+        for (const minute of rule.byMinute) {
+          for (const second of rule.bySecond) {
+            occurrences.push(date.toPlainDateTime({ hour, minute, second }).toZonedDateTime(timeZone));
+          }
+        }
+      }
+    }
+
+    yield { from, occurrences: applySetPositions(sortUnique(occurrences), rule.bySetPos) };
+  }
+}
+
+/**
+ * Yields the periods of an hourly, minutely or secondly rule. Steps are exact durations,
+ * so an hourly rule repeats every 60 minutes across DST transitions.
+ */
+function* getSubDailyPeriods(rule: ResolvedRule, start: ZonedDateTime): Generator<Period> {
+  const step = SUB_DAILY_MILLISECONDS[rule.freq]! * rule.interval;
+  const smallestUnit = rule.freq === "HOURLY" ? "hour" : rule.freq === "MINUTELY" ? "minute" : "second";
+  const base = start.round({ smallestUnit, roundingMode: "floor" });
+
+  for (let index = 0; ; index++) {
+    const current = base.add({ milliseconds: index * step });
+    const date = current.toPlainDate();
+
+    if (!matchesDate(date, rule, date.year)) {
+      // Jump to the first step of the next day
+      const nextDay = date.add({ days: 1 }).toZonedDateTime({ timeZone: start.timeZoneId });
+      index += Math.max(Math.ceil((nextDay.epochMilliseconds - current.epochMilliseconds) / step) - 1, 0);
+      yield { from: date, occurrences: [] };
+      continue;
+    }
+
+    const limited =
+      (rule.byHour.length && !rule.byHour.includes(current.hour)) ||
+      (rule.freq !== "HOURLY" && rule.byMinute.length && !rule.byMinute.includes(current.minute)) ||
+      (rule.freq === "SECONDLY" && rule.bySecond.length && !rule.bySecond.includes(current.second));
+
+    const occurrences: ZonedDateTime[] = [];
+    if (!limited) {
+      const minutes = rule.freq === "HOURLY" ? rule.byMinute : [current.minute];
+      const seconds = rule.freq === "SECONDLY" ? [current.second] : rule.bySecond;
+      for (const minute of minutes) {
+        for (const second of seconds) {
+          occurrences.push(current.with({ minute, second }));
+        }
+      }
+    }
+
+    yield { from: date, occurrences: applySetPositions(sortUnique(occurrences), rule.bySetPos) };
+  }
+}
+
+/**
+ * Determines whether an occurrence is after the `until` limit of a rule.
+ */
+function isAfterUntil(occurrence: ZonedDateTime, until: ResolvedRule["until"]): boolean {
+  if (!until) {
+    return false;
+  }
+  if (until instanceof Temporal.ZonedDateTime) {
+    return Temporal.ZonedDateTime.compare(occurrence, until) > 0;
+  }
+  if (until instanceof Temporal.PlainDateTime) {
+    return Temporal.PlainDateTime.compare(occurrence.toPlainDateTime(), until) > 0;
+  }
+  return Temporal.PlainDate.compare(occurrence.toPlainDate(), until) > 0;
+}
+
+/**
+ * Lazily expands a rule into its occurrences, in ascending order.
+ */
+function* expandRule(rule: ResolvedRule, start: ZonedDateTime): Generator<ZonedDateTime> {
+  const periods = SUB_DAILY_MILLISECONDS[rule.freq] ? getSubDailyPeriods(rule, start) : getDayPeriods(rule, start);
+  const untilDate =
+    rule.until instanceof Temporal.ZonedDateTime
+      ? rule.until.withTimeZone(start.timeZoneId).toPlainDate()
+      : rule.until && Temporal.PlainDate.from(rule.until);
+
+  let emitted = 0;
+  let lastYear = start.year;
+  for (const { from, occurrences } of periods) {
+    if (untilDate && Temporal.PlainDate.compare(from, untilDate) > 0) {
+      return;
+    }
+
+    for (const occurrence of occurrences) {
+      if (Temporal.ZonedDateTime.compare(occurrence, start) < 0) {
+        continue;
+      }
+      if (isAfterUntil(occurrence, rule.until) || (rule.count !== undefined && emitted >= rule.count)) {
+        return;
+      }
+      emitted++;
+      lastYear = occurrence.year;
+      yield occurrence;
+    }
+
+    if (from.year - lastYear > MAX_EMPTY_YEARS) {
+      return;
+    }
+  }
+}
+
+/**
+ * Moves an occurrence onto a workday, keeping its time of day. Returns `null` when it is skipped.
+ */
+function adjustOccurrence(
+  occurrence: ZonedDateTime,
+  calendar: BusinessCalendar,
+  roll: WorkdayRoll,
+): ZonedDateTime | null {
+  const date = occurrence.toPlainDate();
+  if (calendar.isWorkday(date)) {
+    return occurrence;
+  }
+
+  let target: PlainDate;
+  switch (roll) {
+    case "skip":
+      return null;
+    case "next":
+      target = calendar.next(date);
+      break;
+    case "previous":
+      target = calendar.previous(date);
+      break;
+    case "nearest": {
+      const next = calendar.next(date);
+      const previous = calendar.previous(date);
+      target = date.until(next).days <= previous.until(date).days ? next : previous;
+      break;
+    }
+    case "modifiedNext": {
+      const next = calendar.next(date);
+      target = next.month === date.month ? next : calendar.previous(date);
+      break;
+    }
+    case "modifiedPrevious": {
+      const previous = calendar.previous(date);
+      target = previous.month === date.month ? previous : calendar.next(date);
+      break;
+    }
+  }
+
+  return occurrence.withPlainDate(target);
+}
+
+/**
+ * Converts a date-time option to a ZonedDateTime. Strings without a time zone annotation are
+ * interpreted in the given time zone: local date-times as wall-clock times, strings with an offset as instants.
+ *
+ * @internal
+ */
+export function toZonedDateTime(value: ZonedDateTime | string, timeZone: TimeZone): ZonedDateTime {
+  if (typeof value !== "string") {
+    return value;
+  }
+  if (/\[.+\]$/.test(value)) {
+    return Temporal.ZonedDateTime.from(value);
+  }
+  if (/T[\d:.]+$/.test(value)) {
+    return Temporal.PlainDateTime.from(value).toZonedDateTime(timeZone);
+  }
+  return convertToZonedDateTime(value, timeZone);
+}
+
+/**
+ * A recurrence set: a start date, an optional RFC 5545 recurrence rule, additional dates (`RDATE`),
+ * excluded dates (`EXDATE`) and an optional adjustment onto workdays.
+ *
+ * Occurrences are computed lazily in the time zone of the start date, so "every day at 09:00"
+ * stays at 09:00 local time across DST transitions. Local times that do not exist are moved forward
+ * by the length of the gap, as RFC 5545 requires. Like most RRULE implementations, the start date is
+ * only an occurrence when it matches the rule. Without a rule, the start date is the only occurrence
+ * besides `rdates`.
+ *
+ * @example
+ * ```typescript
+ * // Every 2nd Tuesday at 10:00 in Seoul
+ * const meetings = new Recurrence({
+ *   start: '2024-01-01T10:00:00+09:00[Asia/Seoul]',
+ *   rule: 'FREQ=MONTHLY;BYDAY=2TU',
+ * });
+ * meetings.between('2024-01-01T00:00+09:00[Asia/Seoul]', '2024-04-01T00:00+09:00[Asia/Seoul]');
+ * // [2024-01-09T10:00, 2024-02-13T10:00, 2024-03-12T10:00]
+ *
+ * // Last workday of the month, taking Korean holidays into account
+ * const closing = new Recurrence({
+ *   start: '2024-01-01T18:00:00+09:00[Asia/Seoul]',
+ *   rule: { freq: 'MONTHLY', byMonthDay: [-1] },
+ *   adjustment: { roll: 'previous', holidayList: getKoreanHolidays(2024) },
+ * });
+ * closing.after('2024-03-01T00:00+09:00[Asia/Seoul]'); // 2024-03-29T18:00 (Friday)
+ *
+ * // Billing on the 31st, clamped to the last day of shorter months
+ * const billing = new Recurrence({ start: '2024-01-31T00:00:00+09:00[Asia/Seoul]', rule: 'FREQ=MONTHLY;SKIP=BACKWARD' });
+ * billing.all(3); // [2024-01-31, 2024-02-29, 2024-03-31]
+ * ```
+ */
+export class Recurrence implements Iterable<ZonedDateTime> {
+  /** The start of the recurrence (`DTSTART`) */
+  readonly start: ZonedDateTime;
+  /** The recurrence rule (`RRULE`) */
+  readonly rule?: RecurrenceRule;
+  /** Additional occurrences (`RDATE`), sorted */
+  readonly rdates: readonly ZonedDateTime[];
+  /** Excluded occurrences (`EXDATE`). PlainDate values exclude the whole day */
+  readonly exdates: readonly (ZonedDateTime | PlainDate)[];
+  /** How occurrences on non-working days are moved */
+  readonly adjustment?: WorkdayAdjustment;
+
+  private readonly calendar?: BusinessCalendar;
+
+  /**
+   * Creates a recurrence set.
+   *
+   * Strings without a time zone and the holidays and days off of the adjustment default to the configuration
+   * the recurrence is created with, e.g. by `createRecurrence` of a `createIlgaemi` instance.
+   *
+   * @param options - The start date, rule, additional and excluded dates and workday adjustment
+   * @throws {InvalidDateFormatError} When `options.rule` is invalid RRULE text
+   * @throws {OutOfRangeError} When the interval or count of the rule is not a positive integer
+   */
+  constructor(options: RecurrenceOptions) {
+    this.start = toZonedDateTime(options.start, getDefaultTimeZone());
+    this.rule = typeof options.rule === "string" ? parseRecurrenceRule(options.rule) : options.rule;
+    if (this.rule) {
+      resolveRule(this.rule, this.start);
+    }
+
+    const timeZone = this.start.timeZoneId;
+    this.rdates = (options.rdates ?? [])
+      .map((date) => toZonedDateTime(date, timeZone))
+      .sort(Temporal.ZonedDateTime.compare);
+    this.exdates = (options.exdates ?? []).map((date) =>
+      typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date)
+        ? Temporal.PlainDate.from(date)
+        : date instanceof Temporal.PlainDate
+        ? date
+        : toZonedDateTime(date, timeZone),
+    );
+    this.adjustment = options.adjustment;
+    if (this.adjustment) {
+      this.calendar = new BusinessCalendar(
+        this.adjustment.holidayList ?? getDefaultHolidays(),
+        this.adjustment.dayOffWeekdays ?? getDefaultDayOffWeekdays(),
+      );
+    }
+  }
+
+  /**
+   * Parses iCalendar recurrence properties (`DTSTART`, `RRULE`, `RDATE` and `EXDATE` lines).
+   *
+   * `TZID` parameters, UTC values (`...Z`) and `VALUE=DATE` are supported. Floating date-times
+   * (without `TZID` or `Z`) are interpreted in `options.timeZone`.
+   *
+   * @param text - The iCalendar lines
+   * @param options - `timeZone` for floating values (default: `DEFAULT_TIMEZONE`) and an optional workday adjustment
+   * @returns The recurrence set
+   * @throws {MissingParameterError} When there is no `DTSTART` line
+   * @throws {InvalidDateFormatError} When a line or value cannot be parsed. `position` points to the invalid line
+   *
+   * @example
+   * ```typescript
+   * const recurrence = Recurrence.parse(`DTSTART;TZID=Asia/Seoul:20240109T100000
+   * RRULE:FREQ=MONTHLY;BYDAY=2TU
+   * EXDATE;TZID=Asia/Seoul:20240312T100000`);
+   * ```
+   */
+  static parse(text: string, options: { timeZone?: TimeZone; adjustment?: WorkdayAdjustment } = {}): Recurrence {
+    const floatingTimeZone = options.timeZone ?? getDefaultTimeZone();
+    const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+    let start: ZonedDateTime | undefined;
+    let rule: RecurrenceRule | undefined;
+    const values: { name: string; timeZone?: string; value: ZonedDateTime | PlainDateTime | PlainDate }[] = [];
+
+    const formats = ["iCalendar DTSTART, RRULE, RDATE and EXDATE lines"];
+    let position = 0;
+    for (const line of lines) {
+      const invalid = () => new InvalidDateFormatError(text, formats, position);
+      const match = /^([A-Z-]+)((?:;[^:]*)?):(.*)$/i.exec(line.trim());
+      position += line.length + 1;
+      if (!line.trim()) {
+        continue;
+      }
+      if (!match) {
+        throw invalid();
+      }
+
+      const name = match[1].toUpperCase();
+      const timeZone = /;TZID=([^;:]+)/i.exec(match[2])?.[1];
+      if (name === "RRULE") {
+        rule = parseRecurrenceRule(match[3]);
+        continue;
+      }
+      if (name !== "DTSTART" && name !== "RDATE" && name !== "EXDATE") {
+        throw invalid();
+      }
+
+      for (const item of match[3].split(",")) {
+        const value = parseICalValue(item);
+        if (!value) {
+          throw invalid();
+        }
+        values.push({ name, timeZone, value });
+      }
+    }
+
+    const toZoned = (value: ZonedDateTime | PlainDateTime | PlainDate, timeZone: string, time?: Temporal.PlainTime) =>
+      value instanceof Temporal.ZonedDateTime
+        ? value.withTimeZone(timeZone)
+        : value instanceof Temporal.PlainDateTime
+        ? value.toZonedDateTime(timeZone)
+        : value.toZonedDateTime({ timeZone, plainTime: time });
+
+    const startValue = values.find(({ name }) => name === "DTSTART");
+    if (!startValue) {
+      throw new MissingParameterError("DTSTART");
+    }
+    start = toZoned(startValue.value, startValue.timeZone ?? floatingTimeZone);
+    const zone = start.timeZoneId;
+
+    return new Recurrence({
+      start,
+      rule,
+      rdates: values
+        .filter(({ name }) => name === "RDATE")
+        .map(({ value, timeZone }) => toZoned(value, timeZone ?? zone, start!.toPlainTime()).withTimeZone(zone)),
+      exdates: values
+        .filter(({ name }) => name === "EXDATE")
+        .map(({ value, timeZone }) =>
+          value instanceof Temporal.PlainDate ? value : toZoned(value, timeZone ?? zone).withTimeZone(zone),
+        ),
+      adjustment: options.adjustment,
+    });
+  }
+
+  /**
+   * Lazily yields the occurrences in ascending order. Infinite rules yield forever, so stop
+   * iterating (or use `between`, `after` or `all(limit)`) when you have enough.
+   */
+  *[Symbol.iterator](): Generator<ZonedDateTime> {
+    const ruleOccurrences = this.rule ? expandRule(resolveRule(this.rule, this.start), this.start) : [this.start];
+    const calendar = this.calendar;
+
+    // Merge rule occurrences and rdates (both sorted), then drop exdates and duplicates. Adjusted occurrences
+    // can repeat a date-time that is not the previous one (e.g. Saturday 09:00 rolled back onto Friday 09:00
+    // after Friday 17:00), so every yielded instant is remembered
+    let rdateIndex = 0;
+    const seen = new Set<bigint>();
+    const merged = function* (rdates: readonly ZonedDateTime[]): Generator<ZonedDateTime> {
+      for (const occurrence of ruleOccurrences) {
+        while (rdateIndex < rdates.length && Temporal.ZonedDateTime.compare(rdates[rdateIndex], occurrence) <= 0) {
+          yield rdates[rdateIndex++];
+        }
+        yield occurrence;
+      }
+      yield* rdates.slice(rdateIndex);
+    };
+
+    for (const occurrence of merged(this.rdates)) {
+      if (this.isExcluded(occurrence)) {
+        continue;
+      }
+      const adjusted = calendar ? adjustOccurrence(occurrence, calendar, this.adjustment!.roll) : occurrence;
+      if (adjusted && !seen.has(adjusted.epochNanoseconds)) {
+        seen.add(adjusted.epochNanoseconds);
+        yield adjusted;
+      }
+    }
+  }
+
+  /**
+   * Returns all occurrences, or the first `limit` occurrences.
+   *
+   * @param limit - The maximum number of occurrences to return
+   * @returns The occurrences in ascending order
+   * @throws {IncompatibleOperationError} When the rule is infinite (no `count` or `until`) and no limit is given
+   */
+  all(limit?: number): ZonedDateTime[] {
+    if (limit === undefined && this.rule && this.rule.count === undefined && this.rule.until === undefined) {
+      throw new IncompatibleOperationError(
+        "listing all occurrences",
+        "the rule has no COUNT or UNTIL; pass a limit or use between()",
+      );
+    }
+
+    const occurrences: ZonedDateTime[] = [];
+    if (limit === 0) {
+      return occurrences;
+    }
+    for (const occurrence of this) {
+      occurrences.push(occurrence);
+      if (occurrences.length === limit) {
+        break;
+      }
+    }
+    return occurrences;
+  }
+
+  /**
+   * Returns the occurrences within a range.
+   *
+   * @param start - The start of the range. Strings without a time zone are interpreted in the time zone of the recurrence
+   * @param end - The end of the range
+   * @param inclusive - Whether occurrences equal to `start` or `end` are included. Defaults to `false`
+   * @returns The occurrences in ascending order
+   *
+   * @example
+   * ```typescript
+   * const daily = new Recurrence({ start: '2024-03-09T09:00:00[America/New_York]', rule: 'FREQ=DAILY' });
+   * daily.between('2024-03-09T00:00[America/New_York]', '2024-03-12T00:00[America/New_York]');
+   * // [2024-03-09T09:00-05:00, 2024-03-10T09:00-04:00, 2024-03-11T09:00-04:00]
+   * ```
+   */
+  between(start: ZonedDateTime | string, end: ZonedDateTime | string, inclusive = false): ZonedDateTime[] {
+    const from = toZonedDateTime(start, this.start.timeZoneId);
+    const to = toZonedDateTime(end, this.start.timeZoneId);
+
+    const occurrences: ZonedDateTime[] = [];
+    for (const occurrence of this) {
+      const comparison = Temporal.ZonedDateTime.compare(occurrence, to);
+      if (comparison > 0 || (comparison === 0 && !inclusive)) {
+        break;
+      }
+      const fromComparison = Temporal.ZonedDateTime.compare(occurrence, from);
+      if (fromComparison > 0 || (fromComparison === 0 && inclusive)) {
+        occurrences.push(occurrence);
+      }
+    }
+    return occurrences;
+  }
+
+  /**
+   * Returns the first occurrence after a date.
+   *
+   * @param date - The reference date. Strings without a time zone are interpreted in the time zone of the recurrence
+   * @param inclusive - Whether an occurrence equal to `date` is returned. Defaults to `false`
+   * @returns The next occurrence, or `null` when there is none
+   */
+  after(date: ZonedDateTime | string, inclusive = false): ZonedDateTime | null {
+    const reference = toZonedDateTime(date, this.start.timeZoneId);
+    for (const occurrence of this) {
+      const comparison = Temporal.ZonedDateTime.compare(occurrence, reference);
+      if (comparison > 0 || (comparison === 0 && inclusive)) {
+        return occurrence;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns the last occurrence before a date.
+   *
+   * @param date - The reference date. Strings without a time zone are interpreted in the time zone of the recurrence
+   * @param inclusive - Whether an occurrence equal to `date` is returned. Defaults to `false`
+   * @returns The previous occurrence, or `null` when there is none
+   */
+  before(date: ZonedDateTime | string, inclusive = false): ZonedDateTime | null {
+    const reference = toZonedDateTime(date, this.start.timeZoneId);
+    let last: ZonedDateTime | null = null;
+    for (const occurrence of this) {
+      const comparison = Temporal.ZonedDateTime.compare(occurrence, reference);
+      if (comparison > 0 || (comparison === 0 && !inclusive)) {
+        break;
+      }
+      last = occurrence;
+    }
+    return last;
+  }
+
+  /**
+   * Serializes the recurrence set as iCalendar lines (`DTSTART`, `RRULE`, `RDATE`, `EXDATE`).
+   *
+   * Date-times are written with the `TZID` of the start date (or in UTC for `UTC`), and local
+   * `until` values are converted to UTC as RFC 5545 requires.
+   *
+   * @returns The iCalendar lines, separated by `\n`
+   *
+   * @example
+   * ```typescript
+   * new Recurrence({ start: '2024-01-09T10:00:00+09:00[Asia/Seoul]', rule: 'FREQ=MONTHLY;BYDAY=2TU' }).toString();
+   * // "DTSTART;TZID=Asia/Seoul:20240109T100000\nRRULE:FREQ=MONTHLY;BYDAY=2TU"
+   * ```
+   */
+  toString(): string {
+    const timeZone = this.start.timeZoneId;
+    const isUTC = timeZone === "UTC";
+    const formatDateTime = (value: ZonedDateTime) =>
+      isUTC ? formatICalValue(value) : formatICalValue(value.withTimeZone(timeZone).toPlainDateTime());
+    const parameter = isUTC ? "" : `;TZID=${timeZone}`;
+
+    const lines = [`DTSTART${parameter}:${formatDateTime(this.start)}`];
+    if (this.rule) {
+      const until =
+        this.rule.until instanceof Temporal.PlainDateTime ? this.rule.until.toZonedDateTime(timeZone) : this.rule.until;
+      lines.push(`RRULE:${formatRecurrenceRule({ ...this.rule, until })}`);
+    }
+    if (this.rdates.length) {
+      lines.push(`RDATE${parameter}:${this.rdates.map(formatDateTime).join(",")}`);
+    }
+
+    const exdateTimes = this.exdates.filter((date): date is ZonedDateTime => date instanceof Temporal.ZonedDateTime);
+    const exdateDays = this.exdates.filter((date): date is PlainDate => date instanceof Temporal.PlainDate);
+    if (exdateTimes.length) {
+      lines.push(`EXDATE${parameter}:${exdateTimes.map(formatDateTime).join(",")}`);
+    }
+    if (exdateDays.length) {
+      lines.push(`EXDATE;VALUE=DATE:${exdateDays.map(formatICalValue).join(",")}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Determines whether an occurrence is excluded by `exdates`.
+   */
+  private isExcluded(occurrence: ZonedDateTime): boolean {
+    return this.exdates.some((date) =>
+      date instanceof Temporal.PlainDate ? date.equals(occurrence.toPlainDate()) : date.equals(occurrence),
+    );
+  }
+}
+
+/**
+ * Creates a recurrence set, like `new Recurrence(options)`.
+ *
+ * On a `createIlgaemi` instance, a start without a time zone is read in the time zone of the instance and the
+ * workday adjustment defaults to the holidays and days off of the instance.
+ *
+ * @param options - The start date, rule, additional and excluded dates and workday adjustment
+ * @returns The recurrence set
+ * @throws {InvalidDateFormatError} When `options.rule` is invalid RRULE text
+ * @throws {OutOfRangeError} When the interval or count of the rule is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const us = createIlgaemi({
+ *   timeZone: 'America/New_York',
+ *   holidays: [{ date: '2024-07-04', name: 'Independence Day', recurring: true }],
+ * });
+ *
+ * const standup = us.createRecurrence({
+ *   start: '2024-07-01T09:00:00',
+ *   rule: 'FREQ=DAILY;COUNT=4',
+ *   adjustment: { roll: 'skip' },
+ * });
+ * standup.all().map(String);
+ * // ["2024-07-01T09:00:00-04:00[America/New_York]", "2024-07-02T09:00:00-04:00[America/New_York]",
+ * //  "2024-07-03T09:00:00-04:00[America/New_York]"]
+ * ```
+ */
+export function createRecurrence(options: RecurrenceOptions): Recurrence {
+  return new Recurrence(options);
+}
@@ -1,20 +1,36 @@
 import { Temporal } from "@js-temporal/polyfill";
-import type { ZonedDateTime } from "../types";
-import { InvalidDateError, InvalidDateFormatError } from "../errors";
+import type {
+  Disambiguation,
+  DisambiguationOptions,
+  PlainDateTime,
+  TimeZoneAbbreviation,
+  TimeZoneInfo,
+  TimeZoneTransition,
+  ZonedDateTime,
+} from "../types";
+import { getClock, toInstant } from "../clock";
+import { getDefaultTimeZone } from "../config";
+import {
+  AmbiguousTimeZoneAbbreviationError,
+  InvalidDateError,
+  InvalidDateFormatError,
+  InvalidLocalTimeError,
+} from "../errors";
+
+export { DEFAULT_TIMEZONE } from "../config";
 
 /**
- * Default timezone for the library (Korea Standard Time).
- *
- * This constant is used as the default timezone throughout the library
- * when no specific timezone is provided.
+ * Matches ISO 8601 date-time strings with a UTC offset (`Z`, `+09:00`), which denote exact times.
  */
-export const DEFAULT_TIMEZONE = "Asia/Seoul";
+const EXACT_TIME_PATTERN = /[Tt ][\d:.,]+(?:[Zz]|[+\u2212-]\d)/;
 
 /**
  * Returns the current date and time in Asia/Seoul timezone.
  *
  * This is a convenience function that provides the current moment
- * in Korean Standard Time (KST).
+ * in Korean Standard Time (KST). The moment is read from the active clock,
+ * so it can be frozen in tests with `useFixedClock` or `withClock`. Instances
+ * created with `createIlgaemi` use their configured time zone and clock.
  *
  * @returns The current ZonedDateTime in Asia/Seoul timezone
  *
@@ -31,7 +47,7 @@ export const DEFAULT_TIMEZONE = "Asia/Seoul";
  * ```
  */
 export function getNow(): ZonedDateTime {
-  return Temporal.Now.zonedDateTimeISO(DEFAULT_TIMEZONE);
+  return getClock().now().toZonedDateTimeISO(getDefaultTimeZone());
 }
 
 /**
@@ -49,7 +65,7 @@ export function getNow(): ZonedDateTime {
  * ```
  */
 export function getDate(year: number, month: number, day: number): ZonedDateTime {
-  return Temporal.PlainDate.from({ year, month, day }).toZonedDateTime(DEFAULT_TIMEZONE);
+  return Temporal.PlainDate.from({ year, month, day }).toZonedDateTime(getDefaultTimeZone());
 }
 
 /**
@@ -64,12 +80,21 @@ export function getDate(year: number, month: number, day: number): ZonedDateTime
  * @param millisecond - The millisecond (0-999, optional)
  * @param microsecond - The microsecond (0-999, optional)
  * @param nanosecond - The nanosecond (0-999, optional)
+ * @param options - Options for the conversion
+ * @param options.disambiguation - How a local time skipped or repeated by a DST transition is resolved
+ *   (default: "compatible")
  * @returns A ZonedDateTime object in the default timezone
+ * @throws {InvalidLocalTimeError} When the local time is skipped or repeated and `disambiguation` is "reject"
  *
  * @example
  * ```typescript
  * const dateTime = getDateTime(2024, 1, 15, 14, 30, 45, 123, 456, 789);
  * console.log(dateTime.toString()); // "2024-01-15T14:30:45.123456789+09:00[Asia/Seoul]"
+ *
+ * // In an instance whose time zone observes DST
+ * const ny = createIlgaemi({ timeZone: 'America/New_York' });
+ * ny.getDateTime(2024, 3, 10, 2, 30).toString(); // "2024-03-10T03:30:00-04:00[America/New_York]"
+ * ny.getDateTime(2024, 3, 10, 2, 30, 0, 0, 0, 0, { disambiguation: 'reject' }); // throws InvalidLocalTimeError
  * ```
  */
 export function getDateTime(
@@ -82,8 +107,9 @@ export function getDateTime(
   millisecond?: number,
   microsecond?: number,
   nanosecond?: number,
+  options: DisambiguationOptions = {},
 ): ZonedDateTime {
-  return Temporal.PlainDateTime.from({
+  const plainDateTime = Temporal.PlainDateTime.from({
     year,
     month,
     day,
@@ -93,7 +119,8 @@ export function getDateTime(
     millisecond,
     microsecond,
     nanosecond,
-  }).toZonedDateTime(DEFAULT_TIMEZONE);
+  });
+  return resolveLocalDateTime(plainDateTime, getDefaultTimeZone(), options.disambiguation);
 }
 
 /**
@@ -191,6 +218,7 @@ export function getTime(
  *
  * This function provides the current moment in Coordinated Universal Time (UTC),
  * which is useful for storing timestamps in a timezone-neutral format.
+ * Like `getNow`, it reads the active clock.
  *
  * @returns The current ZonedDateTime in UTC timezone
  *
@@ -208,7 +236,7 @@ export function getTime(
  * ```
  */
 export function getNowUTC(): ZonedDateTime {
-  return Temporal.Now.zonedDateTimeISO("UTC");
+  return getClock().now().toZonedDateTimeISO("UTC");
 }
 
 /**
@@ -218,9 +246,18 @@ export function getNowUTC(): ZonedDateTime {
  * with the specified timezone. It's particularly useful for timezone conversions
  * and ensuring consistent timezone handling throughout an application.
  *
+ * Strings with an offset (`Z`, `+09:00`) are exact times. Date-only strings, date-time strings without an
+ * offset and PlainDateTime values are local times in the target timezone, or in the annotated time zone
+ * for strings such as `2024-03-10T02:30[America/New_York]`. A local time skipped or repeated by a DST
+ * transition is resolved with `options.disambiguation`.
+ *
  * @param date - The date/time to convert. Can be a ZonedDateTime, PlainDateTime, or an ISO string
  * @param timeZone - The target timezone. Defaults to Asia/Seoul
+ * @param options - Options for the conversion
+ * @param options.disambiguation - How a local time skipped or repeated by a DST transition is resolved
+ *   (default: "compatible")
  * @returns A ZonedDateTime in the specified timezone
+ * @throws {InvalidLocalTimeError} When the local time is skipped or repeated and `disambiguation` is "reject"
  *
  * @example
  * ```typescript
@@ -241,23 +278,44 @@ export function getNowUTC(): ZonedDateTime {
  * const existing = Temporal.Now.zonedDateTimeISO('UTC');
  * const converted = convertToZonedDateTime(existing, 'Asia/Tokyo');
  * // Same instant, different timezone representation
+ *
+ * // 01:30 occurs twice when New York falls back
+ * const repeated = Temporal.PlainDateTime.from('2024-11-03T01:30:00');
+ * convertToZonedDateTime(repeated, 'America/New_York').offset; // "-04:00"
+ * convertToZonedDateTime(repeated, 'America/New_York', { disambiguation: 'later' }).offset; // "-05:00"
+ *
+ * // Local date-time strings are resolved the same way: 02:30 is skipped when New York springs forward
+ * convertToZonedDateTime('2024-03-10T02:30', 'America/New_York').toString();
+ * // "2024-03-10T03:30:00-04:00[America/New_York]"
+ * convertToZonedDateTime('2024-03-10T02:30', 'America/New_York', { disambiguation: 'reject' });
+ * // throws InvalidLocalTimeError
  * ```
  */
 export function convertToZonedDateTime(
   date: ZonedDateTime | Temporal.PlainDateTime | string,
-  timeZone: string = DEFAULT_TIMEZONE,
+  timeZone: string = getDefaultTimeZone(),
+  options: DisambiguationOptions = {},
 ): ZonedDateTime {
   if (typeof date === "string") {
-    if (date.includes("T")) {
+    if (EXACT_TIME_PATTERN.test(date)) {
       return Temporal.Instant.from(date).toZonedDateTimeISO(timeZone);
     }
+    if (date.includes("[")) {
+      // A local time in the annotated time zone
+      const { timeZoneId } = Temporal.ZonedDateTime.from(date);
+      const local = resolveLocalDateTime(Temporal.PlainDateTime.from(date), timeZoneId, options.disambiguation);
+      return local.withTimeZone(timeZone);
+    }
+    if (date.includes("T")) {
+      return resolveLocalDateTime(Temporal.PlainDateTime.from(date), timeZone, options.disambiguation);
+    }
     const plainDate = Temporal.PlainDate.from(date);
     const plainDateTime = plainDate.toPlainDateTime(Temporal.PlainTime.from("00:00:00"));
-    return plainDateTime.toZonedDateTime(timeZone);
+    return resolveLocalDateTime(plainDateTime, timeZone, options.disambiguation);
   }
 
   if (date instanceof Temporal.PlainDateTime) {
-    return date.toZonedDateTime(timeZone);
+    return resolveLocalDateTime(date, timeZone, options.disambiguation);
   }
 
   return date.withTimeZone(timeZone);
@@ -321,7 +379,7 @@ export function toUTC(zonedDateTime: ZonedDateTime): ZonedDateTime {
  * console.log(utc.epochMilliseconds === kst.epochMilliseconds); // true
  * ```
  */
-export function fromUTC(utcDateTime: ZonedDateTime, timeZone: string = DEFAULT_TIMEZONE): ZonedDateTime {
+export function fromUTC(utcDateTime: ZonedDateTime, timeZone: string = getDefaultTimeZone()): ZonedDateTime {
   return utcDateTime.withTimeZone(timeZone);
 }
 
@@ -373,3 +431,470 @@ export function getTimeZoneOffset(fromTimeZone: string, toTimeZone: string, refe
 
   return (toOffset - fromOffset) / (1000 * 1000 * 1000 * 60 * 60); // 나노초를 시간으로 변환
 }
+
+/**
+ * Returns the exact times a local date-time maps to in a time zone: none in a gap, two in an overlap.
+ */
+function getPossibleInstants(dateTime: PlainDateTime | string, timeZone: string): Temporal.Instant[] {
+  return Temporal.TimeZone.from(timeZone).getPossibleInstantsFor(Temporal.PlainDateTime.from(dateTime));
+}
+
+/**
+ * Converts a local date-time to a ZonedDateTime, resolving skipped and repeated local times.
+ *
+ * @internal
+ * @throws {InvalidLocalTimeError} When the local time is skipped or repeated and `disambiguation` is "reject"
+ */
+export function resolveLocalDateTime(
+  dateTime: PlainDateTime,
+  timeZone: string,
+  disambiguation: Disambiguation = "compatible",
+): ZonedDateTime {
+  if (disambiguation === "reject") {
+    const instants = getPossibleInstants(dateTime, timeZone);
+    if (instants.length !== 1) {
+      throw new InvalidLocalTimeError(dateTime.toString(), timeZone, instants.length === 0 ? "skipped" : "ambiguous");
+    }
+  }
+  return dateTime.toZonedDateTime(timeZone, { disambiguation });
+}
+
+/**
+ * Checks whether a local date-time is skipped in a time zone, i.e. falls in the gap when clocks move forward.
+ *
+ * Skipped local times are shifted when converted to an exact time: `"compatible"` and `"later"` move them
+ * forward by the length of the gap, `"earlier"` backward.
+ *
+ * @param dateTime - The local date-time, as a PlainDateTime or an ISO 8601 string without offset
+ * @param timeZone - The timezone. Defaults to Asia/Seoul
+ * @returns `true` if the local date-time does not exist in the timezone
+ *
+ * @example
+ * ```typescript
+ * // New York springs forward from 02:00 to 03:00 on 2024-03-10
+ * isSkippedLocalTime('2024-03-10T02:30', 'America/New_York'); // true
+ * isSkippedLocalTime('2024-03-10T03:30', 'America/New_York'); // false
+ * isSkippedLocalTime('2024-03-10T02:30'); // false (Asia/Seoul has no DST)
+ * ```
+ */
+export function isSkippedLocalTime(dateTime: PlainDateTime | string, timeZone: string = getDefaultTimeZone()): boolean {
+  return getPossibleInstants(dateTime, timeZone).length === 0;
+}
+
+/**
+ * Checks whether a local date-time is ambiguous in a time zone, i.e. occurs twice when clocks move back.
+ *
+ * Ambiguous local times map to the earlier occurrence with `"compatible"` and `"earlier"`, and to the later
+ * occurrence with `"later"`.
+ *
+ * @param dateTime - The local date-time, as a PlainDateTime or an ISO 8601 string without offset
+ * @param timeZone - The timezone. Defaults to Asia/Seoul
+ * @returns `true` if the local date-time occurs twice in the timezone
+ *
+ * @example
+ * ```typescript
+ * // New York falls back from 02:00 to 01:00 on 2024-11-03
+ * isAmbiguousLocalTime('2024-11-03T01:30', 'America/New_York'); // true
+ * isAmbiguousLocalTime('2024-11-03T02:30', 'America/New_York'); // false
+ * ```
+ */
+export function isAmbiguousLocalTime(
+  dateTime: PlainDateTime | string,
+  timeZone: string = getDefaultTimeZone(),
+): boolean {
+  return getPossibleInstants(dateTime, timeZone).length > 1;
+}
+
+/**
+ * Common time zone abbreviations with the representative zones and the fixed offsets they stand for.
+ *
+ * Abbreviations used by several regions have one candidate per region: `CST` is US Central or China
+ * Standard Time, `IST` India, Irish or Israel Standard Time.
+ */
+const TIME_ZONE_ABBREVIATIONS: Record<string, { timeZone: string; offset: string }[]> = {
+  UTC: [{ timeZone: "UTC", offset: "+00:00" }],
+  GMT: [{ timeZone: "UTC", offset: "+00:00" }],
+  KST: [{ timeZone: "Asia/Seoul", offset: "+09:00" }],
+  JST: [{ timeZone: "Asia/Tokyo", offset: "+09:00" }],
+  HKT: [{ timeZone: "Asia/Hong_Kong", offset: "+08:00" }],
+  SGT: [{ timeZone: "Asia/Singapore", offset: "+08:00" }],
+  PHT: [{ timeZone: "Asia/Manila", offset: "+08:00" }],
+  ICT: [{ timeZone: "Asia/Bangkok", offset: "+07:00" }],
+  WIB: [{ timeZone: "Asia/Jakarta", offset: "+07:00" }],
+  IST: [
+    { timeZone: "Asia/Kolkata", offset: "+05:30" },
+    { timeZone: "Europe/Dublin", offset: "+01:00" },
+    { timeZone: "Asia/Jerusalem", offset: "+02:00" },
+  ],
+  IDT: [{ timeZone: "Asia/Jerusalem", offset: "+03:00" }],
+  GST: [{ timeZone: "Asia/Dubai", offset: "+04:00" }],
+  MSK: [{ timeZone: "Europe/Moscow", offset: "+03:00" }],
+  TRT: [{ timeZone: "Europe/Istanbul", offset: "+03:00" }],
+  EET: [{ timeZone: "Europe/Athens", offset: "+02:00" }],
+  EEST: [{ timeZone: "Europe/Athens", offset: "+03:00" }],
+  CET: [{ timeZone: "Europe/Paris", offset: "+01:00" }],
+  CEST: [{ timeZone: "Europe/Paris", offset: "+02:00" }],
+  BST: [{ timeZone: "Europe/London", offset: "+01:00" }],
+  WET: [{ timeZone: "Europe/Lisbon", offset: "+00:00" }],
+  WEST: [{ timeZone: "Europe/Lisbon", offset: "+01:00" }],
+  SAST: [{ timeZone: "Africa/Johannesburg", offset: "+02:00" }],
+  WAT: [{ timeZone: "Africa/Lagos", offset: "+01:00" }],
+  EAT: [{ timeZone: "Africa/Nairobi", offset: "+03:00" }],
+  EST: [{ timeZone: "America/New_York", offset: "-05:00" }],
+  EDT: [{ timeZone: "America/New_York", offset: "-04:00" }],
+  CST: [
+    { timeZone: "America/Chicago", offset: "-06:00" },
+    { timeZone: "Asia/Shanghai", offset: "+08:00" },
+  ],
+  CDT: [{ timeZone: "America/Chicago", offset: "-05:00" }],
+  MST: [{ timeZone: "America/Denver", offset: "-07:00" }],
+  MDT: [{ timeZone: "America/Denver", offset: "-06:00" }],
+  PST: [{ timeZone: "America/Los_Angeles", offset: "-08:00" }],
+  PDT: [{ timeZone: "America/Los_Angeles", offset: "-07:00" }],
+  AKST: [{ timeZone: "America/Anchorage", offset: "-09:00" }],
+  AKDT: [{ timeZone: "America/Anchorage", offset: "-08:00" }],
+  HST: [{ timeZone: "Pacific/Honolulu", offset: "-10:00" }],
+  AST: [{ timeZone: "America/Halifax", offset: "-04:00" }],
+  ADT: [{ timeZone: "America/Halifax", offset: "-03:00" }],
+  BRT: [{ timeZone: "America/Sao_Paulo", offset: "-03:00" }],
+  ART: [{ timeZone: "America/Argentina/Buenos_Aires", offset: "-03:00" }],
+  AEST: [{ timeZone: "Australia/Sydney", offset: "+10:00" }],
+  AEDT: [{ timeZone: "Australia/Sydney", offset: "+11:00" }],
+  ACST: [{ timeZone: "Australia/Adelaide", offset: "+09:30" }],
+  ACDT: [{ timeZone: "Australia/Adelaide", offset: "+10:30" }],
+  AWST: [{ timeZone: "Australia/Perth", offset: "+08:00" }],
+  NZST: [{ timeZone: "Pacific/Auckland", offset: "+12:00" }],
+  NZDT: [{ timeZone: "Pacific/Auckland", offset: "+13:00" }],
+  ChST: [{ timeZone: "Pacific/Guam", offset: "+10:00" }],
+};
+
+/**
+ * Time zones offered by `listTimeZones`: identifier, English name, Korean name and the abbreviations in use.
+ */
+const TIME_ZONES: [id: string, en: string, ko: string, abbreviations: string[]][] = [
+  ["UTC", "Coordinated Universal Time", "협정 세계시", ["UTC"]],
+  ["Asia/Seoul", "Seoul", "서울", ["KST"]],
+  ["Asia/Tokyo", "Tokyo", "도쿄", ["JST"]],
+  ["Asia/Shanghai", "Shanghai", "상하이", ["CST"]],
+  ["Asia/Taipei", "Taipei", "타이베이", ["CST"]],
+  ["Asia/Hong_Kong", "Hong Kong", "홍콩", ["HKT"]],
+  ["Asia/Singapore", "Singapore", "싱가포르", ["SGT"]],
+  ["Asia/Manila", "Manila", "마닐라", ["PHT"]],
+  ["Asia/Bangkok", "Bangkok", "방콕", ["ICT"]],
+  ["Asia/Ho_Chi_Minh", "Ho Chi Minh City", "호찌민", ["ICT"]],
+  ["Asia/Jakarta", "Jakarta", "자카르타", ["WIB"]],
+  ["Asia/Yangon", "Yangon", "양곤", []],
+  ["Asia/Kathmandu", "Kathmandu", "카트만두", []],
+  ["Asia/Kolkata", "Kolkata", "콜카타", ["IST"]],
+  ["Asia/Tashkent", "Tashkent", "타슈켄트", []],
+  ["Asia/Dubai", "Dubai", "두바이", ["GST"]],
+  ["Asia/Jerusalem", "Jerusalem", "예루살렘", ["IST", "IDT"]],
+  ["Asia/Ulaanbaatar", "Ulaanbaatar", "울란바토르", []],
+  ["Asia/Vladivostok", "Vladivostok", "블라디보스토크", []],
+  ["Europe/Moscow", "Moscow", "모스크바", ["MSK"]],
+  ["Europe/Istanbul", "Istanbul", "이스탄불", ["TRT"]],
+  ["Europe/Athens", "Athens", "아테네", ["EET", "EEST"]],
+  ["Europe/Helsinki", "Helsinki", "헬싱키", ["EET", "EEST"]],
+  ["Europe/Berlin", "Berlin", "베를린", ["CET", "CEST"]],
+  ["Europe/Paris", "Paris", "파리", ["CET", "CEST"]],
+  ["Europe/Madrid", "Madrid", "마드리드", ["CET", "CEST"]],
+  ["Europe/Rome", "Rome", "로마", ["CET", "CEST"]],
+  ["Europe/Amsterdam", "Amsterdam", "암스테르담", ["CET", "CEST"]],
+  ["Europe/Warsaw", "Warsaw", "바르샤바", ["CET", "CEST"]],
+  ["Europe/Stockholm", "Stockholm", "스톡홀름", ["CET", "CEST"]],
+  ["Europe/London", "London", "런던", ["GMT", "BST"]],
+  ["Europe/Dublin", "Dublin", "더블린", ["GMT", "IST"]],
+  ["Europe/Lisbon", "Lisbon", "리스본", ["WET", "WEST"]],
+  ["Atlantic/Reykjavik", "Reykjavik", "레이캬비크", ["GMT"]],
+  ["Africa/Cairo", "Cairo", "카이로", ["EET", "EEST"]],
+  ["Africa/Johannesburg", "Johannesburg", "요하네스버그", ["SAST"]],
+  ["Africa/Lagos", "Lagos", "라고스", ["WAT"]],
+  ["Africa/Nairobi", "Nairobi", "나이로비", ["EAT"]],
+  ["America/New_York", "New York", "뉴욕", ["EST", "EDT"]],
+  ["America/Toronto", "Toronto", "토론토", ["EST", "EDT"]],
+  ["America/Chicago", "Chicago", "시카고", ["CST", "CDT"]],
+  ["America/Mexico_City", "Mexico City", "멕시코시티", ["CST"]],
+  ["America/Denver", "Denver", "덴버", ["MST", "MDT"]],
+  ["America/Phoenix", "Phoenix", "피닉스", ["MST"]],
+  ["America/Los_Angeles", "Los Angeles", "로스앤젤레스", ["PST", "PDT"]],
+  ["America/Vancouver", "Vancouver", "밴쿠버", ["PST", "PDT"]],
+  ["America/Anchorage", "Anchorage", "앵커리지", ["AKST", "AKDT"]],
+  ["America/Halifax", "Halifax", "핼리팩스", ["AST", "ADT"]],
+  ["America/Bogota", "Bogota", "보고타", []],
+  ["America/Lima", "Lima", "리마", []],
+  ["America/Santiago", "Santiago", "산티아고", []],
+  ["America/Sao_Paulo", "São Paulo", "상파울루", ["BRT"]],
+  ["America/Argentina/Buenos_Aires", "Buenos Aires", "부에노스아이레스", ["ART"]],
+  ["Pacific/Honolulu", "Honolulu", "호놀룰루", ["HST"]],
+  ["Pacific/Guam", "Guam", "괌", ["ChST"]],
+  ["Australia/Perth", "Perth", "퍼스", ["AWST"]],
+  ["Australia/Adelaide", "Adelaide", "애들레이드", ["ACST", "ACDT"]],
+  ["Australia/Brisbane", "Brisbane", "브리즈번", ["AEST"]],
+  ["Australia/Sydney", "Sydney", "시드니", ["AEST", "AEDT"]],
+  ["Australia/Melbourne", "Melbourne", "멜버른", ["AEST", "AEDT"]],
+  ["Pacific/Auckland", "Auckland", "오클랜드", ["NZST", "NZDT"]],
+];
+
+/**
+ * Returns the UTC offset of a time zone at a moment, as a string.
+ *
+ * Unlike `getTimeZoneOffset`, which compares two zones in hours, this returns the offset in the ISO 8601
+ * form used by Temporal, which keeps fractional offsets such as India's exact.
+ *
+ * @param timeZone - The timezone
+ * @param at - The moment, as a ZonedDateTime, an Instant or an ISO string with an offset or a time zone
+ *   annotation. Defaults to now
+ * @returns The UTC offset (e.g. "+09:00", "-04:00", "+05:30")
+ * @throws {RangeError} When the time zone is not a valid IANA time zone identifier or UTC offset
+ * @throws {InvalidDateFormatError} When the moment string cannot be parsed as an exact time
+ *
+ * @example
+ * ```typescript
+ * getOffsetString('Asia/Seoul'); // "+09:00"
+ * getOffsetString('America/New_York', '2024-01-15T12:00:00Z'); // "-05:00"
+ * getOffsetString('America/New_York', '2024-07-15T12:00:00Z'); // "-04:00"
+ * getOffsetString('Asia/Kolkata'); // "+05:30"
+ * ```
+ */
+export function getOffsetString(timeZone: string, at?: ZonedDateTime | Temporal.Instant | string): string {
+  return new Temporal.TimeZone(timeZone).getOffsetStringFor(at === undefined ? getClock().now() : toInstant(at));
+}
+
+/**
+ * Describes the offset transition of a time zone at an instant.
+ */
+function toTransition(timeZone: Temporal.TimeZone, instant: Temporal.Instant): TimeZoneTransition {
+  const previous = instant.subtract({ nanoseconds: 1 });
+  return {
+    at: instant.toZonedDateTimeISO(timeZone),
+    offsetBefore: timeZone.getOffsetStringFor(previous),
+    offsetAfter: timeZone.getOffsetStringFor(instant),
+    type: timeZone.getOffsetNanosecondsFor(instant) > timeZone.getOffsetNanosecondsFor(previous) ? "gap" : "overlap",
+  };
+}
+
+/**
+ * Finds the next change of the UTC offset of a time zone, such as the start or end of daylight saving time.
+ *
+ * @param timeZone - The timezone
+ * @param from - The moment to search from, exclusive. Accepts the same values as `getOffsetString`.
+ *   Defaults to now
+ * @returns The next transition, or `null` when the time zone has no further transitions (e.g. Asia/Seoul)
+ * @throws {RangeError} When the time zone is not a valid IANA time zone identifier or UTC offset
+ * @throws {InvalidDateFormatError} When the moment string cannot be parsed as an exact time
+ *
+ * @example
+ * ```typescript
+ * const next = getNextTransition('America/New_York', '2024-01-01T00:00:00Z');
+ * next?.at.toString(); // "2024-03-10T03:00:00-04:00[America/New_York]"
+ * next?.offsetBefore; // "-05:00"
+ * next?.offsetAfter; // "-04:00"
+ * next?.type; // "gap"
+ *
+ * getNextTransition('Asia/Seoul'); // null
+ * ```
+ */
+export function getNextTransition(
+  timeZone: string,
+  from?: ZonedDateTime | Temporal.Instant | string,
+): TimeZoneTransition | null {
+  const zone = new Temporal.TimeZone(timeZone);
+  const instant = zone.getNextTransition(from === undefined ? getClock().now() : toInstant(from));
+  return instant ? toTransition(zone, instant) : null;
+}
+
+/**
+ * Finds the previous change of the UTC offset of a time zone.
+ *
+ * @param timeZone - The timezone
+ * @param from - The moment to search from, exclusive. Accepts the same values as `getOffsetString`.
+ *   Defaults to now
+ * @returns The previous transition, or `null` when the time zone has no earlier transitions
+ * @throws {RangeError} When the time zone is not a valid IANA time zone identifier or UTC offset
+ * @throws {InvalidDateFormatError} When the moment string cannot be parsed as an exact time
+ *
+ * @example
+ * ```typescript
+ * const previous = getPreviousTransition('America/New_York', '2024-12-01T00:00:00Z');
+ * previous?.at.toString(); // "2024-11-03T01:00:00-05:00[America/New_York]"
+ * previous?.type; // "overlap"
+ *
+ * // Korea last observed daylight saving time in 1988
+ * getPreviousTransition('Asia/Seoul')?.at.toString(); // "1988-10-09T02:00:00+09:00[Asia/Seoul]"
+ * ```
+ */
+export function getPreviousTransition(
+  timeZone: string,
+  from?: ZonedDateTime | Temporal.Instant | string,
+): TimeZoneTransition | null {
+  const zone = new Temporal.TimeZone(timeZone);
+  const instant = zone.getPreviousTransition(from === undefined ? getClock().now() : toInstant(from));
+  return instant ? toTransition(zone, instant) : null;
+}
+
+/**
+ * Lists the changes of the UTC offset of a time zone during a year, in order.
+ *
+ * The year runs from midnight on January 1 to midnight on January 1 of the next year, in the time zone.
+ *
+ * @param timeZone - The timezone
+ * @param year - The year
+ * @returns The transitions in the year; empty for time zones without daylight saving time
+ * @throws {RangeError} When the time zone is not a valid IANA time zone identifier or UTC offset
+ *
+ * @example
+ * ```typescript
+ * listTransitions('Europe/London', 2024).map((t) => `${t.at.toPlainDate()} ${t.offsetAfter}`);
+ * // ["2024-03-31 +01:00", "2024-10-27 +00:00"]
+ *
+ * listTransitions('Asia/Seoul', 2024); // []
+ * ```
+ */
+export function listTransitions(timeZone: string, year: number): TimeZoneTransition[] {
+  const zone = new Temporal.TimeZone(timeZone);
+  const end = Temporal.PlainDate.from({ year: year + 1, month: 1, day: 1 }).toZonedDateTime(zone).toInstant();
+  const transitions: TimeZoneTransition[] = [];
+  let cursor = Temporal.PlainDate.from({ year, month: 1, day: 1 })
+    .toZonedDateTime(zone)
+    .toInstant()
+    .subtract({ nanoseconds: 1 });
+
+  for (;;) {
+    const instant = zone.getNextTransition(cursor);
+    if (!instant || Temporal.Instant.compare(instant, end) >= 0) {
+      return transitions;
+    }
+    transitions.push(toTransition(zone, instant));
+    cursor = instant;
+  }
+}
+
+/**
+ * Returns the common abbreviation of a time zone at a moment, such as "KST" or "EDT".
+ *
+ * Abbreviations are known for the zones listed by `listTimeZones`. For other zones, and for offsets that
+ * no abbreviation stands for (e.g. Korean daylight saving time in 1988), the offset string is returned.
+ *
+ * @param timeZone - The timezone. Defaults to Asia/Seoul
+ * @param at - The moment. Accepts the same values as `getOffsetString`. Defaults to now
+ * @returns The abbreviation, or the UTC offset (e.g. "+08:00") when there is none
+ * @throws {RangeError} When the time zone is not a valid IANA time zone identifier or UTC offset
+ * @throws {InvalidDateFormatError} When the moment string cannot be parsed as an exact time
+ *
+ * @example
+ * ```typescript
+ * getTimeZoneAbbreviation(); // "KST"
+ * getTimeZoneAbbreviation('America/New_York', '2024-01-15T12:00:00Z'); // "EST"
+ * getTimeZoneAbbreviation('America/New_York', '2024-07-15T12:00:00Z'); // "EDT"
+ * getTimeZoneAbbreviation('Asia/Shanghai'); // "CST"
+ * getTimeZoneAbbreviation('Asia/Kathmandu'); // "+05:45"
+ * ```
+ */
+export function getTimeZoneAbbreviation(
+  timeZone: string = getDefaultTimeZone(),
+  at?: ZonedDateTime | Temporal.Instant | string,
+): string {
+  const offset = getOffsetString(timeZone, at);
+  const id = new Temporal.TimeZone(timeZone).id;
+  const abbreviations = TIME_ZONES.find(([zone]) => zone === id)?.[3] ?? [];
+  const matches = (abbreviation: string) =>
+    TIME_ZONE_ABBREVIATIONS[abbreviation].some((candidate) => candidate.offset === offset);
+  return abbreviations.find(matches) ?? offset;
+}
+
+/**
+ * Returns whether a time zone uses an offset in standard or daylight saving time of the current year.
+ */
+function usesOffset(timeZone: string, offset: string): boolean {
+  const { year } = getClock().now().toZonedDateTimeISO("UTC");
+  return [1, 7].some(
+    (month) => getOffsetString(timeZone, Temporal.ZonedDateTime.from({ year, month, day: 1, timeZone })) === offset,
+  );
+}
+
+/**
+ * Looks up a time zone abbreviation, ignoring case.
+ *
+ * Abbreviations stand for fixed offsets: "EST" is always -05:00, also in summer. Some abbreviations are
+ * used by several regions: "CST" is US Central (-06:00) or China (+08:00) Standard Time, and "IST" India
+ * (+05:30), Irish (+01:00) or Israel (+02:00) Standard Time. For these, `preferredTimeZone` selects the
+ * candidate of that zone, or the candidate whose offset the zone uses; without one, the lookup throws.
+ *
+ * @param abbreviation - The abbreviation (e.g. "KST", "edt")
+ * @param preferredTimeZone - The time zone deciding between the regions of an ambiguous abbreviation
+ * @returns The offset and a representative time zone, or `null` when the abbreviation is unknown
+ * @throws {AmbiguousTimeZoneAbbreviationError} When the abbreviation is used by several regions and
+ *   `preferredTimeZone` does not select one of them; `error.candidates` lists them
+ * @throws {RangeError} When the preferred time zone is not a valid IANA time zone identifier or UTC offset
+ *
+ * @example
+ * ```typescript
+ * resolveTimeZoneAbbreviation('KST'); // { abbreviation: 'KST', timeZone: 'Asia/Seoul', offset: '+09:00' }
+ * resolveTimeZoneAbbreviation('pdt'); // { abbreviation: 'PDT', timeZone: 'America/Los_Angeles', offset: '-07:00' }
+ * resolveTimeZoneAbbreviation('XYZ'); // null
+ *
+ * resolveTimeZoneAbbreviation('CST'); // throws AmbiguousTimeZoneAbbreviationError
+ * resolveTimeZoneAbbreviation('CST', 'America/Chicago'); // { abbreviation: 'CST', timeZone: 'America/Chicago', offset: '-06:00' }
+ * resolveTimeZoneAbbreviation('CST', 'Asia/Taipei'); // { abbreviation: 'CST', timeZone: 'Asia/Shanghai', offset: '+08:00' }
+ * ```
+ */
+export function resolveTimeZoneAbbreviation(
+  abbreviation: string,
+  preferredTimeZone?: string,
+): TimeZoneAbbreviation | null {
+  const key = Object.keys(TIME_ZONE_ABBREVIATIONS).find((name) => name.toUpperCase() === abbreviation.toUpperCase());
+  if (!key) {
+    return null;
+  }
+
+  const candidates = TIME_ZONE_ABBREVIATIONS[key].map((candidate) => ({ abbreviation: key, ...candidate }));
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+  if (preferredTimeZone !== undefined) {
+    const id = new Temporal.TimeZone(preferredTimeZone).id;
+    const preferred =
+      candidates.find((candidate) => candidate.timeZone === id) ??
+      candidates.find((candidate) => usesOffset(id, candidate.offset));
+    if (preferred) {
+      return preferred;
+    }
+  }
+  throw new AmbiguousTimeZoneAbbreviationError(key, candidates);
+}
+
+/**
+ * Lists common IANA time zones with English and Korean display names, for time zone pickers.
+ *
+ * The list covers major cities on every continent, sorted by UTC offset at the reference moment and then
+ * by English name. Offsets and abbreviations depend on the moment because of daylight saving time.
+ *
+ * @param at - The reference moment. Accepts the same values as `getOffsetString`. Defaults to now
+ * @returns The time zones with display names, offsets and abbreviations
+ * @throws {InvalidDateFormatError} When the moment string cannot be parsed as an exact time
+ *
+ * @example
+ * ```typescript
+ * const options = listTimeZones('2024-01-15T00:00:00Z').map((zone) => ({
+ *   value: zone.id,
+ *   label: `(UTC${zone.offset}) ${zone.ko}`,
+ * }));
+ * // [..., { value: 'Asia/Seoul', label: '(UTC+09:00) 서울' }, ...]
+ *
+ * listTimeZones().find((zone) => zone.id === 'America/New_York');
+ * // { id: 'America/New_York', en: 'New York', ko: '뉴욕', offset: '-05:00', abbreviation: 'EST' } in winter
+ * ```
+ */
+export function listTimeZones(at?: ZonedDateTime | Temporal.Instant | string): TimeZoneInfo[] {
+  const instant = at === undefined ? getClock().now() : toInstant(at);
+  return TIME_ZONES.map(([id, en, ko]) => ({
+    id,
+    en,
+    ko,
+    offset: getOffsetString(id, instant),
+    abbreviation: getTimeZoneAbbreviation(id, instant),
+    offsetNanoseconds: new Temporal.TimeZone(id).getOffsetNanosecondsFor(instant),
+  }))
+    .sort((a, b) => a.offsetNanoseconds - b.offsetNanoseconds || a.en.localeCompare(b.en))
+    .map(({ offsetNanoseconds: _, ...zone }) => zone);
+}
@@ -1,6 +1,14 @@
 import { Temporal } from "@js-temporal/polyfill";
-import type { ZonedDateTime, PlainDate, PlainDateTime } from "../types";
-import { DEFAULT_TIMEZONE } from "../timezone";
+import type {
+  ColumnTransformer,
+  DisambiguationOptions,
+  ZonedDateTime,
+  PlainDate,
+  PlainDateTime,
+  PlainTime,
+} from "../types";
+import { getDefaultTimeZone } from "../config";
+import { resolveLocalDateTime } from "../timezone";
 
 /**
  * 📚 **DATABASE STORAGE RECOMMENDATIONS**
@@ -48,9 +56,14 @@ import { DEFAULT_TIMEZONE } from "../timezone";
  *   - These are interpreted in the DEFAULT_TIMEZONE (Asia/Seoul)
  *   - This is an arbitrary decision that may not match your intent
  *   - Consider using ZonedDateTime instead for explicit timezone handling
+ *   - Local times skipped or repeated by a DST transition are resolved with `options.disambiguation`
  *
  * @param temporal - The Temporal object to convert
+ * @param options - Options for the conversion of Plain types
+ * @param options.disambiguation - How a local time skipped or repeated by a DST transition is resolved
+ *   (default: "compatible")
  * @returns A JavaScript Date object representing the same moment in time
+ * @throws {InvalidLocalTimeError} When the local time is skipped or repeated and `disambiguation` is "reject"
  *
  * @example
  * ```typescript
@@ -72,6 +85,7 @@ import { DEFAULT_TIMEZONE } from "../timezone";
  */
 export function temporalToDate(
   temporal: Temporal.Instant | ZonedDateTime | PlainDate | PlainDateTime | null | undefined,
+  options: DisambiguationOptions = {},
 ): Date | null {
   if (!temporal) {
     return null;
@@ -86,16 +100,11 @@ export function temporalToDate(
   }
 
   if (temporal instanceof Temporal.PlainDate) {
-    const zonedDateTime = temporal.toZonedDateTime({
-      timeZone: DEFAULT_TIMEZONE,
-      plainTime: Temporal.PlainTime.from("00:00:00"),
-    });
-    return new Date(zonedDateTime.epochMilliseconds);
+    return plainDateToDate(temporal, getDefaultTimeZone(), Temporal.PlainTime.from("00:00:00"), options);
   }
 
   if (temporal instanceof Temporal.PlainDateTime) {
-    const zonedDateTime = temporal.toZonedDateTime(DEFAULT_TIMEZONE);
-    return new Date(zonedDateTime.epochMilliseconds);
+    return plainDateTimeToDate(temporal, getDefaultTimeZone(), options);
   }
 
   throw new Error(`Unsupported temporal type: ${typeof temporal}`);
@@ -126,7 +135,7 @@ export function temporalToDate(
  */
 export function dateToZonedDateTime(
   date: Date | null | undefined,
-  timeZone: string = DEFAULT_TIMEZONE,
+  timeZone: string = getDefaultTimeZone(),
 ): ZonedDateTime | null {
   if (!date) {
     return null;
@@ -157,7 +166,10 @@ export function dateToZonedDateTime(
  * console.log(utcPlainDate.toString()); // "2024-01-15" (in UTC)
  * ```
  */
-export function dateToPlainDate(date: Date | null | undefined, timeZone: string = DEFAULT_TIMEZONE): PlainDate | null {
+export function dateToPlainDate(
+  date: Date | null | undefined,
+  timeZone: string = getDefaultTimeZone(),
+): PlainDate | null {
   if (!date) {
     return null;
   }
@@ -190,7 +202,7 @@ export function dateToPlainDate(date: Date | null | undefined, timeZone: string
  */
 export function dateToPlainDateTime(
   date: Date | null | undefined,
-  timeZone: string = DEFAULT_TIMEZONE,
+  timeZone: string = getDefaultTimeZone(),
 ): PlainDateTime | null {
   if (!date) {
     return null;
@@ -213,7 +225,11 @@ export function dateToPlainDateTime(
  * @param plainDate - The PlainDate to convert
  * @param timeZone - The timezone to interpret the date in
  * @param timeOfDay - The time of day (defaults to start of day)
+ * @param options - Options for the conversion
+ * @param options.disambiguation - How a local time skipped or repeated by a DST transition is resolved
+ *   (default: "compatible")
  * @returns Date object representing the specified moment
+ * @throws {InvalidLocalTimeError} When the local time is skipped or repeated and `disambiguation` is "reject"
  *
  * @example
  * ```typescript
@@ -235,12 +251,9 @@ export function plainDateToDate(
   plainDate: PlainDate,
   timeZone: string,
   timeOfDay: Temporal.PlainTime = Temporal.PlainTime.from("00:00:00"),
+  options: DisambiguationOptions = {},
 ): Date {
-  const zonedDateTime = plainDate.toZonedDateTime({
-    timeZone,
-    plainTime: timeOfDay,
-  });
-  return new Date(zonedDateTime.epochMilliseconds);
+  return plainDateTimeToDate(plainDate.toPlainDateTime(timeOfDay), timeZone, options);
 }
 
 /**
@@ -248,7 +261,11 @@ export function plainDateToDate(
  *
  * @param plainDateTime - The PlainDateTime to convert
  * @param timeZone - The timezone to interpret the datetime in
+ * @param options - Options for the conversion
+ * @param options.disambiguation - How a local time skipped or repeated by a DST transition is resolved
+ *   (default: "compatible")
  * @returns Date object representing the specified moment
+ * @throws {InvalidLocalTimeError} When the local time is skipped or repeated and `disambiguation` is "reject"
  *
  * @example
  * ```typescript
@@ -262,7 +279,219 @@ export function plainDateToDate(
  * console.log(seoulDate.getTime() !== utcDate.getTime()); // true
  * ```
  */
-export function plainDateTimeToDate(plainDateTime: PlainDateTime, timeZone: string): Date {
-  const zonedDateTime = plainDateTime.toZonedDateTime(timeZone);
+export function plainDateTimeToDate(
+  plainDateTime: PlainDateTime,
+  timeZone: string,
+  options: DisambiguationOptions = {},
+): Date {
+  const zonedDateTime = resolveLocalDateTime(plainDateTime, timeZone, options.disambiguation);
   return new Date(zonedDateTime.epochMilliseconds);
 }
+
+/**
+ * Creates a transformer for `date` columns mapping to `PlainDate`.
+ *
+ * Dates are written as the start of the day in the given time zone. Drivers returning `Date` objects
+ * (e.g. `pg` and `mysql2` by default) create them at midnight in the time zone of the process, so the
+ * time zone should match the one the driver uses. Strings such as `"2024-01-15"` are parsed directly.
+ *
+ * @param timeZone - The timezone the column's dates are interpreted in (defaults to Asia/Seoul)
+ * @param options - Options for writing dates
+ * @param options.disambiguation - How a midnight skipped by a DST transition is resolved (default: "compatible")
+ * @returns A transformer between `PlainDate` and `Date`
+ *
+ * @example
+ * ```typescript
+ * const transformer = createPlainDateTransformer('UTC');
+ * transformer.to(Temporal.PlainDate.from('2024-01-15')); // 2024-01-15T00:00:00.000Z
+ * transformer.from(new Date('2024-01-15T00:00:00.000Z')); // PlainDate 2024-01-15
+ * transformer.from('2024-01-15');                          // PlainDate 2024-01-15
+ * transformer.from(null);                                  // null
+ * ```
+ */
+export function createPlainDateTransformer(
+  timeZone: string = getDefaultTimeZone(),
+  options: DisambiguationOptions = {},
+): ColumnTransformer<PlainDate, Date> {
+  return {
+    to: (value) => (value ? plainDateToDate(value, timeZone, undefined, options) : null),
+    from: (value) => {
+      if (!value) {
+        return null;
+      }
+      return typeof value === "string" ? Temporal.PlainDate.from(value) : dateToPlainDate(value, timeZone);
+    },
+  };
+}
+
+/**
+ * Creates a transformer for `timestamp` (without time zone) columns mapping to `PlainDateTime`.
+ *
+ * Date-times are written as wall-clock times in the given time zone and read back in the same time zone.
+ * Strings such as `"2024-01-15 14:30:00"` are parsed directly.
+ *
+ * @param timeZone - The timezone the column's date-times are interpreted in (defaults to Asia/Seoul)
+ * @param options - Options for writing date-times
+ * @param options.disambiguation - How a local time skipped or repeated by a DST transition is resolved
+ *   (default: "compatible")
+ * @returns A transformer between `PlainDateTime` and `Date`
+ *
+ * @example
+ * ```typescript
+ * const transformer = createPlainDateTimeTransformer('UTC');
+ * transformer.to(Temporal.PlainDateTime.from('2024-01-15T14:30:00')); // 2024-01-15T14:30:00.000Z
+ * transformer.from('2024-01-15 14:30:00');                            // PlainDateTime 2024-01-15T14:30:00
+ *
+ * // Refuse to store wall times that don't exist or are ambiguous in New York
+ * const strict = createPlainDateTimeTransformer('America/New_York', { disambiguation: 'reject' });
+ * strict.to(Temporal.PlainDateTime.from('2024-03-10T02:30:00')); // throws InvalidLocalTimeError
+ * ```
+ */
+export function createPlainDateTimeTransformer(
+  timeZone: string = getDefaultTimeZone(),
+  options: DisambiguationOptions = {},
+): ColumnTransformer<PlainDateTime, Date> {
+  return {
+    to: (value) => (value ? plainDateTimeToDate(value, timeZone, options) : null),
+    from: (value) => {
+      if (!value) {
+        return null;
+      }
+      return typeof value === "string" ? Temporal.PlainDateTime.from(value) : dateToPlainDateTime(value, timeZone);
+    },
+  };
+}
+
+/**
+ * Creates a transformer for `timestamptz` columns mapping to `ZonedDateTime`.
+ *
+ * The exact moment is stored without data loss; values read from the database are returned in the
+ * given time zone. Strings with an offset such as `"2024-01-15 05:30:00+00"` are parsed as instants.
+ *
+ * @param timeZone - The timezone of the returned ZonedDateTime (defaults to Asia/Seoul)
+ * @returns A transformer between `ZonedDateTime` and `Date`
+ *
+ * @example
+ * ```typescript
+ * const transformer = createZonedDateTimeTransformer('America/New_York');
+ * transformer.to(Temporal.ZonedDateTime.from('2024-01-15T14:30:00+09:00[Asia/Seoul]')); // 2024-01-15T05:30:00.000Z
+ * transformer.from(new Date('2024-01-15T05:30:00.000Z'));
+ * // 2024-01-15T00:30:00-05:00[America/New_York]
+ * ```
+ */
+export function createZonedDateTimeTransformer(
+  timeZone: string = getDefaultTimeZone(),
+): ColumnTransformer<ZonedDateTime, Date> {
+  return {
+    to: (value) => temporalToDate(value),
+    from: (value) => {
+      if (!value) {
+        return null;
+      }
+      return typeof value === "string"
+        ? Temporal.Instant.from(value).toZonedDateTimeISO(timeZone)
+        : dateToZonedDateTime(value, timeZone);
+    },
+  };
+}
+
+/**
+ * Creates a transformer for `timestamptz` columns mapping to `Temporal.Instant`.
+ *
+ * Use this transformer when the entity only needs the exact moment and no time zone.
+ *
+ * @returns A transformer between `Temporal.Instant` and `Date`
+ *
+ * @example
+ * ```typescript
+ * const transformer = createInstantTransformer();
+ * transformer.from(new Date('2024-01-15T05:30:00.000Z')); // Instant 2024-01-15T05:30:00Z
+ * ```
+ */
+export function createInstantTransformer(): ColumnTransformer<Temporal.Instant, Date> {
+  return {
+    to: (value) => temporalToDate(value),
+    from: (value) => {
+      if (!value) {
+        return null;
+      }
+      return typeof value === "string"
+        ? Temporal.Instant.from(value)
+        : Temporal.Instant.fromEpochMilliseconds(value.getTime());
+    },
+  };
+}
+
+/**
+ * Creates a transformer for `time` columns mapping to `PlainTime`.
+ *
+ * Drivers return `time` columns as strings, so times are written as `HH:mm:ss` strings
+ * (with fractional seconds when present) and no time zone is involved.
+ *
+ * @returns A transformer between `PlainTime` and `string`
+ *
+ * @example
+ * ```typescript
+ * const transformer = createPlainTimeTransformer();
+ * transformer.to(Temporal.PlainTime.from('09:30')); // "09:30:00"
+ * transformer.from('18:00:00');                     // PlainTime 18:00:00
+ * ```
+ */
+export function createPlainTimeTransformer(): ColumnTransformer<PlainTime, string> {
+  return {
+    to: (value) => (value ? value.toString() : null),
+    from: (value) => (value ? Temporal.PlainTime.from(value) : null),
+  };
+}
+
+/**
+ * Wraps a transformer factory so that each conversion creates the transformer with the defaults in effect
+ * at that moment, rather than those at import time.
+ */
+function createDefaultTransformer<T, D>(create: () => ColumnTransformer<T, D>): ColumnTransformer<T, D> {
+  return {
+    to: (value) => create().to(value),
+    from: (value) => create().from(value),
+  };
+}
+
+/**
+ * Transformer for `date` columns mapping to `PlainDate` in the default timezone (Asia/Seoul).
+ *
+ * The default timezone is read on every conversion.
+ *
+ * @see createPlainDateTransformer
+ */
+export const PlainDateTransformer = createDefaultTransformer(() => createPlainDateTransformer());
+
+/**
+ * Transformer for `timestamp` columns mapping to `PlainDateTime` in the default timezone (Asia/Seoul).
+ *
+ * The default timezone is read on every conversion.
+ *
+ * @see createPlainDateTimeTransformer
+ */
+export const PlainDateTimeTransformer = createDefaultTransformer(() => createPlainDateTimeTransformer());
+
+/**
+ * Transformer for `timestamptz` columns mapping to `ZonedDateTime` in the default timezone (Asia/Seoul).
+ *
+ * The default timezone is read on every conversion.
+ *
+ * @see createZonedDateTimeTransformer
+ */
+export const ZonedDateTimeTransformer = createDefaultTransformer(() => createZonedDateTimeTransformer());
+
+/**
+ * Transformer for `timestamptz` columns mapping to `Temporal.Instant`.
+ *
+ * @see createInstantTransformer
+ */
+export const InstantTransformer = createInstantTransformer();
+
+/**
+ * Transformer for `time` columns mapping to `PlainTime`.
+ *
+ * @see createPlainTimeTransformer
+ */
+export const PlainTimeTransformer = createPlainTimeTransformer();
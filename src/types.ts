@@ -1,4 +1,20 @@
 import { Temporal } from "@js-temporal/polyfill";
+import type { Interval } from "./interval";
+import type * as calendar from "./calendar";
+import type * as cron from "./cron";
+import type * as date from "./date";
+import type * as fiscal from "./fiscal";
+import type * as format from "./format";
+import type * as holiday from "./holiday";
+import type * as hours from "./hours";
+import type * as ics from "./ics";
+import type * as interval from "./interval";
+import type * as json from "./json";
+import type * as lunar from "./lunar";
+import type * as meeting from "./meeting";
+import type * as recurrence from "./recurrence";
+import type * as timezone from "./timezone";
+import type * as transform from "./transform";
 
 /**
  * Supported date/time format types for the format function.
@@ -47,11 +63,86 @@ export type DateFormatType =
  */
 export type WeekDay = 1 | 2 | 3 | 4 | 5 | 6 | 7;
 
+/**
+ * Rule describing a holiday whose date moves from year to year.
+ *
+ * - `nthWeekday`: The n-th given weekday of a month (e.g., the first Monday of September)
+ * - `lastWeekday`: The last given weekday of a month (e.g., the last Monday of May)
+ * - `easter`: A number of days relative to Easter Sunday (e.g., -2 for Good Friday)
+ *
+ * When `month` is omitted from a weekday rule, the holiday occurs every month.
+ *
+ * @example
+ * ```typescript
+ * // Labor Day (US): first Monday of September
+ * const laborDay: HolidayRule = { type: 'nthWeekday', month: 9, weekday: 1, n: 1 };
+ *
+ * // Memorial Day (US): last Monday of May
+ * const memorialDay: HolidayRule = { type: 'lastWeekday', month: 5, weekday: 1 };
+ *
+ * // Closing day on the last Friday of every month
+ * const closingDay: HolidayRule = { type: 'lastWeekday', weekday: 5 };
+ *
+ * // Good Friday and Easter Monday
+ * const goodFriday: HolidayRule = { type: 'easter', offset: -2 };
+ * const easterMonday: HolidayRule = { type: 'easter', offset: 1 };
+ * ```
+ */
+export type HolidayRule =
+  | {
+      type: "nthWeekday";
+      /** The month (1-12). When omitted, the rule applies to every month */
+      month?: number;
+      /** The weekday (ISO numbering, 1=Monday) */
+      weekday: WeekDay;
+      /** The occurrence within the month (1-5) */
+      n: number;
+    }
+  | {
+      type: "lastWeekday";
+      /** The month (1-12). When omitted, the rule applies to every month */
+      month?: number;
+      /** The weekday (ISO numbering, 1=Monday) */
+      weekday: WeekDay;
+    }
+  | {
+      type: "easter";
+      /** The number of days relative to Easter Sunday. Defaults to 0 */
+      offset?: number;
+    };
+
+/**
+ * Policy for observing a holiday on another day when it falls on a day off
+ * or on the same day as another holiday.
+ *
+ * - `none`: The holiday is only observed on its actual date (default)
+ * - `nextWorkday`: Observed on the following workday (e.g., Korean 대체공휴일, UK bank holidays)
+ * - `nearestWeekday`: Observed on the closest workday, preferring the following day on a tie
+ *   (e.g., US federal holidays: Saturday → Friday, Sunday → Monday)
+ * - `previousWorkday`: Observed on the preceding workday
+ *
+ * When the observed day is already taken by another holiday, the holiday cascades further
+ * in the same direction until a free workday is found.
+ *
+ * @example
+ * ```typescript
+ * // UK: Christmas on Saturday → Monday, Boxing Day on Sunday → Tuesday
+ * const holidays: Holiday[] = [
+ *   { date: '2021-12-25', name: 'Christmas Day', recurring: true, observance: 'nextWorkday' },
+ *   { date: '2021-12-26', name: 'Boxing Day', recurring: true, observance: 'nextWorkday' }
+ * ];
+ * isWorkday('2021-12-27', holidays); // false
+ * isWorkday('2021-12-28', holidays); // false
+ * ```
+ */
+export type HolidayObservance = "none" | "nextWorkday" | "nearestWeekday" | "previousWorkday";
+
 /**
  * Holiday information interface for business day calculations.
  *
  * Represents a holiday that can affect business day calculations.
- * Supports both one-time holidays and recurring annual holidays.
+ * Supports both one-time holidays and recurring annual holidays. Holidays whose date
+ * changes every year are described by a `RuleHoliday`.
  *
  * @example
  * ```typescript
@@ -69,6 +160,22 @@ export type WeekDay = 1 | 2 | 3 | 4 | 5 | 6 | 7;
  *   recurring: true  // Will apply to December 25th every year
  * };
  *
+ * // US federal holiday observed on the nearest weekday
+ * const independenceDay: Holiday = {
+ *   date: '2026-07-04',
+ *   name: 'Independence Day',
+ *   recurring: true,
+ *   observance: 'nearestWeekday'  // 2026-07-04 is a Saturday → observed on Friday 2026-07-03
+ * };
+ *
+ * // Recurring holiday that only applies from 2023 onward
+ * const foundationDay: Holiday = {
+ *   date: '2023-06-01',
+ *   name: 'Foundation Day',
+ *   recurring: true,
+ *   validFrom: 2023
+ * };
+ *
  * // Holiday list for business day calculations
  * const holidays: Holiday[] = [
  *   { date: '2024-01-01', name: 'New Year\'s Day', recurring: true },
@@ -91,6 +198,132 @@ export interface Holiday {
    * When false or undefined, the holiday applies only to the specific year in the date.
    */
   recurring?: boolean;
+  /** The first year in which a recurring holiday applies (inclusive) */
+  validFrom?: number;
+  /** The last year in which a recurring holiday applies (inclusive) */
+  validUntil?: number;
+  /**
+   * How the holiday is observed when it falls on a day off or collides with another holiday.
+   * The actual date stays a holiday; the observed date becomes an additional day off.
+   * Defaults to `"none"`.
+   */
+  observance?: HolidayObservance;
+}
+
+/**
+ * A holiday whose date changes every year, computed from a rule.
+ *
+ * Rule holidays can be mixed with `Holiday` objects in every holiday list (see `HolidayDefinition`).
+ *
+ * @example
+ * ```typescript
+ * const thanksgiving: RuleHoliday = {
+ *   name: 'Thanksgiving Day',
+ *   rule: { type: 'nthWeekday', month: 11, weekday: 4, n: 4 },
+ * };
+ *
+ * const holidays: HolidayDefinition[] = [
+ *   { date: '2024-12-25', name: 'Christmas Day', recurring: true },
+ *   thanksgiving,
+ *   { name: 'Good Friday', rule: { type: 'easter', offset: -2 } },
+ * ];
+ * isWorkday('2024-11-28', holidays); // false
+ * ```
+ */
+export interface RuleHoliday {
+  /** The name or description of the holiday */
+  name: string;
+  /** The rule computing the date of the holiday in each year */
+  rule: HolidayRule;
+  /** The first year in which the holiday applies (inclusive) */
+  validFrom?: number;
+  /** The last year in which the holiday applies (inclusive) */
+  validUntil?: number;
+  /**
+   * How the holiday is observed when it falls on a day off or collides with another holiday.
+   * The actual date stays a holiday; the observed date becomes an additional day off.
+   * Defaults to `"none"`.
+   */
+  observance?: HolidayObservance;
+}
+
+/**
+ * An entry of a holiday list: a `Holiday` on a fixed date or a `RuleHoliday`.
+ *
+ * Every function taking a holiday list accepts both, so existing `Holiday[]` lists can be passed unchanged.
+ */
+export type HolidayDefinition = Holiday | RuleHoliday;
+
+/**
+ * Options for functions that operate on a range of workdays.
+ *
+ * @example
+ * ```typescript
+ * // Count workdays from Monday up to, but not including, next Monday
+ * countWorkdays('2024-01-15', '2024-01-22', { inclusive: false }); // 5
+ * ```
+ */
+export interface WorkdayRangeOptions {
+  /**
+   * Whether the end date is part of the range.
+   * The start date is always included. Defaults to `true`.
+   */
+  inclusive?: boolean;
+}
+
+/**
+ * Which endpoints belong to an `Interval`, in interval notation.
+ *
+ * - `[)`: The start is included, the end is excluded (half-open, default)
+ * - `[]`: Both endpoints are included (closed)
+ * - `()`: Both endpoints are excluded (open)
+ * - `(]`: The start is excluded, the end is included
+ */
+export type IntervalBounds = "[)" | "[]" | "()" | "(]";
+
+/**
+ * The calendar units at which an `Interval` can be split. Weeks start on Monday.
+ */
+export type IntervalUnit = "day" | "week" | "month";
+
+/**
+ * A week of an interval, as yielded by `Interval.weeks()`.
+ */
+export interface IntervalWeek<T extends PlainDate | ZonedDateTime> {
+  /** The part of the interval that falls in the week */
+  interval: Interval<T>;
+  /** The year of the week, as returned by `getWeekNum` */
+  year: number;
+  /** The month of the week, as returned by `getWeekNum` */
+  month: number;
+  /** The week number within the month, as returned by `getWeekNum` */
+  weekNum: number;
+}
+
+/**
+ * A date in the Korean lunisolar calendar (음력).
+ *
+ * @example
+ * ```typescript
+ * // 2024-02-10 in the solar calendar is the first day of the lunar year
+ * const seollal: LunarDate = { year: 2024, month: 1, day: 1, isLeapMonth: false };
+ *
+ * // The leap month (윤달) repeats the number of the preceding month
+ * const leap: LunarDate = { year: 2023, month: 2, day: 15, isLeapMonth: true };
+ * ```
+ */
+export interface LunarDate {
+  /** The lunar year */
+  year: number;
+  /** The lunar month (1-12) */
+  month: number;
+  /** The day of the lunar month (1-30) */
+  day: number;
+  /**
+   * Whether the month is a leap month (윤달).
+   * When false or undefined, the regular month is used.
+   */
+  isLeapMonth?: boolean;
 }
 
 /**
@@ -130,6 +363,9 @@ export type PlainTime = Temporal.PlainTime;
 /** Represents a date and time without timezone information */
 export type PlainDateTime = Temporal.PlainDateTime;
 
+/** Represents a length of time */
+export type Duration = Temporal.Duration;
+
 /**
  * Represents a timezone identifier string.
  *
@@ -139,3 +375,1164 @@ export type PlainDateTime = Temporal.PlainDateTime;
  * - 'UTC' for Coordinated Universal Time
  */
 export type TimeZone = string;
+
+/**
+ * How a local date-time is resolved when it is skipped or repeated in a time zone.
+ *
+ * At a DST gap (e.g. 02:30 on a spring-forward day in New York) the local time does not exist;
+ * at an overlap (e.g. 01:30 on a fall-back day) it exists twice.
+ *
+ * - `compatible`: Later instant in a gap, earlier instant in an overlap (Temporal's default)
+ * - `earlier`: The earlier of the two candidate instants
+ * - `later`: The later of the two candidate instants
+ * - `reject`: Throw an `InvalidLocalTimeError`
+ *
+ * @example
+ * ```typescript
+ * const local = Temporal.PlainDateTime.from('2024-03-10T02:30');
+ * convertToZonedDateTime(local, 'America/New_York').toString(); // "2024-03-10T03:30:00-04:00[America/New_York]"
+ * convertToZonedDateTime(local, 'America/New_York', { disambiguation: 'earlier' }).toString();
+ * // "2024-03-10T01:30:00-05:00[America/New_York]"
+ * convertToZonedDateTime(local, 'America/New_York', { disambiguation: 'reject' }); // throws InvalidLocalTimeError
+ * ```
+ */
+export type Disambiguation = "compatible" | "earlier" | "later" | "reject";
+
+/**
+ * Options for converting a local date-time to an exact time in a time zone.
+ */
+export interface DisambiguationOptions {
+  /** How skipped and repeated local times are resolved. Defaults to `"compatible"` */
+  disambiguation?: Disambiguation;
+}
+
+/**
+ * A change of the UTC offset of a time zone, such as the start or end of daylight saving time.
+ *
+ * @example
+ * ```typescript
+ * const transition = getNextTransition('America/New_York', '2024-01-01T00:00:00Z');
+ * // {
+ * //   at: 2024-03-10T03:00:00-04:00[America/New_York],
+ * //   offsetBefore: '-05:00',
+ * //   offsetAfter: '-04:00',
+ * //   type: 'gap',
+ * // }
+ * ```
+ */
+export interface TimeZoneTransition {
+  /** The first moment with the new offset, in the time zone */
+  at: ZonedDateTime;
+  /** The UTC offset before the transition (e.g. "-05:00") */
+  offsetBefore: string;
+  /** The UTC offset from the transition on (e.g. "-04:00") */
+  offsetAfter: string;
+  /**
+   * `gap` when clocks move forward and local times are skipped, `overlap` when clocks move back and local
+   * times occur twice
+   */
+  type: "gap" | "overlap";
+}
+
+/**
+ * A time zone abbreviation with the offset it stands for.
+ *
+ * @example
+ * ```typescript
+ * resolveTimeZoneAbbreviation('EDT'); // { abbreviation: 'EDT', timeZone: 'America/New_York', offset: '-04:00' }
+ * ```
+ */
+export interface TimeZoneAbbreviation {
+  /** The abbreviation (e.g. "KST", "EDT") */
+  abbreviation: string;
+  /** A representative IANA time zone using the abbreviation */
+  timeZone: TimeZone;
+  /** The fixed UTC offset the abbreviation stands for */
+  offset: string;
+}
+
+/**
+ * A time zone with English and Korean display names, for time zone pickers.
+ *
+ * @example
+ * ```typescript
+ * const seoul: TimeZoneInfo = {
+ *   id: 'Asia/Seoul',
+ *   en: 'Seoul',
+ *   ko: '서울',
+ *   offset: '+09:00',
+ *   abbreviation: 'KST',
+ * };
+ * ```
+ */
+export interface TimeZoneInfo {
+  /** The IANA time zone identifier */
+  id: TimeZone;
+  /** The English display name */
+  en: string;
+  /** The Korean display name */
+  ko: string;
+  /** The UTC offset at the reference time */
+  offset: string;
+  /** The abbreviation at the reference time, or the offset when the zone has no common abbreviation */
+  abbreviation: string;
+}
+
+/**
+ * Options for the built-in Korean public holiday provider.
+ *
+ * @example
+ * ```typescript
+ * // Add an election day that is declared as a public holiday
+ * const options: KoreanHolidayOptions = {
+ *   overrides: [{ date: '2024-04-10', name: '제22대 국회의원 선거' }],
+ * };
+ *
+ * const holidays = getKoreanHolidays(2024, options);
+ * ```
+ */
+export interface KoreanHolidayOptions {
+  /**
+   * Additional holidays for the requested period, such as election days (선거일)
+   * or temporary holidays (임시공휴일). These days are treated as public holidays
+   * when placing substitute holidays but never produce substitutes themselves.
+   */
+  overrides?: HolidayDefinition[];
+  /**
+   * Whether to include substitute holidays (대체공휴일).
+   * Defaults to `true`.
+   */
+  substitute?: boolean;
+}
+
+/**
+ * A window of local wall-clock time within a day.
+ *
+ * Times use the 24-hour `HH:mm` format. The end is exclusive and may be `"24:00"`
+ * to denote the end of the day.
+ *
+ * @example
+ * ```typescript
+ * const lunch: TimeWindow = { start: '12:00', end: '13:00' };
+ * ```
+ */
+export interface TimeWindow {
+  /** The start time (HH:mm), inclusive */
+  start: string;
+  /** The end time (HH:mm), exclusive */
+  end: string;
+}
+
+/**
+ * A fiscal calendar: fiscal years starting in any month, divided into quarters and 12 periods.
+ *
+ * By default periods are calendar months. With `weekPattern`, the calendar is a 52/53-week calendar:
+ * years consist of whole weeks starting on `weekStart`, quarters have 13 weeks split into periods by the
+ * pattern, and the 53rd week of a long year is added to the last period.
+ *
+ * @example
+ * ```typescript
+ * // Japanese or Korean school fiscal year: April to March, named after the starting year
+ * const april: FiscalCalendar = { startMonth: 4 };
+ *
+ * // US federal fiscal year: October to September, named after the ending year
+ * const federal: FiscalCalendar = { startMonth: 10, yearNaming: 'end' };
+ *
+ * // NRF retail 4-5-4 calendar: weeks from Sunday, the year ending on the Saturday nearest January 31
+ * const retail: FiscalCalendar = { startMonth: 2, weekPattern: '4-5-4', weekStart: 7, anchor: 'nearest' };
+ * ```
+ */
+export interface FiscalCalendar {
+  /**
+   * The month the fiscal year starts in (1-12). In a 52/53-week calendar, the year starts on a `weekStart`
+   * weekday around the first day of this month. Defaults to 1
+   */
+  startMonth?: number;
+  /**
+   * Whether a fiscal year is named after the calendar year of its start month (`"start"`) or the year after
+   * (`"end"`). Has no effect when the fiscal year starts in January. Defaults to `"start"`
+   */
+  yearNaming?: "start" | "end";
+  /** The weeks per period of each quarter, making a 52/53-week calendar. When omitted, periods are calendar months */
+  weekPattern?: "4-4-5" | "4-5-4" | "5-4-4";
+  /** The weekday weeks start on in a 52/53-week calendar (ISO numbering, 1=Monday). Defaults to 1 */
+  weekStart?: WeekDay;
+  /**
+   * Which `weekStart` weekday starts a 52/53-week year: the one `"nearest"` to the first day of `startMonth`,
+   * or the `"last"` one on or before it. Defaults to `"nearest"`
+   */
+  anchor?: "nearest" | "last";
+}
+
+/**
+ * Working hours of a single weekday.
+ *
+ * @example
+ * ```typescript
+ * // Short Friday without a lunch break
+ * const friday: BusinessDayHours = { open: '09:00', close: '15:00', breaks: [] };
+ * ```
+ */
+export interface BusinessDayHours {
+  /** The opening time (HH:mm) */
+  open: string;
+  /** The closing time (HH:mm). May be `"24:00"`, or earlier than `open` for overnight hours */
+  close: string;
+  /** Break windows of the day. When omitted, the breaks of `BusinessHours` apply */
+  breaks?: TimeWindow[];
+}
+
+/**
+ * Working-hours definition for time-of-day aware business calculations.
+ *
+ * Business hours only apply on workdays: weekdays listed in `dayOffWeekdays` and holidays
+ * are always closed, regardless of the hours configured here.
+ *
+ * A closing time earlier than the opening time denotes overnight hours (e.g. 22:00-06:00), which close on
+ * the next day. Overnight hours belong to the day they open, so a Friday night shift runs into Saturday
+ * morning even when Saturday is a day off. Break times before the opening time fall after midnight.
+ *
+ * @example
+ * ```typescript
+ * // 09:00-18:00 with a lunch break, closing early on Fridays
+ * const hours: BusinessHours = {
+ *   open: '09:00',
+ *   close: '18:00',
+ *   breaks: [{ start: '12:00', end: '13:00' }],
+ *   weekdays: {
+ *     5: { open: '09:00', close: '16:00' }
+ *   }
+ * };
+ *
+ * // Support desk in New York, closed on Mondays
+ * const support: BusinessHours = {
+ *   open: '08:00',
+ *   close: '20:00',
+ *   weekdays: { 1: null },
+ *   timeZone: 'America/New_York'
+ * };
+ * ```
+ */
+export interface BusinessHours {
+  /** The default opening time (HH:mm). Defaults to `"09:00"` */
+  open?: string;
+  /** The default closing time (HH:mm). Defaults to `"18:00"`. Earlier than `open` for overnight hours */
+  close?: string;
+  /** Break windows applied to every working day, such as a lunch break. Defaults to none */
+  breaks?: TimeWindow[];
+  /** Per-weekday overrides (ISO numbering, 1=Monday). `null` closes the weekday */
+  weekdays?: Partial<Record<WeekDay, BusinessDayHours | null>>;
+  /** The timezone the hours are defined in. Defaults to `DEFAULT_TIMEZONE` (Asia/Seoul) */
+  timeZone?: TimeZone;
+}
+
+/**
+ * A participant of a meeting searched with `findCommonSlots`.
+ *
+ * @example
+ * ```typescript
+ * const berlin: MeetingParticipant = {
+ *   name: 'Berlin',
+ *   timeZone: 'Europe/Berlin',
+ *   workingHours: { open: '08:00', close: '17:00', breaks: [{ start: '12:00', end: '13:00' }] },
+ *   coreHours: { start: '09:00', end: '16:00' },
+ *   holidays: [{ date: '2024-10-03', name: 'Tag der Deutschen Einheit' }],
+ * };
+ * ```
+ */
+export interface MeetingParticipant {
+  /** A name telling the participant apart in the results */
+  name?: string;
+  /**
+   * The time zone of the participant. Takes precedence over `workingHours.timeZone`. Defaults to
+   * `workingHours.timeZone`, or `DEFAULT_TIMEZONE` (Asia/Seoul)
+   */
+  timeZone?: TimeZone;
+  /** The working hours in the participant's time zone. Defaults to 09:00-18:00 */
+  workingHours?: BusinessHours;
+  /** The preferred hours within the working hours, in the participant's time zone. Defaults to all working hours */
+  coreHours?: TimeWindow;
+  /** The local holidays of the participant. Defaults to none */
+  holidays?: HolidayDefinition[];
+  /** The days off of the participant (ISO numbering, 1=Monday). Defaults to [6, 7] (Saturday, Sunday) */
+  dayOffWeekdays?: WeekDay[];
+}
+
+/**
+ * Options for `findCommonSlots`.
+ *
+ * @example
+ * ```typescript
+ * const options: FindCommonSlotsOptions = {
+ *   participants: [{ timeZone: 'Asia/Seoul' }, { timeZone: 'Europe/Berlin' }],
+ *   range: { start: '2024-01-15', end: '2024-01-20' },
+ *   duration: { minutes: 30 },
+ *   limit: 5,
+ * };
+ * ```
+ */
+export interface FindCommonSlotsOptions {
+  /** The participants. Every slot lies within the working hours of all of them */
+  participants: MeetingParticipant[];
+  /**
+   * The period to search, with the end excluded. An `Interval<ZonedDateTime>` can be passed. Strings are
+   * accepted as in `convertToZonedDateTime`, in `timeZone`; a date-only end is midnight at the start of
+   * that day, so that day is not searched
+   */
+  range: { start: ZonedDateTime | string; end: ZonedDateTime | string };
+  /** The length of the meeting, in days or time units (hours, minutes, ...). Years, months and weeks are rejected */
+  duration: Duration | Temporal.DurationLike | string;
+  /** The distance between the start times of candidate slots. Defaults to 30 minutes */
+  step?: Duration | Temporal.DurationLike | string;
+  /** The time zone of the returned slots. Start times are aligned to `step` from midnight in this zone */
+  timeZone?: TimeZone;
+  /** The maximum number of slots to return. Defaults to all */
+  limit?: number;
+}
+
+/**
+ * A slot of a participant, in the participant's time zone.
+ */
+export interface MeetingSlotParticipant {
+  /** The name of the participant, if given */
+  name?: string;
+  /** The slot in the participant's time zone */
+  interval: Interval<ZonedDateTime>;
+  /** Whether the slot lies within the participant's core hours */
+  inCoreHours: boolean;
+}
+
+/**
+ * A candidate meeting slot found by `findCommonSlots`.
+ *
+ * @example
+ * ```typescript
+ * const [best] = findCommonSlots(options);
+ * best.interval.toString(); // "[2024-01-15T17:00:00+09:00[Asia/Seoul], 2024-01-15T17:30:00+09:00[Asia/Seoul])"
+ * best.coreHoursCount; // 2
+ * best.participants.map((p) => p.interval.start.toPlainTime().toString()); // ["17:00:00", "09:00:00"]
+ * ```
+ */
+export interface MeetingSlot {
+  /** The slot, in the `timeZone` of the search */
+  interval: Interval<ZonedDateTime>;
+  /** The number of participants for whom the slot lies within their core hours */
+  coreHoursCount: number;
+  /** The slot as seen by each participant, in the order of `participants` */
+  participants: MeetingSlotParticipant[];
+}
+
+/**
+ * The frequency of a recurrence rule (RFC 5545 `FREQ`).
+ */
+export type RecurrenceFrequency = "YEARLY" | "MONTHLY" | "WEEKLY" | "DAILY" | "HOURLY" | "MINUTELY" | "SECONDLY";
+
+/**
+ * A weekday of a recurrence rule (RFC 5545 `BYDAY`).
+ *
+ * Either a weekday number (ISO numbering, 1=Monday) or a weekday with an ordinal, where
+ * `nth` counts within the month (or the year for yearly rules without `byMonth`) and
+ * negative values count from the end.
+ *
+ * @example
+ * ```typescript
+ * const everyTuesday: RecurrenceWeekday = 2;
+ * const secondTuesday: RecurrenceWeekday = { weekday: 2, nth: 2 }; // 2TU
+ * const lastFriday: RecurrenceWeekday = { weekday: 5, nth: -1 }; // -1FR
+ * ```
+ */
+export type RecurrenceWeekday = WeekDay | { weekday: WeekDay; nth: number };
+
+/**
+ * A recurrence rule (RFC 5545 `RRULE`).
+ *
+ * The `BY*` parts expand or limit the occurrences as described in RFC 5545. Parts that are
+ * not given default to the corresponding fields of the start date (e.g., a monthly rule
+ * without `byMonthDay` or `byDay` recurs on the day of the month of the start date).
+ *
+ * @example
+ * ```typescript
+ * // Every 2nd Tuesday of the month
+ * const rule: RecurrenceRule = { freq: 'MONTHLY', byDay: [{ weekday: 2, nth: 2 }] };
+ *
+ * // Last weekday of the month
+ * const lastWeekday: RecurrenceRule = { freq: 'MONTHLY', byDay: [1, 2, 3, 4, 5], bySetPos: [-1] };
+ *
+ * // Monthly on the 31st, clamped to the last day of shorter months
+ * const billing: RecurrenceRule = { freq: 'MONTHLY', byMonthDay: [31], skip: 'backward' };
+ * ```
+ */
+export interface RecurrenceRule {
+  /** How often the rule repeats */
+  freq: RecurrenceFrequency;
+  /** The number of `freq` periods between repetitions. Defaults to 1 */
+  interval?: number;
+  /** The maximum number of occurrences */
+  count?: number;
+  /**
+   * The last possible occurrence (inclusive). A PlainDate includes the whole day, a PlainDateTime
+   * is interpreted in the time zone of the start date
+   */
+  until?: ZonedDateTime | PlainDateTime | PlainDate;
+  /** Months (1-12) */
+  byMonth?: number[];
+  /** Week numbers of the year (1-53, negative from the end), for yearly rules */
+  byWeekNo?: number[];
+  /** Days of the year (1-366, negative from the end) */
+  byYearDay?: number[];
+  /** Days of the month (1-31, negative from the end) */
+  byMonthDay?: number[];
+  /** Weekdays, optionally with an ordinal */
+  byDay?: RecurrenceWeekday[];
+  /** Hours (0-23) */
+  byHour?: number[];
+  /** Minutes (0-59) */
+  byMinute?: number[];
+  /** Seconds (0-59) */
+  bySecond?: number[];
+  /** Positions (1-based, negative from the end) within the occurrences of each period */
+  bySetPos?: number[];
+  /** The first day of the week (ISO numbering). Defaults to 1 (Monday) */
+  weekStart?: WeekDay;
+  /**
+   * What to do with days that do not exist in a month, such as the 31st in April (RFC 7529 `SKIP`).
+   *
+   * - `omit`: Skip the occurrence (default, RFC 5545 behavior)
+   * - `backward`: Use the last day of the month
+   * - `forward`: Use the first day of the next month
+   */
+  skip?: "omit" | "backward" | "forward";
+}
+
+/**
+ * How occurrences that fall on non-working days are moved.
+ *
+ * - `next`: The next workday
+ * - `previous`: The previous workday
+ * - `nearest`: The closest workday, preferring the next one on a tie
+ * - `modifiedNext`: The next workday, unless it is in the next month; then the previous workday
+ * - `modifiedPrevious`: The previous workday, unless it is in the previous month; then the next workday
+ * - `skip`: Drop the occurrence
+ */
+export type WorkdayRoll = "next" | "previous" | "nearest" | "modifiedNext" | "modifiedPrevious" | "skip";
+
+/**
+ * Moves occurrences onto workdays, using the same holiday model as `isWorkday`.
+ *
+ * @example
+ * ```typescript
+ * // Pay day on the 25th, or the workday before it
+ * const adjustment: WorkdayAdjustment = { roll: 'previous', holidayList: getKoreanHolidays(2024) };
+ * ```
+ */
+export interface WorkdayAdjustment {
+  /** How occurrences on non-working days are moved */
+  roll: WorkdayRoll;
+  /** An array of holiday objects to consider when determining business days */
+  holidayList?: HolidayDefinition[];
+  /** An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday) */
+  dayOffWeekdays?: WeekDay[];
+}
+
+/**
+ * Options for creating a `Recurrence`.
+ *
+ * @example
+ * ```typescript
+ * const options: RecurrenceOptions = {
+ *   start: '2024-01-09T10:00:00+09:00[Asia/Seoul]',
+ *   rule: 'FREQ=MONTHLY;BYDAY=2TU',
+ *   exdates: ['2024-03-12T10:00:00+09:00[Asia/Seoul]'],
+ * };
+ * ```
+ */
+export interface RecurrenceOptions {
+  /**
+   * The start of the recurrence (RFC 5545 `DTSTART`). It sets the time zone and the defaults of the rule,
+   * and no occurrence of the rule is earlier. Like most RRULE implementations, it is only an occurrence
+   * itself when it matches the rule. Strings without a time zone are interpreted in `DEFAULT_TIMEZONE`
+   */
+  start: ZonedDateTime | string;
+  /** The recurrence rule, as an object or RRULE text */
+  rule?: RecurrenceRule | string;
+  /** Additional occurrences (RFC 5545 `RDATE`) */
+  rdates?: (ZonedDateTime | string)[];
+  /** Excluded occurrences (RFC 5545 `EXDATE`). A PlainDate (or date-only string) excludes the whole day */
+  exdates?: (ZonedDateTime | PlainDate | string)[];
+  /** Moves occurrences onto workdays after exclusions are applied */
+  adjustment?: WorkdayAdjustment;
+}
+
+/**
+ * An event read from or written to an iCalendar (.ics) file.
+ *
+ * All-day events use PlainDate values and timed events use ZonedDateTime values.
+ * As in iCalendar, `end` is exclusive: a one-day event on 2024-01-01 ends on 2024-01-02.
+ *
+ * @example
+ * ```typescript
+ * const meeting: ICSEvent = {
+ *   summary: 'Weekly sync',
+ *   start: Temporal.ZonedDateTime.from('2024-01-08T10:00:00+09:00[Asia/Seoul]'),
+ *   end: Temporal.ZonedDateTime.from('2024-01-08T11:00:00+09:00[Asia/Seoul]'),
+ *   rule: { freq: 'WEEKLY' },
+ * };
+ * ```
+ */
+export interface ICSEvent {
+  /** The unique identifier of the event (`UID`). Generated when writing if omitted */
+  uid?: string;
+  /** The title of the event (`SUMMARY`) */
+  summary: string;
+  /** The start of the event (`DTSTART`) */
+  start: ZonedDateTime | PlainDate;
+  /** The exclusive end of the event (`DTEND`). Defaults to the next day for all-day events and to `start` otherwise */
+  end?: ZonedDateTime | PlainDate;
+  /** A longer description of the event (`DESCRIPTION`) */
+  description?: string;
+  /** The location of the event (`LOCATION`) */
+  location?: string;
+  /** The recurrence rule of the event (`RRULE`) */
+  rule?: RecurrenceRule;
+  /** Additional occurrences (`RDATE`) */
+  rdates?: (ZonedDateTime | PlainDate)[];
+  /** Excluded occurrences (`EXDATE`) */
+  exdates?: (ZonedDateTime | PlainDate)[];
+}
+
+/**
+ * The contents of an iCalendar (.ics) file, as returned by `parseICS`.
+ */
+export interface ICSCalendar {
+  /** The name of the calendar (`X-WR-CALNAME`), when present */
+  name?: string;
+  /** All events of the calendar, in file order */
+  events: ICSEvent[];
+  /** The all-day events of the calendar converted to holidays */
+  holidays: HolidayDefinition[];
+}
+
+/**
+ * Options for writing iCalendar (.ics) files.
+ *
+ * @example
+ * ```typescript
+ * const options: ICSOptions = { calendarName: '회사 휴일', startYear: 2024, endYear: 2030 };
+ * holidaysToICS(holidays, options);
+ * ```
+ */
+export interface ICSOptions {
+  /** The name shown by calendar apps (`X-WR-CALNAME`) */
+  calendarName?: string;
+  /** The product identifier (`PRODID`). Defaults to "-//zwoninstitute//il-gaemi//EN" */
+  productId?: string;
+  /** The time stamp of the events (`DTSTAMP`). Defaults to the current time */
+  timestamp?: ZonedDateTime;
+  /** The first year of rule-based holidays without `validFrom`. Defaults to the current year */
+  startYear?: number;
+  /**
+   * The last year of holidays that cannot be expressed as an RRULE (Easter-based rules) without `validUntil`,
+   * and of the VTIMEZONE transitions of events that recur forever. Defaults to `startYear + 10`
+   */
+  endYear?: number;
+}
+
+/**
+ * Options for reading iCalendar (.ics) files.
+ */
+export interface ParseICSOptions {
+  /**
+   * The time zone of floating date-times (without `TZID` or `Z`). Defaults to the calendar's
+   * `X-WR-TIMEZONE`, or `DEFAULT_TIMEZONE`
+   */
+  timeZone?: TimeZone;
+}
+
+/**
+ * Options for evaluating cron expressions.
+ *
+ * @example
+ * ```typescript
+ * // Nightly batch in Seoul, only on Korean workdays
+ * const options: CronOptions = { timeZone: 'Asia/Seoul', workdaysOnly: true, holidayList: getKoreanHolidays(2024) };
+ * parseCron('0 2 * * *', options);
+ * ```
+ */
+export interface CronOptions {
+  /** The time zone the expression is evaluated in. Defaults to `DEFAULT_TIMEZONE` */
+  timeZone?: TimeZone;
+  /** Whether runs on non-working days (days off and holidays) are skipped. Defaults to `false` */
+  workdaysOnly?: boolean;
+  /** An array of holiday objects to consider when `workdaysOnly` is set */
+  holidayList?: HolidayDefinition[];
+  /** An array of weekday numbers representing non-working days. Defaults to [6, 7] (Saturday, Sunday) */
+  dayOffWeekdays?: WeekDay[];
+}
+
+/**
+ * A value transformer converting between a Temporal type and the value stored in a database column.
+ *
+ * The shape matches TypeORM's `ValueTransformer`, so transformers can be passed to the `transformer`
+ * option of `@Column()` without importing TypeORM types. MikroORM custom `Type` classes are not provided.
+ * `null` and `undefined` are mapped to `null` in both directions.
+ *
+ * @template T - The Temporal type used in the entity
+ * @template D - The value written to the database driver
+ *
+ * @example
+ * ```typescript
+ * @Column({ type: 'date', transformer: PlainDateTransformer, nullable: true })
+ * birthDate: PlainDate | null;
+ * ```
+ */
+export interface ColumnTransformer<T, D> {
+  /** Converts an entity value to a database value */
+  to(value: T | null | undefined): D | null;
+  /** Converts a value read from the database (a driver `Date` or a string) to an entity value */
+  from(value: D | string | null | undefined): T | null;
+}
+
+/**
+ * Names of the Temporal types handled by JSON serialization.
+ */
+export type TemporalTypeName = "PlainDate" | "PlainDateTime" | "ZonedDateTime" | "Instant" | "PlainTime" | "Duration";
+
+/**
+ * A value of one of the Temporal types handled by JSON serialization.
+ */
+export type TemporalValue = PlainDate | PlainDateTime | ZonedDateTime | Temporal.Instant | PlainTime | Duration;
+
+/**
+ * A JSON value tagged with its Temporal type, as written by `temporalReplacer`.
+ *
+ * @example
+ * ```typescript
+ * const tagged: TaggedTemporal = { $temporal: 'PlainDate', value: '2024-01-15' };
+ * ```
+ */
+export interface TaggedTemporal {
+  /** The Temporal type of the value */
+  $temporal: TemporalTypeName;
+  /** The ISO 8601 string of the value */
+  value: string;
+}
+
+/**
+ * Describes where Temporal values are located in untagged JSON.
+ *
+ * A type name revives the value at that position; an array of type names accepts any of them and picks
+ * the type from the shape of the string. Objects describe nested fields, and the `"*"` key applies to
+ * every array element or object value.
+ *
+ * @example
+ * ```typescript
+ * // Schema for ICSEvent
+ * const schema: TemporalSchema = {
+ *   start: ['ZonedDateTime', 'PlainDate'],
+ *   end: ['ZonedDateTime', 'PlainDate'],
+ *   rule: { until: ['ZonedDateTime', 'PlainDateTime', 'PlainDate'] },
+ *   rdates: { '*': ['ZonedDateTime', 'PlainDate'] },
+ *   exdates: { '*': ['ZonedDateTime', 'PlainDate'] },
+ * };
+ * ```
+ */
+export type TemporalSchema = TemporalTypeName | TemporalTypeName[] | { [key: string]: TemporalSchema };
+
+/**
+ * Options for serializing values containing Temporal objects to JSON.
+ */
+export interface SerializeOptions {
+  /**
+   * Whether Temporal values are written as `TaggedTemporal` objects. Set to `false` to write plain ISO
+   * strings and revive them with a `TemporalSchema`. Defaults to `true`
+   */
+  tagged?: boolean;
+  /** Indentation passed to `JSON.stringify` */
+  space?: string | number;
+}
+
+/**
+ * Options for deserializing JSON containing Temporal values.
+ */
+export interface DeserializeOptions {
+  /** Locations of untagged Temporal values. Tagged values are always revived */
+  schema?: TemporalSchema;
+}
+
+/**
+ * Options for converting request input to Temporal values in the NestJS integration.
+ *
+ * @example
+ * ```typescript
+ * // Korean-style dates in query strings
+ * const options: TemporalInputOptions = { format: 'YYYY.MM.DD' };
+ * ```
+ */
+export interface TemporalInputOptions {
+  /** A `parse` format string describing the input. Defaults to ISO 8601 strings */
+  format?: string;
+  /** The time zone of ZonedDateTime and Instant input without an offset. Defaults to `DEFAULT_TIMEZONE` */
+  timeZone?: TimeZone;
+  /** Whether the input must match `format` exactly (see `ParseOptions.strict`). Defaults to `false` */
+  strict?: boolean;
+}
+
+/**
+ * Options for `ParseTemporalPipe`.
+ */
+export interface ParseTemporalPipeOptions extends TemporalInputOptions {
+  /** Whether missing values (`undefined`, `null` or `""`) are passed through as `undefined`. Defaults to `false` */
+  optional?: boolean;
+}
+
+/**
+ * A source of the current time.
+ *
+ * `getNow`, `getNowUTC`, `formatRelative` and the other functions depending on the current time read it
+ * from the active clock, which can be replaced with `setClock`, `useFixedClock` or `withClock`.
+ *
+ * @example
+ * ```typescript
+ * // A clock running one hour ahead of the system clock
+ * const clock: Clock = { now: () => Temporal.Now.instant().add({ hours: 1 }) };
+ * setClock(clock);
+ * ```
+ */
+export interface Clock {
+  /** Returns the current instant */
+  now(): Temporal.Instant;
+}
+
+/**
+ * Configuration of a library instance created with `createIlgaemi`.
+ *
+ * Each setting replaces a default of the top-level functions; arguments passed to the instance functions
+ * still take precedence.
+ *
+ * @example
+ * ```typescript
+ * const config: IlgaemiConfig = {
+ *   timeZone: 'Asia/Singapore',
+ *   holidays: [{ date: '2024-08-09', name: 'National Day' }],
+ *   locale: 'en',
+ * };
+ * ```
+ */
+export interface IlgaemiConfig {
+  /** The time zone of current times, created dates and floating values. Defaults to `DEFAULT_TIMEZONE` */
+  timeZone?: string;
+  /** The holidays of workday and business hours calculations. Defaults to none */
+  holidays?: HolidayDefinition[];
+  /** The days off of workday and business hours calculations. Defaults to `[6, 7]` (Saturday and Sunday) */
+  dayOffWeekdays?: WeekDay[];
+  /** The locale of human-facing output, as a registered code or locale data. Defaults to the global default locale */
+  locale?: string | Locale;
+  /** The clock of the current time. Defaults to the active clock (see `getClock`) */
+  clock?: Clock;
+  /** The fiscal calendar of fiscal functions and format tokens. Defaults to fiscal years from January */
+  fiscalCalendar?: FiscalCalendar;
+}
+
+/**
+ * A library instance created with `createIlgaemi`.
+ *
+ * It has the public functions of the library with the defaults of its configuration, and column
+ * transformers in its time zone. Functions managing global state (`registerLocale`, `setDefaultLocale`,
+ * `setClock`, `useFixedClock`, `advanceClock`, `withClock`) are only available at the top level.
+ *
+ * @example
+ * ```typescript
+ * const sg: Ilgaemi = createIlgaemi({ timeZone: 'Asia/Singapore' });
+ * sg.getNow().timeZoneId; // "Asia/Singapore"
+ * ```
+ */
+export interface Ilgaemi {
+  /** The configuration of the instance */
+  readonly config: Readonly<IlgaemiConfig>;
+
+  // Date calculation
+  isWorkday: typeof date.isWorkday;
+  getWeekDay: typeof date.getWeekDay;
+  getWeekNum: typeof date.getWeekNum;
+  getNextWorkday: typeof date.getNextWorkday;
+  getPreviousWorkday: typeof date.getPreviousWorkday;
+  addWorkdays: typeof date.addWorkdays;
+  subtractWorkdays: typeof date.subtractWorkdays;
+  countWorkdays: typeof date.countWorkdays;
+  listWorkdays: typeof date.listWorkdays;
+  createBusinessCalendar: typeof calendar.createBusinessCalendar;
+  createInterval: typeof interval.createInterval;
+
+  // Fiscal calendar
+  getFiscalYear: typeof fiscal.getFiscalYear;
+  getFiscalQuarter: typeof fiscal.getFiscalQuarter;
+  getFiscalPeriod: typeof fiscal.getFiscalPeriod;
+  getFiscalWeek: typeof fiscal.getFiscalWeek;
+  getFiscalYearRange: typeof fiscal.getFiscalYearRange;
+  getFiscalQuarterRange: typeof fiscal.getFiscalQuarterRange;
+  getFiscalPeriodRange: typeof fiscal.getFiscalPeriodRange;
+
+  // Business hours
+  isWithinBusinessHours: typeof hours.isWithinBusinessHours;
+  nextBusinessOpen: typeof hours.nextBusinessOpen;
+  addBusinessHours: typeof hours.addBusinessHours;
+  addBusinessMinutes: typeof hours.addBusinessMinutes;
+  businessTimeBetween: typeof hours.businessTimeBetween;
+
+  // Meeting planning
+  findCommonSlots: typeof meeting.findCommonSlots;
+
+  // Recurrence, iCalendar and cron
+  createRecurrence: typeof recurrence.createRecurrence;
+  parseRecurrenceRule: typeof recurrence.parseRecurrenceRule;
+  formatRecurrenceRule: typeof recurrence.formatRecurrenceRule;
+  holidaysToICS: typeof ics.holidaysToICS;
+  eventsToICS: typeof ics.eventsToICS;
+  parseICS: typeof ics.parseICS;
+  createCron: typeof cron.createCron;
+  parseCron: typeof cron.parseCron;
+
+  // JSON
+  temporalReplacer: typeof json.temporalReplacer;
+  temporalReviver: typeof json.temporalReviver;
+  serialize: typeof json.serialize;
+  deserialize: typeof json.deserialize;
+  reviveTemporal: typeof json.reviveTemporal;
+
+  // Holidays and lunar calendar
+  getKoreanHolidays: typeof holiday.getKoreanHolidays;
+  getKoreanHolidaysBetween: typeof holiday.getKoreanHolidaysBetween;
+  toLunar: typeof lunar.toLunar;
+  fromLunar: typeof lunar.fromLunar;
+  getLunarLeapMonth: typeof lunar.getLunarLeapMonth;
+  getLunarMonthDays: typeof lunar.getLunarMonthDays;
+
+  // Timezone
+  getNow: typeof timezone.getNow;
+  getNowUTC: typeof timezone.getNowUTC;
+  convertToZonedDateTime: typeof timezone.convertToZonedDateTime;
+  toUTC: typeof timezone.toUTC;
+  fromUTC: typeof timezone.fromUTC;
+  getTimeZoneOffset: typeof timezone.getTimeZoneOffset;
+  getDate: typeof timezone.getDate;
+  getDateUTC: typeof timezone.getDateUTC;
+  getDateTime: typeof timezone.getDateTime;
+  getDateTimeUTC: typeof timezone.getDateTimeUTC;
+  getTime: typeof timezone.getTime;
+  isSkippedLocalTime: typeof timezone.isSkippedLocalTime;
+  isAmbiguousLocalTime: typeof timezone.isAmbiguousLocalTime;
+  getOffsetString: typeof timezone.getOffsetString;
+  getNextTransition: typeof timezone.getNextTransition;
+  getPreviousTransition: typeof timezone.getPreviousTransition;
+  listTransitions: typeof timezone.listTransitions;
+  getTimeZoneAbbreviation: typeof timezone.getTimeZoneAbbreviation;
+  resolveTimeZoneAbbreviation: typeof timezone.resolveTimeZoneAbbreviation;
+  listTimeZones: typeof timezone.listTimeZones;
+
+  // Formatting and parsing
+  format: typeof format.format;
+  formatDuration: typeof format.formatDuration;
+  formatKorean: typeof format.formatKorean;
+  formatLong: typeof format.formatLong;
+  formatRelative: typeof format.formatRelative;
+  parse: typeof format.parse;
+  parseDuration: typeof format.parseDuration;
+
+  // TypeORM integration
+  temporalToDate: typeof transform.temporalToDate;
+  dateToZonedDateTime: typeof transform.dateToZonedDateTime;
+  dateToPlainDate: typeof transform.dateToPlainDate;
+  dateToPlainDateTime: typeof transform.dateToPlainDateTime;
+  createPlainDateTransformer: typeof transform.createPlainDateTransformer;
+  createPlainDateTimeTransformer: typeof transform.createPlainDateTimeTransformer;
+  createZonedDateTimeTransformer: typeof transform.createZonedDateTimeTransformer;
+  createInstantTransformer: typeof transform.createInstantTransformer;
+  createPlainTimeTransformer: typeof transform.createPlainTimeTransformer;
+  PlainDateTransformer: ColumnTransformer<PlainDate, Date>;
+  PlainDateTimeTransformer: ColumnTransformer<PlainDateTime, Date>;
+  ZonedDateTimeTransformer: ColumnTransformer<ZonedDateTime, Date>;
+  InstantTransformer: ColumnTransformer<Temporal.Instant, Date>;
+  PlainTimeTransformer: ColumnTransformer<PlainTime, string>;
+}
+
+/**
+ * Options for parsing a date string with a format string.
+ *
+ * @example
+ * ```typescript
+ * // Interpret partner timestamps in New York time and require an exact match
+ * const options: ParseOptions = { timeZone: 'America/New_York', strict: true };
+ * parse('01/15/2024 14:05', 'MM/DD/YYYY HH:mm', options);
+ * ```
+ */
+export interface ParseOptions {
+  /** The locale used to read month names, weekday names and meridiems. Defaults to the global default locale */
+  locale?: string | Locale;
+  /**
+   * The timezone of the parsed value. When set, the result is a ZonedDateTime.
+   * Values with an offset (`Z`, `ZZ`) are converted to this timezone.
+   */
+  timeZone?: TimeZone;
+  /**
+   * Whether the input must match the format exactly. Defaults to `false`.
+   *
+   * In strict mode padded tokens (`MM`, `DD`, `HH`, ...) require their full width, names and
+   * meridiems are case-sensitive, literals and whitespace must match exactly and no trailing
+   * input is allowed. Otherwise padding is optional, matching is case-insensitive, whitespace
+   * in the format matches any amount of whitespace and surrounding whitespace is ignored.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Units used in relative time expressions.
+ */
+export type RelativeTimeUnit = "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/**
+ * Calendar units that have named relative phrases (e.g., 어제, 지난주, 작년).
+ */
+export type RelativeCalendarUnit = "day" | "week" | "month" | "year";
+
+/**
+ * A phrase that may differ between singular and plural.
+ * `%d` is replaced by the number.
+ */
+export type LocalePhrase = string | { one: string; other: string };
+
+/**
+ * Locale data used for human-facing output.
+ *
+ * Built-in locales are `ko` (default), `en` and `ja`. Custom locales can be added with
+ * `registerLocale()`.
+ *
+ * @example
+ * ```typescript
+ * const de: Locale = {
+ *   code: 'de',
+ *   months: ['Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'],
+ *   monthsShort: ['Jan', 'Feb', 'Mär', 'Apr', 'Mai', 'Jun', 'Jul', 'Aug', 'Sep', 'Okt', 'Nov', 'Dez'],
+ *   weekdays: ['Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag', 'Sonntag'],
+ *   weekdaysShort: ['Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So'],
+ *   meridiem: { am: 'AM', pm: 'PM' },
+ *   relativeTime: {
+ *     past: 'vor %s',
+ *     future: 'in %s',
+ *     now: 'gerade eben',
+ *     units: {
+ *       minute: { one: '%d Minute', other: '%d Minuten' },
+ *       hour: { one: '%d Stunde', other: '%d Stunden' },
+ *       day: { one: '%d Tag', other: '%d Tagen' },
+ *       week: { one: '%d Woche', other: '%d Wochen' },
+ *       month: { one: '%d Monat', other: '%d Monaten' },
+ *       year: { one: '%d Jahr', other: '%d Jahren' }
+ *     },
+ *     auto: {
+ *       day: { previous: 'gestern', current: 'heute', next: 'morgen' },
+ *       week: { previous: 'letzte Woche', current: 'diese Woche', next: 'nächste Woche' },
+ *       month: { previous: 'letzten Monat', current: 'diesen Monat', next: 'nächsten Monat' },
+ *       year: { previous: 'letztes Jahr', current: 'dieses Jahr', next: 'nächstes Jahr' }
+ *     }
+ *   },
+ *   calendar: {
+ *     lastDay: '[gestern] {time}',
+ *     sameDay: '[heute] {time}',
+ *     nextDay: '[morgen] {time}',
+ *     lastWeek: '[letzten] dddd {time}',
+ *     thisWeek: 'dddd {time}',
+ *     nextWeek: '[nächsten] dddd {time}',
+ *     sameElse: 'DD.MM.YYYY',
+ *     time: '[um] HH:mm'
+ *   },
+ *   duration: {
+ *     long: {
+ *       years: { one: '%d Jahr', other: '%d Jahre' },
+ *       months: { one: '%d Monat', other: '%d Monate' },
+ *       weeks: { one: '%d Woche', other: '%d Wochen' },
+ *       days: { one: '%d Tag', other: '%d Tage' },
+ *       hours: { one: '%d Stunde', other: '%d Stunden' },
+ *       minutes: { one: '%d Minute', other: '%d Minuten' },
+ *       seconds: { one: '%d Sekunde', other: '%d Sekunden' },
+ *       milliseconds: { one: '%d Millisekunde', other: '%d Millisekunden' }
+ *     },
+ *     short: {
+ *       years: '%d J.', months: '%d Mon.', weeks: '%d Wo.', days: '%d T.',
+ *       hours: '%d Std.', minutes: '%d Min.', seconds: '%d Sek.', milliseconds: '%d ms'
+ *     },
+ *     separator: ' '
+ *   },
+ *   formats: { long: 'dddd, D. MMMM YYYY', longDateTime: 'dddd, D. MMMM YYYY HH:mm' }
+ * };
+ *
+ * registerLocale(de);
+ * ```
+ */
+export interface Locale {
+  /** The locale code (e.g., 'ko', 'en', 'ja') */
+  code: string;
+  /** Month names, January first */
+  months: string[];
+  /** Abbreviated month names, January first */
+  monthsShort: string[];
+  /** Weekday names in ISO order, Monday first */
+  weekdays: string[];
+  /** Abbreviated weekday names in ISO order, Monday first */
+  weekdaysShort: string[];
+  /** Texts for the `A` token (`a` uses the lowercase form) */
+  meridiem: { am: string; pm: string };
+  /** Phrases used by `formatRelative` */
+  relativeTime: {
+    /** Template for past times; `%s` is replaced by the duration (e.g., '%s 전') */
+    past: string;
+    /** Template for future times; `%s` is replaced by the duration (e.g., '%s 후') */
+    future: string;
+    /** Text for differences of less than a minute */
+    now: string;
+    /** Duration phrases per unit */
+    units: Record<RelativeTimeUnit, LocalePhrase>;
+    /** Named phrases used with `numeric: 'auto'` for the previous, current and next calendar unit */
+    auto: Record<RelativeCalendarUnit, { previous: string; current: string; next: string }>;
+  };
+  /**
+   * Patterns used by `formatRelative` with `style: 'calendar'`, using the custom format tokens.
+   * `{time}` is replaced by the `time` pattern (omitted for PlainDate values).
+   */
+  calendar: {
+    lastDay: string;
+    sameDay: string;
+    nextDay: string;
+    /** Any day of the previous week (weeks start on Monday) */
+    lastWeek: string;
+    /** Any other day of the current week */
+    thisWeek: string;
+    /** Any day of the next week */
+    nextWeek: string;
+    /** Any other date */
+    sameElse: string;
+    /** Time pattern inserted for `{time}` */
+    time: string;
+    /** Time pattern used instead of `time` when the minutes are zero */
+    timeOnTheHour?: string;
+  };
+  /** Unit phrases used by `formatDuration` ('%d' is replaced by the number) */
+  duration: {
+    /** Phrases for `style: 'long'` (e.g., "2시간", "2 hours") */
+    long: Record<DurationUnit, LocalePhrase>;
+    /** Phrases for `style: 'short'` (e.g., "2시간", "2 hr") */
+    short: Record<DurationUnit, LocalePhrase>;
+    /** Text placed between units (e.g., " " or "") */
+    separator: string;
+  };
+  /** Default format patterns, using the custom format tokens */
+  formats: {
+    /** Pattern used by `formatLong` for dates */
+    long: string;
+    /** Pattern used by `formatLong` for values with a time */
+    longDateTime: string;
+  };
+}
+
+/**
+ * Options for locale-aware formatting functions.
+ *
+ * @example
+ * ```typescript
+ * format('2024-01-15', 'custom', 'dddd', { locale: 'en' }); // "Monday"
+ * formatLong('2024-01-15', { locale: 'ja' }); // "2024年1月15日 月曜日"
+ * ```
+ */
+export interface FormatOptions {
+  /** The locale code or locale object to use. Defaults to the global default locale ('ko') */
+  locale?: string | Locale;
+}
+
+/**
+ * Options for `format`.
+ *
+ * @example
+ * ```typescript
+ * format('2024-05-15', 'custom', '[FY]FYYYY [Q]FQ', { fiscalCalendar: { startMonth: 4 } }); // "FY2024 Q1"
+ * ```
+ */
+export interface DateFormatOptions extends FormatOptions {
+  /** The fiscal calendar of the fiscal tokens (`FYYYY`, `FQ`, `FP`, ...). Defaults to the instance fiscal calendar */
+  fiscalCalendar?: FiscalCalendar;
+}
+
+/**
+ * Units of a Temporal.Duration, from largest to smallest.
+ */
+export type DurationUnit = "years" | "months" | "weeks" | "days" | "hours" | "minutes" | "seconds" | "milliseconds";
+
+/**
+ * Options for `formatDuration`.
+ *
+ * @example
+ * ```typescript
+ * formatDuration('PT150M', { units: ['hours', 'minutes'] }); // "2시간 30분"
+ * formatDuration('P1DT4H', { locale: 'en' }); // "1 day 4 hours"
+ * formatDuration('PT1H30M', { style: 'compact' }); // "1h30m"
+ * ```
+ */
+export interface FormatDurationOptions extends FormatOptions {
+  /**
+   * - `long`: Full unit names (e.g., "2시간 30분", "2 hours 30 minutes") (default)
+   * - `short`: Abbreviated unit names (e.g., "2시간 30분", "2 hr 30 min")
+   * - `compact`: Locale-independent unit letters (e.g., "2h30m"), as accepted by `parseDuration`
+   */
+  style?: "long" | "short" | "compact";
+  /**
+   * The units to show. The duration is balanced into these units and rounded to the smallest one.
+   * Defaults to the non-zero units of the duration as given, without balancing.
+   */
+  units?: DurationUnit[];
+  /**
+   * The start date used to balance years, months and weeks, which have no fixed length.
+   * Required when `units` includes them or the duration contains them.
+   */
+  relativeTo?: PlainDate | ZonedDateTime | string;
+}
+
+/**
+ * Options for `formatRelative`.
+ *
+ * @example
+ * ```typescript
+ * const base = Temporal.ZonedDateTime.from('2024-01-17T12:00:00+09:00[Asia/Seoul]');
+ *
+ * formatRelative('2024-01-16T09:00:00+09:00[Asia/Seoul]', base, { numeric: 'auto' }); // "어제"
+ * formatRelative('2024-01-09T15:00:00+09:00[Asia/Seoul]', base, { style: 'calendar' }); // "지난주 화요일 오후 3시"
+ * formatRelative('2023-11-20', base, { thresholds: { week: 0 } }); // "2개월 전"
+ * ```
+ */
+export interface FormatRelativeOptions extends FormatOptions {
+  /**
+   * - `relative`: A duration relative to the base date (e.g., "3일 전") (default)
+   * - `calendar`: A calendar description (e.g., "어제 오후 3시", "지난주 화요일 오후 3시")
+   */
+  style?: "relative" | "calendar";
+  /**
+   * - `always`: Always use a number (e.g., "1일 전") (default)
+   * - `auto`: Use named phrases for adjacent calendar units (e.g., "어제", "지난주", "내년").
+   *   Day and larger units are then counted in calendar days, weeks, months and years, and the
+   *   thresholds are compared with those counts (7 calendar days ago is "지난주", not "7일 전").
+   */
+  numeric?: "always" | "auto";
+  /**
+   * How values are rounded to whole units. Defaults to `"round"`.
+   * `floor` and `ceil` apply to the magnitude, so "1.5일 전" becomes "1일 전" and "2일 전" respectively.
+   */
+  rounding?: "round" | "floor" | "ceil";
+  /**
+   * The limit below which each unit is used, in that unit. A difference of less than `now` seconds
+   * is shown as the locale's "now" text. A threshold of 0 skips the unit.
+   *
+   * Defaults: `{ now: 45, minute: 45, hour: 22, day: 7, week: 4, month: 11 }`
+   */
+  thresholds?: Partial<Record<"now" | Exclude<RelativeTimeUnit, "year">, number>>;
+  /**
+   * The timezone used to interpret PlainDate / PlainDateTime values, to get the current time
+   * and to determine calendar days. Defaults to the timezone of `baseDate`, or `DEFAULT_TIMEZONE`.
+   */
+  timeZone?: TimeZone;
+}